@@ -1,16 +1,15 @@
 import type { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { identityManager } from '../services/identity-manager';
 import { capabilityIssuer } from '../services/capability-issuer';
+import { sessionService } from '../services/session-service';
 import { AuthenticationError, AuthorizationError } from '../utils/errors';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
-
 export interface AuthenticatedRequest extends Request {
   agent?: {
     id: string;
     did: string;
     capabilities: string[];
+    sessionId?: string;
   };
 }
 
@@ -27,24 +26,22 @@ export async function authenticateToken(
       throw new AuthenticationError('No token provided');
     }
 
-    // Try JWT authentication first
+    // Try DID Auth session tokens first
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as {
-        sub: string;
-        agentId?: string;
-      };
+      const session = await sessionService.verifyAccessToken(token);
 
-      const agent = await identityManager.getAgentByDID(decoded.sub);
+      const agent = await identityManager.getAgent(session.agentId);
       
       req.agent = {
         id: agent.id,
         did: agent.did,
-        capabilities: agent.capabilities
+        capabilities: agent.capabilities,
+        sessionId: session.sid
       };
 
       return next();
     } catch {
-      // Not a valid JWT, try API key
+      // Not a valid session token, try capability token
     }
 
     // Try capability token
@@ -43,6 +43,8 @@ export interface AgentRelationship {
   lastInteractionAt: Date;
   interactionCount: number;
   metadata: Record<string, unknown>;
+  sourcePeerDid?: string; // Pairwise did:peer used by the source in this relationship
+  targetPeerDid?: string; // Pairwise did:peer used by the target in this relationship
 }
 
 export enum RelationshipType {
@@ -67,6 +69,8 @@ export interface AgentActivity {
 export enum ActivityType {
   IDENTITY_CREATED = 'identity_created',
   IDENTITY_UPDATED = 'identity_updated',
+  IDENTITY_DEACTIVATED = 'identity_deactivated',
+  KEY_ROTATED = 'key_rotated',
   CAPABILITY_GRANTED = 'capability_granted',
   CAPABILITY_REVOKED = 'capability_revoked',
   ATTESTATION_ISSUED = 'attestation_issued',
@@ -80,6 +84,8 @@ export interface CreateAgentRequest {
   name: string;
   description?: string;
   type: AgentType;
+  method?: string; // Any registered DID method driver
+  keyType?: 'secp256k1' | 'Ed25519' | 'P-256';
   capabilities?: string[];
   metadata?: Record<string, unknown>;
 }
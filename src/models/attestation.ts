@@ -1,3 +1,6 @@
+import { BitstringStatusListEntry, VerifiableCredential } from './credential';
+import { ClaimSchemaReference } from './claim-schema';
+
 export interface Attestation {
   id: string;
   type: AttestationType;
@@ -9,6 +12,12 @@ export interface Attestation {
   revocation?: RevocationInfo;
   proof: AttestationProof;
   metadata?: Record<string, unknown>;
+  issuerDeactivatedAt?: Date; // Set when the issuer's DID is deactivated after issuance
+  jwt?: string; // VC-JWT form, for attestations issued in the jwt format
+  sdJwt?: string; // SD-JWT with every disclosure, for the sd-jwt format
+  credentialStatus?: BitstringStatusListEntry; // Absent on imported attestations
+  claimSchemas?: ClaimSchemaReference[]; // Schemas the claims were validated against
+  importedCredential?: VerifiableCredential; // Original credential, set only by importCredential
 }
 
 export interface AttestationClaim {
@@ -19,6 +28,7 @@ export interface AttestationClaim {
 
 export interface AttestationProof {
   type: string;
+  cryptosuite?: string; // Set for Data Integrity proofs on imported credentials
   created: string;
   proofPurpose: string;
   verificationMethod: string;
@@ -43,12 +53,18 @@ export interface RevocationInfo {
   revokedBy: string;
 }
 
+// json-ld attestations carry only the hub proof; jwt ones are also issued as a
+// compact JWS (VC-JOSE-COSE) signed with the issuer's assertion key, sd-jwt ones
+// as an SD-JWT whose claims the subject can disclose one at a time
+export type AttestationFormat = 'json-ld' | 'jwt' | 'sd-jwt';
+
 export interface AttestationRequest {
   type: AttestationType;
   subject: string;
   claims: Omit<AttestationClaim, 'issuer'>[];
   expiresInHours?: number;
   metadata?: Record<string, unknown>;
+  format?: AttestationFormat;
 }
 
 export interface AttestationVerificationResult {
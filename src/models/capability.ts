@@ -1,3 +1,5 @@
+import { BitstringStatusListEntry } from './credential';
+
 export interface Capability {
   id: string;
   subject: string; // Agent DID
@@ -11,6 +13,7 @@ export interface Capability {
   issuedAt: Date;
   revokedAt?: Date;
   status: CapabilityStatus;
+  credentialStatus?: BitstringStatusListEntry;
 }
 
 export interface CapabilityCondition {
@@ -0,0 +1,34 @@
+import { AttestationType } from './attestation';
+
+// JSON Schema for the value of one claim type within one attestation type.
+// Versions are immutable; registering again for the same pair adds a version
+// under the same ID.
+export interface ClaimSchema {
+  id: string;
+  version: number;
+  attestationType: AttestationType;
+  claimType: string;
+  schema: Record<string, unknown>;
+  description?: string;
+  createdBy: string; // DID of the registering admin
+  createdAt: Date;
+}
+
+export interface ClaimSchemaInput {
+  attestationType: AttestationType;
+  claimType: string;
+  schema: Record<string, unknown>;
+  description?: string;
+}
+
+export interface ClaimSchemaFilter {
+  attestationType?: AttestationType;
+  claimType?: string;
+}
+
+// Recorded on attestations for each claim type validated at issuance
+export interface ClaimSchemaReference {
+  claimType: string;
+  id: string;
+  version: number;
+}
@@ -0,0 +1,101 @@
+// W3C Verifiable Credentials Data Model 2.0 shapes the hub reads and writes
+
+export interface VerifiableCredential {
+  '@context': Array<string | Record<string, unknown>>;
+  id?: string;
+  type: string[];
+  issuer: string | CredentialIssuer;
+  validFrom?: string;
+  validUntil?: string;
+  credentialSubject: CredentialSubject;
+  credentialStatus?: BitstringStatusListEntry;
+  proof?: DataIntegrityProof;
+}
+
+export interface CredentialIssuer {
+  id: string;
+  name?: string;
+}
+
+export interface CredentialSubject {
+  id: string;
+  [property: string]: unknown;
+}
+
+// secp256k1 keys, which no JCS cryptosuite covers, sign with their own proof type
+export interface DataIntegrityProof {
+  type: 'DataIntegrityProof' | 'EcdsaSecp256k1Signature2019';
+  cryptosuite?: string; // Set for DataIntegrityProof only
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  proofValue: string; // Multibase (base58btc) signature
+  challenge?: string;
+  domain?: string;
+}
+
+export type StatusPurpose = 'revocation';
+
+// Points a credential at its bit in a Bitstring Status List credential
+export interface BitstringStatusListEntry {
+  id: string; // <statusListCredential>#<statusListIndex>
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+export interface StatusListAllocation {
+  listId: string;
+  index: number;
+}
+
+// Registered JWT claims that may accompany a credential in a VC-JWT; VC 1.1
+// tokens nest the credential under vc instead of using the claims set itself
+export interface VcJwtClaims {
+  iss?: string;
+  sub?: string;
+  jti?: string;
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+  vc?: VerifiableCredential;
+}
+
+// Placeholder left in a signed SD-JWT for each disclosable array element
+export interface DisclosureDigest {
+  '...': string;
+}
+
+// Issuer-signed part of an attestation SD-JWT; every claim is withheld behind a digest
+export interface SdJwtClaims {
+  iss: string;
+  sub: string;
+  jti: string;
+  iat: number;
+  exp?: number;
+  vct: string;
+  _sd_alg: string;
+  claims: DisclosureDigest[];
+  cnf?: { kid: string }; // Holder DID whose authentication keys sign key binding JWTs
+}
+
+export interface KeyBindingClaims {
+  iat: number;
+  aud?: string;
+  nonce?: string;
+  sd_hash: string;
+}
+
+export interface SdJwtPresentationOptions {
+  disclose: string[]; // Claim types to reveal
+  audience?: string;
+  nonce?: string;
+}
+
+export interface SdJwtVerificationOptions {
+  audience?: string;
+  nonce?: string;
+}
+
+export type CredentialFormat = 'attestation' | 'vc';
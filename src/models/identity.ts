@@ -9,6 +9,7 @@ export interface DIDDocument {
   capabilityInvocation?: (string | VerificationMethod)[];
   capabilityDelegation?: (string | VerificationMethod)[];
   service?: ServiceEndpoint[];
+  nextKeyCommitment?: string; // sha256 of the next public key (pre-rotation)
   created?: string;
   updated?: string;
 }
@@ -20,8 +21,10 @@ export interface VerificationMethod {
   publicKeyHex?: string;
   publicKeyBase58?: string;
   publicKeyMultibase?: string;
+  publicKeyJwk?: Record<string, string>;
   blockchainAccountId?: string;
   ethereumAddress?: string;
+  revoked?: string; // Set when the key is rotated out
 }
 
 export interface ServiceEndpoint {
@@ -36,6 +39,18 @@ export interface DIDResolutionResult {
   didDocumentMetadata: DocumentMetadata;
 }
 
+export interface DIDDereferencingResult {
+  dereferencingMetadata: DereferencingMetadata;
+  // A document, a single method or service, or a service endpoint URL
+  contentStream: DIDDocument | VerificationMethod | ServiceEndpoint | string | null;
+  contentMetadata: DocumentMetadata;
+}
+
+export interface DereferencingMetadata {
+  contentType?: string;
+  error?: ResolutionError;
+}
+
 export interface ResolutionMetadata {
   contentType?: string;
   error?: ResolutionError;
@@ -45,22 +60,241 @@ export interface ResolutionMetadata {
 
 export enum ResolutionError {
   INVALID_DID = 'invalidDid',
+  INVALID_DID_URL = 'invalidDidUrl',
   NOT_FOUND = 'notFound',
   REPRESENTATION_NOT_SUPPORTED = 'representationNotSupported',
-  CONFIGURATION_ERROR = 'configurationError'
+  METHOD_NOT_SUPPORTED = 'methodNotSupported',
+  CONFIGURATION_ERROR = 'configurationError',
+  INTERNAL_ERROR = 'internalError'
 }
 
 export interface DocumentMetadata {
   created?: string;
   updated?: string;
   deactivated?: boolean;
+  deactivatedAt?: string;
   versionId?: string;
   nextUpdate?: string;
   nextVersionId?: string;
+  transactionHashes?: string[];
   equivalentId?: string[];
   canonicalId?: string;
 }
 
+export interface DIDDeactivationRecord {
+  did: string;
+  deactivatedAt: Date;
+  deactivatedBy: string; // DID of the agent or admin that requested it
+  reason?: string;
+  versionId: number; // Version holding the tombstone
+}
+
+export interface DIDDocumentVersion {
+  did: string;
+  versionId: number;
+  document: DIDDocument;
+  createdAt: Date;
+  deactivatedAt?: Date;
+  transactionHashes?: string[];
+  // Set while a committed version still has to be published to its method's ledger
+  pendingPublication?: DIDPublication;
+}
+
+export type DIDPublication = 'update' | 'deactivate';
+
+// One ledger transaction of a publication, saved as soon as it is confirmed
+export interface PublicationStep {
+  step: string; // Driver-defined, stable across retries of the same version
+  transactionHash: string;
+}
+
+export interface DIDResolutionOptions {
+  versionId?: string;
+  versionTime?: string;
+  noCache?: boolean; // Skip the resolution cache and fetch a fresh result
+}
+
+export interface DIDMethodInfo {
+  method: string;
+  keyTypes: string[];
+  deterministic: boolean; // Documents derived from the identifier, never updated
+  supportsServices: boolean;
+  operations: string[];
+}
+
+export interface ResolutionCacheStats {
+  hits: number;
+  misses: number;
+  negativeHits: number; // Cached notFound results served
+  evictions: number;
+  invalidations: number;
+  size: number;
+  maxEntries: number;
+  hitRate: number;
+  defaultTtlMs: number;
+  negativeTtlMs: number;
+  methodTtlsMs: Record<string, number>;
+}
+
+export interface ResolutionCacheEntry {
+  key: string;
+  did: string;
+  error?: ResolutionError;
+  hits: number;
+  storedAt: string;
+  expiresAt: string;
+}
+
+export type VerificationRelationship =
+  | 'authentication'
+  | 'assertionMethod'
+  | 'keyAgreement'
+  | 'capabilityInvocation'
+  | 'capabilityDelegation';
+
+export interface KeyRotationRequest {
+  publicKey?: string;
+  nextKeyCommitment?: string;
+}
+
+export interface KeyRotationResult {
+  document: DIDDocument;
+  keyId: string;
+  previousKeyId: string;
+  publicKey: string;
+  rotatedAt: string;
+}
+
+export interface OwnershipChallenge {
+  challenge: string;
+  did: string;
+  audience: string;
+  message: string; // The exact string the agent must sign
+  issuedAt: string;
+  expiresAt: string;
+}
+
+export interface OwnershipProof {
+  challenge: string;
+  signature: string;
+  keyId?: string;
+  audience?: string;
+}
+
+export enum OwnershipFailureReason {
+  CHALLENGE_NOT_FOUND = 'challenge_not_found',
+  CHALLENGE_EXPIRED = 'challenge_expired',
+  CHALLENGE_ALREADY_USED = 'challenge_already_used',
+  DID_MISMATCH = 'did_mismatch',
+  AUDIENCE_MISMATCH = 'audience_mismatch',
+  DID_NOT_RESOLVED = 'did_not_resolved',
+  KEY_NOT_AUTHORIZED = 'key_not_authorized',
+  UNSUPPORTED_KEY_TYPE = 'unsupported_key_type',
+  INVALID_SIGNATURE = 'invalid_signature'
+}
+
+export interface OwnershipVerificationResult {
+  valid: boolean;
+  did: string;
+  keyId?: string;
+  reason?: OwnershipFailureReason;
+  message?: string;
+}
+
+export interface AgentSession {
+  id: string;
+  agentId: string;
+  did: string;
+  keyId?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  lastRefreshedAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  sessionId: string;
+}
+
+export type SignerBackend = 'in-process' | 'file' | 'pkcs11';
+
+export interface SignerBinding {
+  keyId: string;
+  did: string;
+  backend: SignerBackend;
+  keyRef?: string; // Backend-specific handle: keystore entry or token label
+  createdAt: Date;
+}
+
+export interface SignatureResult {
+  signature: string;
+  keyId: string;
+  backend: SignerBackend;
+  proofType: string;
+  algorithm: string; // JWS algorithm of the suite used
+}
+
+// Mutations a DID's controllers can sign; verification method ids are assigned
+// from the base version so every co-signer signs the same change
+export type DIDUpdateOperation =
+  | { type: 'update'; changes: Pick<Partial<DIDDocument>, 'controller' | 'service'> }
+  | { type: 'addVerificationMethod'; method: Omit<VerificationMethod, 'id' | 'controller'> }
+  | { type: 'removeVerificationMethod'; keyId: string }
+  | { type: 'addRelationship'; relationship: VerificationRelationship; keyId: string }
+  | { type: 'removeRelationship'; relationship: VerificationRelationship; keyId: string }
+  | { type: 'addService'; service: ServiceEndpoint }
+  | { type: 'updateService'; serviceId: string; changes: Partial<Omit<ServiceEndpoint, 'id'>> }
+  | { type: 'removeService'; serviceId: string }
+  | { type: 'setThreshold'; threshold: number }
+  | ({ type: 'rotateKey' } & KeyRotationRequest)
+  | { type: 'deactivate'; reason?: string };
+
+export interface ControllerProof {
+  keyId: string; // Fully qualified verification method of one of the controllers
+  signature: string; // Over the update's signing input
+}
+
+export interface ControllerApproval extends ControllerProof {
+  controller: string;
+  approvedAt: Date;
+}
+
+export interface DIDUpdatePolicy {
+  did: string;
+  controllers: string[];
+  threshold: number; // Distinct controllers that must sign a change
+}
+
+export enum PendingUpdateStatus {
+  PENDING = 'pending',
+  APPLIED = 'applied',
+  SUPERSEDED = 'superseded' // The document changed before enough controllers signed
+}
+
+export interface PendingDIDUpdate {
+  id: string;
+  did: string;
+  operation: DIDUpdateOperation;
+  baseVersionId: number;
+  signingInput: string;
+  approvals: ControllerApproval[];
+  threshold: number;
+  status: PendingUpdateStatus;
+  createdAt: Date;
+  appliedAt?: Date;
+}
+
+export interface DIDUpdateResult {
+  status: PendingUpdateStatus;
+  update: PendingDIDUpdate;
+  document?: DIDDocument; // Set once the update has been applied
+}
+
 export interface Identity {
   did: string;
   agentId: string;
@@ -72,7 +306,7 @@ export interface Identity {
 
 export interface CreateIdentityRequest {
   agentId: string;
-  method?: string;
+  method?: string; // Must name a registered DID method driver
   publicKey?: string;
   services?: ServiceEndpoint[];
 }
@@ -2,6 +2,9 @@ export * from './agent';
 export * from './identity';
 export * from './capability';
 export * from './attestation';
+export * from './claim-schema';
+export * from './credential';
+export * from './presentation';
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -0,0 +1,45 @@
+import {
+  Attestation,
+  AttestationProof,
+  AttestationType,
+  AttestationVerificationResult
+} from './attestation';
+
+// What a verifier asks a holder to prove. The challenge is single-use: the
+// request is marked fulfilled by the first presentation that verifies.
+export interface PresentationRequest {
+  id: string;
+  verifier: string; // DID of the requesting agent or gateway
+  attestationTypes: AttestationType[]; // Each needs at least one attestation
+  trustedIssuers?: string[]; // Any issuer is accepted when omitted
+  challenge: string;
+  domain: string;
+  createdAt: Date;
+  expiresAt: Date;
+  fulfilledAt?: Date;
+  fulfilledBy?: string;
+}
+
+export interface PresentationRequestInput {
+  attestationTypes: AttestationType[];
+  trustedIssuers?: string[];
+  domain?: string;
+  expiresInMinutes?: number;
+}
+
+export interface VerifiablePresentation {
+  id: string;
+  holder: string;
+  requestId: string;
+  attestations: Attestation[];
+  proof: AttestationProof; // authentication proof carrying the request's challenge and domain
+}
+
+export interface PresentationVerificationResult {
+  valid: boolean;
+  presentation?: VerifiablePresentation;
+  attestations?: Record<string, AttestationVerificationResult>;
+  unmetTypes?: AttestationType[];
+  errors?: string[];
+  warnings?: string[];
+}
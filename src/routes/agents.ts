@@ -1,12 +1,29 @@
 import { Router } from 'express';
 import type { Response } from 'express';
 import { identityManager } from '../services/identity-manager';
+import { signerRegistry } from '../services/signer-registry';
+import { didUpdateService } from '../services/did-update-service';
 import { trustEngine } from '../services/trust-engine';
 import { mcpIntegration } from '../services/mcp-integration';
-import { AuthenticatedRequest, authenticateToken, requireCapability } from '../middleware/auth';
-import { validate, CreateAgentSchema, UpdateAgentSchema, PaginationSchema } from '../utils/validation';
+import {
+  AuthenticatedRequest,
+  authenticateToken,
+  requireCapability,
+  requireOwnership
+} from '../middleware/auth';
+import {
+  validate,
+  CreateAgentSchema,
+  UpdateAgentSchema,
+  RotateKeySchema,
+  ImportCustodyKeySchema,
+  PaginationSchema
+} from '../utils/validation';
 import { ApiResponse } from '../models';
 import { Agent, CreateAgentRequest, UpdateAgentRequest } from '../models/agent';
+import { DIDUpdateResult, PendingUpdateStatus } from '../models/identity';
+import { UPDATE_STATUS } from './identity';
+import { AuthorizationError, ValidationError } from '../utils/errors';
 
 const router = Router();
 
@@ -137,13 +154,72 @@ router.patch(
   }
 );
 
+// Rotate agent key; proposed as a DID update so the controllers and threshold apply
+router.post(
+  '/:id/rotate-key',
+  authenticateToken,
+  requireOwnership('id'),
+  validate(RotateKeySchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const agent = await identityManager.getAgent(req.params.id);
+    const { publicKey, nextKeyCommitment, proofs, signWithCustody } = req.body;
+
+    const result = await didUpdateService.submitUpdate(
+      agent.did,
+      { type: 'rotateKey', publicKey, nextKeyCommitment },
+      proofs,
+      { custodySigner: signWithCustody ? req.agent!.did : undefined }
+    );
+
+    const response: ApiResponse<DIDUpdateResult> = {
+      success: result.status !== PendingUpdateStatus.SUPERSEDED,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(UPDATE_STATUS[result.status]).json(response);
+  }
+);
+
+// Hand the hub an agent's own private key, e.g. for agents registered before
+// key custody, so it can sign capabilities and attestations for them again
+router.put(
+  '/:id/custody',
+  authenticateToken,
+  requireOwnership('id'),
+  validate(ImportCustodyKeySchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const agent = await identityManager.getAgent(req.params.id);
+    const { keyId, privateKey } = req.body;
+    if (!keyId.startsWith(`${agent.did}#`)) {
+      throw new ValidationError(`${keyId} is not a key of ${agent.did}`);
+    }
+
+    await signerRegistry.importCustodyKey(agent.did, keyId, privateKey);
+
+    const response: ApiResponse<{ did: string; keyId: string }> = {
+      success: true,
+      data: { did: agent.did, keyId },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
 // Delete agent
 router.delete(
   '/:id',
   authenticateToken,
   requireCapability('admin'),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    await identityManager.deleteAgent(req.params.id);
+    await identityManager.deleteAgent(req.params.id, req.agent!.did);
 
     const response: ApiResponse<null> = {
       success: true,
@@ -163,13 +239,14 @@ router.post(
   '/:id/relationships',
   authenticateToken,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    const { targetAgentId, relationshipType, permissions } = req.body;
+    const { targetAgentId, relationshipType, permissions, pairwise } = req.body;
 
     const relationship = await identityManager.createRelationship(
       req.params.id,
       targetAgentId,
       relationshipType,
-      permissions
+      permissions,
+      { pairwise: pairwise === true }
     );
 
     const response: ApiResponse<typeof relationship> = {
@@ -185,6 +262,32 @@ router.post(
   }
 );
 
+// Look up the relationship and permissions bound to a pairwise DID
+router.get(
+  '/peer/:did/relationship',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await identityManager.getRelationshipByPeerDID(req.params.did);
+
+    // Pairwise DIDs are private to the relationship, so only its two parties may look one up
+    const { sourceAgentId, targetAgentId } = result.relationship;
+    if (req.agent!.id !== sourceAgentId && req.agent!.id !== targetAgentId) {
+      throw new AuthorizationError('Only the parties to a relationship can look it up');
+    }
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
 // Get agent activity
 router.get(
   '/:id/activity',
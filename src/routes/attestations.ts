@@ -2,9 +2,19 @@ import { Router } from 'express';
 import type { Response } from 'express';
 import { attestationService } from '../services/attestation-service';
 import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
-import { validate, CreateAttestationSchema, PaginationSchema } from '../utils/validation';
+import {
+  validate,
+  CreateAttestationSchema,
+  CredentialFormatSchema,
+  ImportCredentialSchema,
+  PaginationSchema,
+  PresentSdJwtSchema,
+  VerifyJwtSchema,
+  VerifySdJwtSchema
+} from '../utils/validation';
 import { ApiResponse } from '../models';
 import { Attestation, AttestationRequest, AttestationType } from '../models/attestation';
+import { SdJwtPresentationOptions, VerifiableCredential } from '../models/credential';
 
 const router = Router();
 
@@ -72,11 +82,57 @@ router.post(
   }
 );
 
-// Get attestation by ID
-router.get(
-  '/:id',
+// Verify a VC-JWT issued by this hub or anyone else
+router.post(
+  '/verify-jwt',
+  validate(VerifyJwtSchema),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    const attestation = await attestationService.getAttestation(req.params.id);
+    const result = await attestationService.verifyJwt(req.body.jwt);
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Verify an SD-JWT presentation against its signed digests and key binding
+router.post(
+  '/verify-sd-jwt',
+  validate(VerifySdJwtSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { sdJwt, audience, nonce } = req.body;
+
+    const result = await attestationService.verifySdJwt(sdJwt, { audience, nonce });
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Import an externally issued W3C Verifiable Credential
+router.post(
+  '/import',
+  authenticateToken,
+  validate(ImportCredentialSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const credential: VerifiableCredential = req.body.credential;
+
+    const attestation = await attestationService.importCredential(credential, req.agent!.did);
 
     const response: ApiResponse<Attestation> = {
       success: true,
@@ -87,6 +143,28 @@ router.get(
       }
     };
 
+    res.status(201).json(response);
+  }
+);
+
+// Get attestation by ID; ?format=vc returns it as a W3C Verifiable Credential
+router.get(
+  '/:id',
+  validate(CredentialFormatSchema, 'query'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const data = req.query.format === 'vc'
+      ? await attestationService.exportCredential(req.params.id)
+      : await attestationService.getAttestation(req.params.id);
+
+    const response: ApiResponse<Attestation | VerifiableCredential> = {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
     res.json(response);
   }
 );
@@ -110,6 +188,29 @@ router.post(
   }
 );
 
+// Present selected claims of an SD-JWT attestation as its subject
+router.post(
+  '/:id/sd-jwt/presentations',
+  authenticateToken,
+  validate(PresentSdJwtSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const options: SdJwtPresentationOptions = req.body;
+
+    const presentation = await attestationService.presentSdJwt(req.params.id, req.agent!.did, options);
+
+    const response: ApiResponse<{ sdJwt: string }> = {
+      success: true,
+      data: { sdJwt: presentation },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(201).json(response);
+  }
+);
+
 // Revoke attestation
 router.post(
   '/:id/revoke',
@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { didService } from '../services/did-service';
+import { sessionService } from '../services/session-service';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { validate, DIDAuthChallengeSchema, DIDAuthLoginSchema, RefreshTokenSchema } from '../utils/validation';
+import { ApiResponse } from '../models';
+import { AgentSession, OwnershipChallenge, SessionTokens } from '../models/identity';
+import { AuthenticationError } from '../utils/errors';
+
+const router = Router();
+
+// Request a sign-in challenge for a DID
+router.post(
+  '/challenge',
+  validate(DIDAuthChallengeSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const challenge = await didService.createOwnershipChallenge(req.body.did);
+
+    const response: ApiResponse<OwnershipChallenge> = {
+      success: true,
+      data: challenge,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(201).json(response);
+  }
+);
+
+// Sign in with a signed challenge
+router.post(
+  '/login',
+  validate(DIDAuthLoginSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { did, ...proof } = req.body;
+    const tokens = await sessionService.signIn(did, proof);
+
+    const response: ApiResponse<SessionTokens> = {
+      success: true,
+      data: tokens,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Exchange a refresh token for new session tokens
+router.post(
+  '/refresh',
+  validate(RefreshTokenSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const tokens = await sessionService.refresh(req.body.refreshToken);
+
+    const response: ApiResponse<SessionTokens> = {
+      success: true,
+      data: tokens,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// End the current session
+router.post(
+  '/logout',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    if (!req.agent?.sessionId) {
+      throw new AuthenticationError('Not authenticated with a session token');
+    }
+
+    await sessionService.revokeSession(
+      req.agent.sessionId,
+      { agentId: req.agent.id },
+      'logout'
+    );
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// List the caller's active sessions
+router.get(
+  '/sessions',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const sessions = await sessionService.listSessions(req.agent!.id);
+
+    const response: ApiResponse<AgentSession[]> = {
+      success: true,
+      data: sessions,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Revoke a session
+router.delete(
+  '/sessions/:id',
+  authenticateToken,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await sessionService.revokeSession(
+      req.params.id,
+      {
+        agentId: req.agent!.id,
+        isAdmin: req.agent!.capabilities.includes('admin')
+      },
+      req.body?.reason
+    );
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+export default router;
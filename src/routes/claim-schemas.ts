@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { claimSchemaService } from '../services/claim-schema-service';
+import { AuthenticatedRequest, authenticateToken, requireCapability } from '../middleware/auth';
+import {
+  validate,
+  ClaimSchemaFilterSchema,
+  ClaimSchemaVersionParamsSchema,
+  RegisterClaimSchemaSchema
+} from '../utils/validation';
+import { ApiResponse } from '../models';
+import { ClaimSchema, ClaimSchemaFilter, ClaimSchemaInput } from '../models/claim-schema';
+
+const router = Router();
+
+// Latest version of each registered schema
+router.get(
+  '/',
+  validate(ClaimSchemaFilterSchema, 'query'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const filter: ClaimSchemaFilter = {
+      attestationType: req.query.attestationType as ClaimSchemaFilter['attestationType'],
+      claimType: req.query.claimType as string | undefined
+    };
+
+    const schemas = await claimSchemaService.listSchemas(filter);
+
+    const response: ApiResponse<ClaimSchema[]> = {
+      success: true,
+      data: schemas,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Register a schema; a pair that already has one gets its next version
+router.post(
+  '/',
+  authenticateToken,
+  requireCapability('admin'),
+  validate(RegisterClaimSchemaSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const input: ClaimSchemaInput = req.body;
+
+    const schema = await claimSchemaService.register(input, req.agent!.did);
+
+    const response: ApiResponse<ClaimSchema> = {
+      success: true,
+      data: schema,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(201).json(response);
+  }
+);
+
+// Latest version of one schema
+router.get(
+  '/:id',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const schema = await claimSchemaService.getSchema(req.params.id);
+
+    const response: ApiResponse<ClaimSchema> = {
+      success: true,
+      data: schema,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+router.get(
+  '/:id/versions',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const versions = await claimSchemaService.listVersions(req.params.id);
+
+    const response: ApiResponse<ClaimSchema[]> = {
+      success: true,
+      data: versions,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// The exact version an attestation's claimSchemas entry points at
+router.get(
+  '/:id/versions/:version',
+  validate(ClaimSchemaVersionParamsSchema, 'params'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const schema = await claimSchemaService.getSchema(req.params.id, parseInt(req.params.version, 10));
+
+    const response: ApiResponse<ClaimSchema> = {
+      success: true,
+      data: schema,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { didService } from '../services/did-service';
+
+// Served from the site root so did:web resolvers can find the documents
+const router = Router();
+
+// Hub DID document
+router.get(
+  '/.well-known/did.json',
+  async (req: Request, res: Response): Promise<void> => {
+    const document = await didService.getHubDocument();
+    res.json(document);
+  }
+);
+
+// Agent DID documents
+router.get(
+  '/agents/:id/did.json',
+  async (req: Request, res: Response): Promise<void> => {
+    const document = await didService.getAgentWebDocument(req.params.id);
+    res.json(document);
+  }
+);
+
+export default router;
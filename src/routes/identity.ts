@@ -2,9 +2,42 @@ import { Router } from 'express';
 import type { Response } from 'express';
 import { didService } from '../services/did-service';
 import { identityManager } from '../services/identity-manager';
-import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import { didUpdateService } from '../services/did-update-service';
+import { resolutionCache } from '../services/resolution-cache';
+import { signerRegistry } from '../services/signer-registry';
+import { AuthenticatedRequest, authenticateToken, requireCapability } from '../middleware/auth';
 import { ApiResponse } from '../models';
-import { DIDDocument } from '../models/identity';
+import {
+  DIDDeactivationRecord,
+  DIDDereferencingResult,
+  DIDMethodInfo,
+  DIDUpdateOperation,
+  DIDUpdatePolicy,
+  DIDUpdateResult,
+  OwnershipChallenge,
+  OwnershipVerificationResult,
+  PendingDIDUpdate,
+  PendingUpdateStatus,
+  ResolutionCacheEntry,
+  ResolutionCacheStats,
+  SignerBinding,
+  SignerBackend,
+  VerificationRelationship
+} from '../models/identity';
+import {
+  validate,
+  AddServiceSchema,
+  AddVerificationMethodSchema,
+  ApproveDIDUpdateSchema,
+  AssignRelationshipSchema,
+  DeactivateDIDSchema,
+  RelationshipParamsSchema,
+  SubmitDIDUpdateSchema,
+  UpdateServiceSchema,
+  OwnershipProofSchema,
+  SignerBindingSchema
+} from '../utils/validation';
+import { NotFoundError } from '../utils/errors';
 
 const router = Router();
 
@@ -13,7 +46,12 @@ router.get(
   '/resolve/:did(*)',
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const did = req.params.did;
-    const result = await didService.resolveDID(did);
+    const { versionId, versionTime } = req.query;
+    const result = await didService.resolveDID(did, {
+      versionId: versionId as string | undefined,
+      versionTime: versionTime as string | undefined,
+      noCache: /no-cache/i.test(req.get('cache-control') || '')
+    });
 
     const response: ApiResponse<typeof result> = {
       success: true,
@@ -28,6 +66,94 @@ router.get(
   }
 );
 
+// Dereference a DID URL to a document, key, service or endpoint URL
+router.get(
+  '/dereference/:didUrl(*)',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    // An unencoded DID URL query lands in the request query string
+    const queryIndex = req.originalUrl.indexOf('?');
+    const didUrl = !req.params.didUrl.includes('?') && queryIndex >= 0
+      ? `${req.params.didUrl}${req.originalUrl.slice(queryIndex)}`
+      : req.params.didUrl;
+
+    const result = await didService.dereference(didUrl);
+
+    const response: ApiResponse<DIDDereferencingResult> = {
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// List the DID methods the hub can create and resolve
+router.get(
+  '/methods',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const methods = didService.listMethods();
+
+    const response: ApiResponse<DIDMethodInfo[]> = {
+      success: true,
+      data: methods,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Inspect the DID resolution cache
+router.get(
+  '/resolver/cache',
+  authenticateToken,
+  requireCapability('admin'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const response: ApiResponse<{ stats: ResolutionCacheStats; entries: ResolutionCacheEntry[] }> = {
+      success: true,
+      data: {
+        stats: resolutionCache.getStats(),
+        entries: resolutionCache.listEntries()
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Flush the whole cache, or just one DID with ?did=
+router.delete(
+  '/resolver/cache',
+  authenticateToken,
+  requireCapability('admin'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const did = req.query.did as string | undefined;
+    const removed = did ? resolutionCache.invalidate(did) : resolutionCache.flush();
+
+    const response: ApiResponse<{ removed: number }> = {
+      success: true,
+      data: { removed },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
 // Get identity by agent ID
 router.get(
   '/agent/:agentId',
@@ -59,7 +185,7 @@ router.get(
   '/',
   authenticateToken,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    const dids = didService.getAllLocalDIDs();
+    const dids = await didService.getAllLocalDIDs();
 
     const response: ApiResponse<typeof dids> = {
       success: true,
@@ -74,23 +200,91 @@ router.get(
   }
 );
 
-// Add verification method to DID
+// Get the version history of a DID document
+router.get(
+  '/:did/versions',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const versions = await didService.getDIDHistory(req.params.did);
+
+    const response: ApiResponse<typeof versions> = {
+      success: true,
+      data: versions,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Update responses: applied 200, waiting on more controllers 202, overtaken by another change 409
+export const UPDATE_STATUS: Record<PendingUpdateStatus, number> = {
+  [PendingUpdateStatus.APPLIED]: 200,
+  [PendingUpdateStatus.PENDING]: 202,
+  [PendingUpdateStatus.SUPERSEDED]: 409
+};
+
+async function submitUpdate(
+  req: AuthenticatedRequest,
+  res: Response,
+  operation: DIDUpdateOperation
+): Promise<void> {
+  const result = await didUpdateService.submitUpdate(req.params.did, operation, req.body.proofs, {
+    custodySigner: req.body.signWithCustody ? req.agent!.did : undefined
+  });
+
+  const response: ApiResponse<DIDUpdateResult> = {
+    success: result.status !== PendingUpdateStatus.SUPERSEDED,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+      requestId: req.headers['x-request-id'] as string
+    }
+  };
+
+  res.status(UPDATE_STATUS[result.status]).json(response);
+}
+
+// Controllers and the number of them that must sign a change
+router.get(
+  '/:did/update-policy',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const policy = await didUpdateService.getPolicy(req.params.did);
+
+    const response: ApiResponse<DIDUpdatePolicy> = {
+      success: true,
+      data: policy,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Propose a controller-signed change to a DID document
 router.post(
-  '/:did/verification-methods',
+  '/:did/updates',
   authenticateToken,
+  validate(SubmitDIDUpdateSchema),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    const { type, publicKeyHex, publicKeyBase58 } = req.body;
+    await submitUpdate(req, res, req.body.operation);
+  }
+);
 
-    const document = await didService.addVerificationMethod(req.params.did, {
-      id: `${req.params.did}#keys-${Date.now()}`,
-      type,
-      publicKeyHex,
-      publicKeyBase58
-    });
+// List updates still waiting on controller signatures
+router.get(
+  '/:did/updates',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const updates = await didUpdateService.listPendingUpdates(req.params.did);
 
-    const response: ApiResponse<DIDDocument> = {
+    const response: ApiResponse<PendingDIDUpdate[]> = {
       success: true,
-      data: document,
+      data: updates,
       meta: {
         timestamp: new Date().toISOString(),
         requestId: req.headers['x-request-id'] as string
@@ -101,22 +295,152 @@ router.post(
   }
 );
 
+// Add controller signatures to a pending update
+router.post(
+  '/:did/updates/:updateId/approvals',
+  authenticateToken,
+  validate(ApproveDIDUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const result = await didUpdateService.approveUpdate(
+      req.params.did,
+      req.params.updateId,
+      req.body.proofs,
+      { custodySigner: req.body.signWithCustody ? req.agent!.did : undefined }
+    );
+
+    const response: ApiResponse<DIDUpdateResult> = {
+      success: result.status !== PendingUpdateStatus.SUPERSEDED,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(UPDATE_STATUS[result.status]).json(response);
+  }
+);
+
+// Add verification method to DID
+router.post(
+  '/:did/verification-methods',
+  authenticateToken,
+  validate(AddVerificationMethodSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { type, publicKeyHex, publicKeyBase58, publicKeyMultibase } = req.body;
+    await submitUpdate(req, res, {
+      type: 'addVerificationMethod',
+      method: { type, publicKeyHex, publicKeyBase58, publicKeyMultibase }
+    });
+  }
+);
+
 // Add service endpoint to DID
 router.post(
   '/:did/services',
   authenticateToken,
+  validate(AddServiceSchema),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const { id, type, serviceEndpoint } = req.body;
+    await submitUpdate(req, res, {
+      type: 'addService',
+      service: { id, type, serviceEndpoint }
+    });
+  }
+);
+
+// Remove a verification method and every relationship that references it
+router.delete(
+  '/:did/verification-methods/:keyId',
+  authenticateToken,
+  validate(ApproveDIDUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await submitUpdate(req, res, { type: 'removeVerificationMethod', keyId: req.params.keyId });
+  }
+);
+
+// Assign an existing key to a verification relationship
+router.put(
+  '/:did/relationships/:relationship',
+  authenticateToken,
+  validate(RelationshipParamsSchema, 'params'),
+  validate(AssignRelationshipSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await submitUpdate(req, res, {
+      type: 'addRelationship',
+      relationship: req.params.relationship as VerificationRelationship,
+      keyId: req.body.keyId
+    });
+  }
+);
+
+// Remove a key from a verification relationship
+router.delete(
+  '/:did/relationships/:relationship/:keyId',
+  authenticateToken,
+  validate(RelationshipParamsSchema, 'params'),
+  validate(ApproveDIDUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await submitUpdate(req, res, {
+      type: 'removeRelationship',
+      relationship: req.params.relationship as VerificationRelationship,
+      keyId: req.params.keyId
+    });
+  }
+);
 
-    const document = await didService.addServiceEndpoint(req.params.did, {
-      id,
-      type,
-      serviceEndpoint
+// Change a service endpoint's type or URL
+router.patch(
+  '/:did/services/:serviceId',
+  authenticateToken,
+  validate(UpdateServiceSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { type, serviceEndpoint } = req.body;
+    await submitUpdate(req, res, {
+      type: 'updateService',
+      serviceId: req.params.serviceId,
+      changes: {
+        ...(type !== undefined && { type }),
+        ...(serviceEndpoint !== undefined && { serviceEndpoint })
+      }
     });
+  }
+);
 
-    const response: ApiResponse<DIDDocument> = {
+// Remove a service endpoint
+router.delete(
+  '/:did/services/:serviceId',
+  authenticateToken,
+  validate(ApproveDIDUpdateSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await submitUpdate(req, res, { type: 'removeService', serviceId: req.params.serviceId });
+  }
+);
+
+// Deactivate DID once its controllers approve; the document stays resolvable as a tombstone
+router.delete(
+  '/:did',
+  authenticateToken,
+  validate(DeactivateDIDSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await submitUpdate(req, res, { type: 'deactivate', reason: req.body.reason });
+  }
+);
+
+// Audit record for a deactivated DID
+router.get(
+  '/:did/deactivation',
+  authenticateToken,
+  requireCapability('admin'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const record = await didService.getDeactivationRecord(req.params.did);
+    if (!record) {
+      throw new NotFoundError('Deactivation record', req.params.did);
+    }
+
+    const response: ApiResponse<DIDDeactivationRecord> = {
       success: true,
-      data: document,
+      data: record,
       meta: {
         timestamp: new Date().toISOString(),
         requestId: req.headers['x-request-id'] as string
@@ -127,41 +451,109 @@ router.post(
   }
 );
 
-// Deactivate DID
-router.delete(
-  '/:did',
-  authenticateToken,
+// Issue an ownership challenge for a DID
+router.post(
+  '/:did/challenge',
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    await didService.deactivateDID(req.params.did);
+    const challenge = await didService.createOwnershipChallenge(
+      req.params.did,
+      req.body?.audience
+    );
 
-    const response: ApiResponse<null> = {
+    const response: ApiResponse<OwnershipChallenge> = {
       success: true,
-      data: null,
+      data: challenge,
       meta: {
         timestamp: new Date().toISOString(),
         requestId: req.headers['x-request-id'] as string
       }
     };
 
-    res.json(response);
+    res.status(201).json(response);
   }
 );
 
-// Verify DID ownership
+// Verify DID ownership by checking the signed challenge
 router.post(
   '/:did/verify',
+  validate(OwnershipProofSchema),
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    const { signature, message } = req.body;
+    const result = await didService.verifyDIDOwnership(req.params.did, req.body);
 
-    const valid = didService.verifyDIDOwnership(
-      req.params.did,
-      signature,
-      message
-    );
+    const response: ApiResponse<OwnershipVerificationResult> = {
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
 
-    const response: ApiResponse<{ valid: boolean }> = {
+    res.json(response);
+  }
+);
+
+// List where each of a DID's keys is held for signing
+router.get(
+  '/:did/signers',
+  authenticateToken,
+  requireCapability('admin'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const bindings = await signerRegistry.listBindings(req.params.did);
+
+    const response: ApiResponse<{
+      bindings: SignerBinding[];
+      backends: Array<{ backend: SignerBackend; available: boolean }>;
+    }> = {
       success: true,
-      data: { valid },
+      data: {
+        bindings,
+        backends: signerRegistry.listBackends()
+      },
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Route a verification method's signing to a backend, e.g. an HSM
+router.put(
+  '/:did/signers',
+  authenticateToken,
+  requireCapability('admin'),
+  validate(SignerBindingSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { keyId, backend, keyRef } = req.body;
+    const binding = await signerRegistry.bindKey(req.params.did, keyId, backend, keyRef);
+
+    const response: ApiResponse<SignerBinding> = {
+      success: true,
+      data: binding,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Fall back to hub custody for a verification method
+router.delete(
+  '/:did/signers/:keyId',
+  authenticateToken,
+  requireCapability('admin'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    await signerRegistry.unbindKey(req.params.did, req.params.keyId);
+
+    const response: ApiResponse<null> = {
+      success: true,
+      data: null,
       meta: {
         timestamp: new Date().toISOString(),
         requestId: req.headers['x-request-id'] as string
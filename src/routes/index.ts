@@ -1,8 +1,12 @@
 import { Router } from 'express';
+import authRouter from './auth';
 import agentsRouter from './agents';
 import identityRouter from './identity';
 import capabilitiesRouter from './capabilities';
 import attestationsRouter from './attestations';
+import claimSchemasRouter from './claim-schemas';
+import presentationsRouter from './presentations';
+import statusListsRouter from './status-lists';
 import mcpRouter from './mcp';
 
 const router = Router();
@@ -10,10 +14,14 @@ const router = Router();
 // API version prefix
 const API_VERSION = process.env.API_VERSION || 'v1';
 
+router.use(`/auth`, authRouter);
 router.use(`/agents`, agentsRouter);
 router.use(`/identity`, identityRouter);
 router.use(`/capabilities`, capabilitiesRouter);
 router.use(`/attestations`, attestationsRouter);
+router.use(`/claim-schemas`, claimSchemasRouter);
+router.use(`/presentations`, presentationsRouter);
+router.use(`/status-lists`, statusListsRouter);
 router.use(`/mcp`, mcpRouter);
 
 // Health check
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { presentationService } from '../services/presentation-service';
+import { AuthenticatedRequest, authenticateToken } from '../middleware/auth';
+import {
+  validate,
+  CreatePresentationRequestSchema,
+  CreatePresentationSchema,
+  VerifyPresentationSchema
+} from '../utils/validation';
+import { ApiResponse } from '../models';
+import {
+  PresentationRequest,
+  PresentationRequestInput,
+  PresentationVerificationResult,
+  VerifiablePresentation
+} from '../models/presentation';
+
+const router = Router();
+
+// Ask for proof of attestation types; the response carries the challenge and domain
+router.post(
+  '/requests',
+  authenticateToken,
+  validate(CreatePresentationRequestSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const input: PresentationRequestInput = req.body;
+
+    const request = await presentationService.createRequest(req.agent!.did, input);
+
+    const response: ApiResponse<PresentationRequest> = {
+      success: true,
+      data: request,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(201).json(response);
+  }
+);
+
+// Fetch a presentation request, e.g. by the holder it was sent to
+router.get(
+  '/requests/:id',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const request = await presentationService.getRequest(req.params.id);
+
+    const response: ApiResponse<PresentationRequest> = {
+      success: true,
+      data: request,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+// Answer a presentation request as the authenticated holder
+router.post(
+  '/',
+  authenticateToken,
+  validate(CreatePresentationSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { requestId, attestationIds } = req.body;
+
+    const presentation = await presentationService.createPresentation(
+      req.agent!.did,
+      requestId,
+      attestationIds
+    );
+
+    const response: ApiResponse<VerifiablePresentation> = {
+      success: true,
+      data: presentation,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.status(201).json(response);
+  }
+);
+
+// Verify a presentation end to end; a valid one fulfils its request
+router.post(
+  '/verify',
+  validate(VerifyPresentationSchema),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const presentation = req.body.presentation as VerifiablePresentation;
+
+    const result = await presentationService.verifyPresentation(presentation);
+
+    const response: ApiResponse<PresentationVerificationResult> = {
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: req.headers['x-request-id'] as string
+      }
+    };
+
+    res.json(response);
+  }
+);
+
+export default router;
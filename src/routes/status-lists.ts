@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { statusListService } from '../services/status-list-service';
+import { parseDuration } from '../utils';
+
+const router = Router();
+
+const CACHE_MAX_AGE_SECONDS = Math.floor(parseDuration(process.env.STATUS_LIST_CACHE_TTL || '5m') / 1000);
+
+// Public and unwrapped: verifiers dereference statusListCredential URLs directly
+router.get(
+  '/:id',
+  async (req: Request, res: Response): Promise<void> => {
+    const credential = await statusListService.getCredential(req.params.id);
+
+    res.set('Cache-Control', `public, max-age=${CACHE_MAX_AGE_SECONDS}`);
+    res.type('application/vc').json(credential);
+  }
+);
+
+export default router;
@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { didService } from '../services/did-service';
+import {
+  DIDDereferencingResult,
+  DIDResolutionResult,
+  ResolutionError
+} from '../models/identity';
+
+// DID Resolution HTTP(S) binding, compatible with Universal Resolver clients.
+// Responses are bare spec objects rather than the ApiResponse envelope.
+const router = Router();
+
+const RESOLUTION_RESULT_TYPE = 'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+// Offer order decides what */* and a missing Accept header get
+const REPRESENTATIONS = [
+  RESOLUTION_RESULT_TYPE,
+  'application/did+ld+json',
+  'application/did+json',
+  'application/json'
+];
+
+const ERROR_STATUS: Record<ResolutionError, number> = {
+  [ResolutionError.INVALID_DID]: 400,
+  [ResolutionError.INVALID_DID_URL]: 400,
+  [ResolutionError.NOT_FOUND]: 404,
+  [ResolutionError.REPRESENTATION_NOT_SUPPORTED]: 406,
+  [ResolutionError.METHOD_NOT_SUPPORTED]: 501,
+  [ResolutionError.CONFIGURATION_ERROR]: 500,
+  [ResolutionError.INTERNAL_ERROR]: 500
+};
+
+function sendResolutionResult(res: Response, status: number, result: DIDResolutionResult): void {
+  res.status(status).type(RESOLUTION_RESULT_TYPE).send(JSON.stringify(result));
+}
+
+// Service endpoints redirect, other resources are returned as JSON
+function sendDereferencingResult(res: Response, result: DIDDereferencingResult): void {
+  const { error, contentType } = result.dereferencingMetadata;
+  if (error) {
+    res.status(ERROR_STATUS[error] || 500).json(result);
+    return;
+  }
+
+  if (typeof result.contentStream === 'string') {
+    // A service may list several endpoints; the first one is the redirect target
+    res.redirect(303, result.contentStream.split('\n')[0]);
+    return;
+  }
+
+  res.status(200).type(contentType || 'application/did+json').send(JSON.stringify(result.contentStream));
+}
+
+router.get(
+  '/identifiers/*',
+  async (req: Request, res: Response): Promise<void> => {
+    // Read the raw path: decoding would turn did:web port separators (%3A) into colons.
+    // Fragments never reach the server unless sent as %23.
+    const raw = req.path.slice('/identifiers/'.length);
+    const did = raw.startsWith('did:') ? raw.replace(/%23/gi, '#') : decodeURIComponent(raw);
+
+    const { versionId, versionTime, ...dereferencingParams } = req.query;
+    if (did.slice(4).search(/[/#]/) >= 0 || Object.keys(dereferencingParams).length > 0) {
+      const queryIndex = req.originalUrl.indexOf('?');
+      sendDereferencingResult(
+        res,
+        await didService.dereference(queryIndex >= 0 ? `${did}${req.originalUrl.slice(queryIndex)}` : did)
+      );
+      return;
+    }
+
+    const representation = req.accepts(REPRESENTATIONS);
+    if (!representation) {
+      sendResolutionResult(res, 406, {
+        didResolutionMetadata: { error: ResolutionError.REPRESENTATION_NOT_SUPPORTED },
+        didDocument: null,
+        didDocumentMetadata: {}
+      });
+      return;
+    }
+
+    const result = await didService.resolveDID(did, {
+      versionId: versionId as string | undefined,
+      versionTime: versionTime as string | undefined,
+      noCache: /no-cache/i.test(req.get('cache-control') || '')
+    });
+
+    const { error } = result.didResolutionMetadata;
+    if (error || !result.didDocument) {
+      sendResolutionResult(res, error ? ERROR_STATUS[error] || 500 : 404, result);
+      return;
+    }
+
+    // Deactivated DIDs still resolve, but with 410 Gone
+    const status = result.didDocumentMetadata.deactivated ? 410 : 200;
+
+    if (representation === 'application/did+json' || representation === 'application/did+ld+json') {
+      res.status(status).type(representation).send(JSON.stringify(result.didDocument));
+      return;
+    }
+
+    const resolved: DIDResolutionResult = {
+      ...result,
+      didResolutionMetadata: {
+        ...result.didResolutionMetadata,
+        contentType: 'application/did+ld+json'
+      }
+    };
+
+    if (representation === 'application/json') {
+      res.status(status).json(resolved);
+      return;
+    }
+    sendResolutionResult(res, status, resolved);
+  }
+);
+
+export default router;
@@ -10,11 +10,16 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import routes from './routes';
+import didWebRoutes from './routes/did-web';
+import universalResolverRoutes from './routes/universal-resolver';
 import { errorHandler, notFoundHandler, requestLogger } from './middleware';
 import { initDatabase, closeDatabase } from './utils/db';
 import logger from './utils/logger';
 import { identityManager } from './services/identity-manager';
 import { trustEngine } from './services/trust-engine';
+import { challengeService } from './services/challenge-service';
+import { didService } from './services/did-service';
+import { signerRegistry } from './services/signer-registry';
 import { WebSocketMessageType, WebSocketMessage } from './models';
 
 const app = express();
@@ -71,6 +76,12 @@ app.use(morgan('combined', {
 }));
 app.use(requestLogger);
 
+// did:web documents
+app.use(didWebRoutes);
+
+// DID Resolution endpoint for standard resolver clients
+app.use('/1.0', universalResolverRoutes);
+
 // API routes
 app.use('/api/v1', routes);
 
@@ -114,6 +125,12 @@ export function broadcastToChannel(channel: string, message: WebSocketMessage):
 // Background jobs
 async function runBackgroundJobs(): Promise<void> {
   try {
+    // Drop ownership challenges nobody answered
+    await challengeService.purgeExpired();
+
+    // Publish ledger-anchored DID changes that committed without being published
+    await didService.publishPending();
+
     // Recalculate trust scores periodically
     const { agents } = await identityManager.listAgents(
       { status: 'active' },
@@ -170,6 +187,10 @@ async function startServer(): Promise<void> {
     await initDatabase();
     logger.info('Database initialized');
 
+    // The hub's own did:web exists before any request can race to create it
+    const hubDocument = await didService.getHubDocument();
+    logger.info('Hub DID ready', { did: hubDocument.id });
+
     // Start HTTP server
     httpServer.listen(PORT, () => {
       logger.info(`Agent Identity Hub server running on port ${PORT}`);
@@ -201,6 +222,9 @@ async function gracefulShutdown(): Promise<void> {
   // Close database connection
   await closeDatabase();
 
+  // Release any hardware token sessions
+  signerRegistry.close();
+
   // Close WebSocket connections
   io.close(() => {
     logger.info('WebSocket server closed');
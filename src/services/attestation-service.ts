@@ -1,8 +1,15 @@
 import { createLogger } from '../utils/logger';
-import { query } from '../utils/db';
+import { query, transaction } from '../utils/db';
 import { identityManager } from './identity-manager';
+import { didService } from './did-service';
+import { signerRegistry } from './signer-registry';
+import { credentialSigner } from './credential-signer';
+import { statusListService } from './status-list-service';
+import { claimSchemaService } from './claim-schema-service';
 import {
   Attestation,
+  AttestationClaim,
+  AttestationProof,
   AttestationType,
   AttestationRequest,
   AttestationVerificationResult,
@@ -10,14 +17,58 @@ import {
   BehaviorAttestation,
   BehaviorType,
   BehaviorEvidence,
-  AttestationFilter
+  AttestationFilter,
+  RevocationInfo
 } from '../models/attestation';
+import { ClaimSchemaReference } from '../models/claim-schema';
+import {
+  KeyBindingClaims,
+  SdJwtClaims,
+  SdJwtPresentationOptions,
+  SdJwtVerificationOptions,
+  StatusListAllocation,
+  VcJwtClaims,
+  VerifiableCredential
+} from '../models/credential';
+import { VerificationMethod, VerificationRelationship } from '../models/identity';
 import { ActivityType } from '../models/agent';
-import { generateId, hashAttestation, signData } from '../utils/crypto';
-import { NotFoundError, AuthorizationError, ValidationError } from '../utils/errors';
+import { canonicalize, generateId, hashAttestation, hashData } from '../utils/crypto';
+import { getSuiteForVerificationMethod, verifyWithVerificationMethod } from '../utils/crypto-suites';
+import {
+  attestationTypeOf,
+  credentialIssuer,
+  credentialProofType,
+  credentialTypes,
+  proofSigningInput,
+  toAttestation,
+  toCredential
+} from '../utils/credentials';
+import { DecodedJws, JwsHeader, compactJws, decodeJws, jwsSigningInput } from '../utils/jose';
+import {
+  SD_ALG,
+  SdJwtParts,
+  createDisclosure,
+  decodeDisclosure,
+  digestOf,
+  joinSdJwt,
+  sdHash,
+  splitSdJwt
+} from '../utils/sd-jwt';
+import { decodeMultibase } from '../utils/multibase';
+import {
+  NotFoundError,
+  AuthorizationError,
+  ValidationError,
+  AttestationError,
+  ConflictError
+} from '../utils/errors';
 
 const logger = createLogger('attestation-service');
 
+// Key binding JWTs older than this are treated as replays
+const KEY_BINDING_MAX_AGE_SECONDS = 300;
+const CLOCK_SKEW_SECONDS = 60;
+
 export class AttestationService {
   async createAttestation(
     issuerDid: string,
@@ -44,29 +95,15 @@ export class AttestationService {
       issuer: issuerDid
     }));
 
-    // Create attestation object for signing
-    const attestationData = {
-      id: attestationId,
-      type: request.type,
-      issuer: issuerDid,
-      subject: request.subject,
-      claims: claimsWithIssuer,
-      issuedAt: now.toISOString()
-    };
+    const claimSchemas = await claimSchemaService.validateClaims(request.type, request.claims);
 
-    // Create proof
-    const proof = {
-      type: 'Ed25519Signature2020',
-      created: now.toISOString(),
-      proofPurpose: 'assertionMethod',
-      verificationMethod: `${issuerDid}#keys-1`,
-      proofValue: signData(
-        hashAttestation(attestationData),
-        issuer.publicKey
-      )
-    };
+    // Sign with the issuer's current assertion key so rotations are tracked
+    const assertionMethod = await didService.getActiveVerificationMethod(issuerDid);
+    if (!assertionMethod) {
+      throw new AttestationError('Issuer has no active assertion key', 'NO_SIGNING_KEY');
+    }
 
-    const attestation: Attestation = {
+    const unsigned: Omit<Attestation, 'proof'> = {
       id: attestationId,
       type: request.type,
       issuer: issuerDid,
@@ -74,28 +111,37 @@ export class AttestationService {
       claims: claimsWithIssuer,
       issuedAt: now,
       expiresAt,
-      proof,
-      metadata: request.metadata
+      metadata: request.metadata,
+      claimSchemas: claimSchemas.length > 0 ? claimSchemas : undefined
     };
 
-    // Store attestation
-    await query(
-      `INSERT INTO attestations 
-       (id, type, issuer, subject, claims, issued_at, expires_at, proof, metadata)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [
-        attestation.id,
-        attestation.type,
-        attestation.issuer,
-        attestation.subject,
-        JSON.stringify(attestation.claims),
-        attestation.issuedAt,
-        attestation.expiresAt,
-        JSON.stringify(attestation.proof),
-        JSON.stringify(attestation.metadata || {})
-      ]
+    const { signature, proofType } = await signerRegistry.sign(
+      issuerDid,
+      assertionMethod,
+      this.signingInput(unsigned)
     );
 
+    const status = await statusListService.allocate(issuerDid);
+    const attestation: Attestation = {
+      ...unsigned,
+      proof: {
+        type: proofType,
+        created: now.toISOString(),
+        proofPurpose: 'assertionMethod',
+        verificationMethod: assertionMethod.id,
+        proofValue: signature
+      },
+      credentialStatus: statusListService.entryFor(status.listId, status.index)
+    };
+
+    if (request.format === 'jwt') {
+      attestation.jwt = await this.signCredentialJwt(attestation, assertionMethod);
+    } else if (request.format === 'sd-jwt') {
+      attestation.sdJwt = await this.issueSdJwt(attestation, assertionMethod);
+    }
+
+    await this.storeAttestation(attestation, status);
+
     // Log activity
     await identityManager.logActivity({
       id: generateId(),
@@ -130,8 +176,50 @@ export class AttestationService {
       return { valid: false, errors: ['Attestation not found'] };
     }
 
-    const attestation = this.mapAttestationFromDb(result.rows[0]);
+    return this.evaluateAttestation(this.mapAttestationFromDb(result.rows[0]));
+  }
+
+  // Checks an attestation a holder handed over. Revocation and issuer deactivation
+  // come from the hub's own record, and the content must match what was issued.
+  async verifyPresentedAttestation(presented: Attestation): Promise<AttestationVerificationResult> {
+    const attestation: Attestation = {
+      ...presented,
+      issuedAt: new Date(presented.issuedAt),
+      expiresAt: presented.expiresAt ? new Date(presented.expiresAt) : undefined,
+      revocation: undefined,
+      issuerDeactivatedAt: undefined
+    };
 
+    const stored = await query<Record<string, unknown>>(
+      'SELECT * FROM attestations WHERE id = $1 AND issuer = $2',
+      [presented.id, presented.issuer]
+    );
+    if (stored.rows.length === 0) {
+      const result = await this.evaluateAttestation(attestation);
+      return {
+        ...result,
+        warnings: [...(result.warnings || []), 'Attestation is not held by this hub; revocation was not checked']
+      };
+    }
+
+    const issued = this.mapAttestationFromDb(stored.rows[0]);
+    const result = await this.evaluateAttestation({
+      ...attestation,
+      revocation: issued.revocation,
+      issuerDeactivatedAt: issued.issuerDeactivatedAt
+    });
+
+    if (canonicalize(this.signedFields(attestation)) !== canonicalize(this.signedFields(issued))) {
+      return {
+        ...result,
+        valid: false,
+        errors: [...(result.errors || []), 'Presented attestation differs from the issued one']
+      };
+    }
+    return result;
+  }
+
+  private async evaluateAttestation(attestation: Attestation): Promise<AttestationVerificationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
 
@@ -155,6 +243,10 @@ export class AttestationService {
       warnings.push('Issuer not found');
     }
 
+    if (attestation.issuerDeactivatedAt) {
+      warnings.push(`Issuer DID was deactivated at ${attestation.issuerDeactivatedAt.toISOString()}`);
+    }
+
     // Verify subject exists
     try {
       await identityManager.getAgentByDID(attestation.subject);
@@ -162,9 +254,13 @@ export class AttestationService {
       warnings.push('Subject not found');
     }
 
-    // Verify proof (simplified for this implementation)
     if (!attestation.proof) {
       errors.push('Attestation has no proof');
+    } else {
+      const proofError = await this.checkProof(attestation);
+      if (proofError) {
+        errors.push(proofError);
+      }
     }
 
     return {
@@ -175,6 +271,524 @@ export class AttestationService {
     };
   }
 
+  // Imported credentials are checked against their original proof; hub proofs
+  // must come from a key listed under the issuer's assertionMethod at issuance
+  // (keys rotated out since still count) and cover the canonical attestation
+  private async checkProof(attestation: Attestation): Promise<string | undefined> {
+    const imported = attestation.importedCredential;
+    if (imported) {
+      try {
+        await this.verifyCredentialProof(imported, attestation.issuer);
+      } catch (error) {
+        return (error as Error).message;
+      }
+
+      const original = toAttestation(imported, attestation.id, attestation.proof);
+      return canonicalize(this.signedFields(original)) === canonicalize(this.signedFields(attestation))
+        ? undefined
+        : 'Attestation does not match its imported credential';
+    }
+
+    const method = await didService.getVerificationMethodAt(
+      attestation.issuer,
+      attestation.proof.verificationMethod,
+      attestation.issuedAt,
+      'assertionMethod'
+    );
+    if (!method) {
+      return 'Proof key was not an assertion key of the issuer at issuance time';
+    }
+
+    const { proofValue, type } = attestation.proof;
+    return verifyWithVerificationMethod(method, this.signingInput(attestation), proofValue, type)
+      ? undefined
+      : 'Attestation signature is invalid';
+  }
+
+  // Everything the issuer vouches for, with dates as ISO strings so the input
+  // is the same after the attestation has travelled as JSON
+  private signingInput(attestation: Omit<Attestation, 'proof'>): string {
+    return hashAttestation(this.signedFields(attestation));
+  }
+
+  private signedFields(attestation: Omit<Attestation, 'proof'>): Record<string, unknown> {
+    return JSON.parse(JSON.stringify({
+      id: attestation.id,
+      type: attestation.type,
+      issuer: attestation.issuer,
+      subject: attestation.subject,
+      claims: attestation.claims,
+      issuedAt: new Date(attestation.issuedAt).toISOString(),
+      expiresAt: attestation.expiresAt && new Date(attestation.expiresAt).toISOString(),
+      claimSchemas: attestation.claimSchemas
+    })) as Record<string, unknown>;
+  }
+
+  // VC Data Model 2.0 form of an attestation. Hub-issued attestations get a fresh
+  // Data Integrity proof from the issuer's assertion key; imported ones are
+  // returned exactly as they were received.
+  async exportCredential(attestationId: string): Promise<VerifiableCredential> {
+    const attestation = await this.getAttestation(attestationId);
+    if (attestation.importedCredential) {
+      return attestation.importedCredential;
+    }
+
+    return credentialSigner.sign(toCredential(attestation));
+  }
+
+  // Stores an externally issued credential once its proof checks out against
+  // the issuer's assertion keys at the time it was signed
+  async importCredential(credential: VerifiableCredential, importedBy: string): Promise<Attestation> {
+    const issuer = credentialIssuer(credential);
+    await this.verifyCredentialProof(credential, issuer);
+
+    const now = new Date();
+    if (credential.validUntil && new Date(credential.validUntil) <= now) {
+      throw new AttestationError('Credential has expired', 'CREDENTIAL_EXPIRED');
+    }
+
+    const attestationId = credential.id || `urn:attest:${generateId()}`;
+    const existing = await query('SELECT id FROM attestations WHERE id = $1', [attestationId]);
+    if (existing.rows.length > 0) {
+      throw new ConflictError(`Attestation already exists: ${attestationId}`);
+    }
+
+    const proof = credential.proof!;
+    const attestation: Attestation = {
+      ...toAttestation(credential, attestationId, {
+        type: proof.type,
+        cryptosuite: proof.cryptosuite,
+        created: proof.created,
+        proofPurpose: proof.proofPurpose,
+        verificationMethod: proof.verificationMethod,
+        proofValue: proof.proofValue
+      }),
+      metadata: { importedBy, importedAt: now.toISOString() },
+      importedCredential: credential
+    };
+
+    await this.storeAttestation(attestation);
+
+    logger.info('Credential imported', {
+      attestationId,
+      type: attestation.type,
+      issuer,
+      subject: attestation.subject,
+      importedBy
+    });
+
+    return attestation;
+  }
+
+  private async verifyCredentialProof(credential: VerifiableCredential, issuer: string): Promise<void> {
+    const proof = credential.proof;
+    if (!proof) {
+      throw new AttestationError('Credential has no proof', 'INVALID_PROOF');
+    }
+    if (proof.proofPurpose !== 'assertionMethod') {
+      throw new AttestationError(`Unexpected proof purpose: ${proof.proofPurpose}`, 'INVALID_PROOF');
+    }
+
+    const method = await didService.getVerificationMethodAt(
+      issuer,
+      proof.verificationMethod,
+      new Date(proof.created),
+      'assertionMethod'
+    );
+    if (!method) {
+      throw new AttestationError('Proof key was not an assertion key of the issuer when signed', 'INVALID_PROOF');
+    }
+
+    const suite = getSuiteForVerificationMethod(method);
+    const expected = suite && credentialProofType(suite);
+    if (!expected || expected.type !== proof.type || expected.cryptosuite !== proof.cryptosuite) {
+      throw new AttestationError(
+        `Unsupported proof: ${proof.cryptosuite || proof.type} for ${method.type} keys`,
+        'INVALID_PROOF'
+      );
+    }
+
+    const { proofValue, ...proofOptions } = proof;
+    let signature: string;
+    try {
+      signature = Buffer.from(decodeMultibase(proofValue)).toString('hex');
+    } catch {
+      throw new AttestationError('Malformed proofValue', 'INVALID_PROOF');
+    }
+
+    if (!verifyWithVerificationMethod(method, proofSigningInput(credential, proofOptions), signature)) {
+      throw new AttestationError('Credential signature is invalid', 'INVALID_PROOF');
+    }
+  }
+
+  // Checks any VC-JWT, whether or not the hub issued it. The issuer comes from
+  // the token itself and is resolved like any other DID.
+  async verifyJwt(token: string): Promise<AttestationVerificationResult> {
+    let decoded: DecodedJws;
+    try {
+      decoded = decodeJws(token);
+    } catch (error) {
+      return { valid: false, errors: [(error as Error).message] };
+    }
+
+    const claims = decoded.payload as VcJwtClaims;
+    const credential = (claims.vc ?? decoded.payload) as Partial<VerifiableCredential>;
+    const credentialIssuerDid = credential.issuer && credentialIssuer(credential as VerifiableCredential);
+    const credentialSubjectDid = credential.credentialSubject?.id;
+    const issuer = claims.iss ?? credentialIssuerDid;
+    const subject = claims.sub ?? credentialSubjectDid;
+    if (!issuer || !subject) {
+      return { valid: false, errors: ['JWT does not name an issuer and a subject'] };
+    }
+
+    // The signature is checked against iss, so the credential must name the same parties
+    const mismatches: string[] = [];
+    if (credentialIssuerDid && credentialIssuerDid !== issuer) {
+      mismatches.push('JWT iss does not match the credential issuer');
+    }
+    if (credentialSubjectDid && credentialSubjectDid !== subject) {
+      mismatches.push('JWT sub does not match the credential subject');
+    }
+    if (mismatches.length > 0) {
+      return { valid: false, errors: mismatches };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const now = new Date();
+    const issuedAt = claims.iat ? new Date(claims.iat * 1000) : new Date(credential.validFrom || now);
+    const notBefore = claims.nbf ? new Date(claims.nbf * 1000) : credential.validFrom && new Date(credential.validFrom);
+    const expiresAt = claims.exp ? new Date(claims.exp * 1000) : credential.validUntil && new Date(credential.validUntil);
+
+    const signatureError = await this.checkJwtSignature(decoded, issuer, issuedAt);
+    if (signatureError) {
+      errors.push(signatureError);
+    }
+
+    if (expiresAt && expiresAt < now) {
+      errors.push('Attestation has expired');
+    }
+    if (notBefore && notBefore > now) {
+      errors.push('Attestation is not yet valid');
+    }
+
+    const attestationId = claims.jti ?? credential.id;
+    const attestation = await this.checkStoredStatus(attestationId, issuer, errors, warnings);
+
+    // Tokens the hub has never seen are still described as an attestation
+    const described = attestation ?? (Array.isArray(credential.type) && credential.credentialSubject
+      ? toAttestation(
+          {
+            ...(credential as VerifiableCredential),
+            issuer,
+            credentialSubject: { ...credential.credentialSubject, id: subject }
+          },
+          attestationId || `urn:attest:${hashData(token).slice(0, 32)}`,
+          {
+            type: 'JsonWebSignature',
+            created: issuedAt.toISOString(),
+            proofPurpose: 'assertionMethod',
+            verificationMethod: decoded.header.kid || '',
+            proofValue: token.slice(token.lastIndexOf('.') + 1)
+          }
+        )
+      : undefined);
+
+    return {
+      valid: errors.length === 0,
+      attestation: described,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  // Holder side: reveals only the chosen claim types and binds the result to
+  // the subject's authentication key, the audience and a nonce
+  async presentSdJwt(
+    attestationId: string,
+    holderDid: string,
+    options: SdJwtPresentationOptions
+  ): Promise<string> {
+    const attestation = await this.getAttestation(attestationId);
+    if (attestation.subject !== holderDid) {
+      throw new AuthorizationError('Only the attestation subject can present it');
+    }
+    if (!attestation.sdJwt) {
+      throw new AttestationError('Attestation was not issued as an SD-JWT', 'NOT_SD_JWT');
+    }
+
+    const { jwt, disclosures } = splitSdJwt(attestation.sdJwt);
+    const chosen = disclosures.filter((disclosure) =>
+      options.disclose.includes((decodeDisclosure(disclosure) as AttestationClaim).type)
+    );
+    const disclosedTypes = chosen.map((disclosure) => (decodeDisclosure(disclosure) as AttestationClaim).type);
+    const missing = options.disclose.filter((type) => !disclosedTypes.includes(type));
+    if (missing.length > 0) {
+      throw new ValidationError('Attestation has no claims of the requested types', { missing });
+    }
+
+    const method = await didService.getActiveVerificationMethod(holderDid, 'authentication');
+    if (!method) {
+      throw new AttestationError('Holder has no active authentication key', 'NO_SIGNING_KEY');
+    }
+
+    const presentation = joinSdJwt({ jwt, disclosures: chosen });
+    const keyBinding: KeyBindingClaims = {
+      iat: Math.floor(Date.now() / 1000),
+      aud: options.audience,
+      nonce: options.nonce,
+      sd_hash: sdHash(presentation)
+    };
+
+    logger.info('SD-JWT presentation created', { attestationId, holderDid, disclosed: disclosedTypes });
+
+    return joinSdJwt({
+      jwt,
+      disclosures: chosen,
+      keyBinding: await this.signJws(holderDid, method, { typ: 'kb+jwt' }, { ...keyBinding })
+    });
+  }
+
+  // Verifier side: the result's attestation holds only the disclosed claims
+  async verifySdJwt(
+    token: string,
+    options: SdJwtVerificationOptions = {}
+  ): Promise<AttestationVerificationResult> {
+    let parts: SdJwtParts;
+    let decoded: DecodedJws;
+    try {
+      parts = splitSdJwt(token);
+      decoded = decodeJws(parts.jwt);
+    } catch (error) {
+      return { valid: false, errors: [(error as Error).message] };
+    }
+
+    const claims = decoded.payload as Partial<SdJwtClaims>;
+    if (!claims.iss || !claims.sub) {
+      return { valid: false, errors: ['SD-JWT does not name an issuer and a subject'] };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const now = new Date();
+    const issuedAt = claims.iat ? new Date(claims.iat * 1000) : now;
+    const expiresAt = claims.exp ? new Date(claims.exp * 1000) : undefined;
+
+    const signatureError = await this.checkJwtSignature(decoded, claims.iss, issuedAt);
+    if (signatureError) {
+      errors.push(signatureError);
+    }
+    if (claims._sd_alg !== SD_ALG) {
+      errors.push(`Unsupported _sd_alg: ${claims._sd_alg}`);
+    }
+
+    // Each disclosure must match a digest the issuer signed, and only once
+    const digests = new Set((claims.claims || []).map((entry) => entry?.['...']));
+    const matched = new Set<string>();
+    const disclosed: AttestationClaim[] = [];
+    for (const disclosure of parts.disclosures) {
+      const digest = digestOf(disclosure);
+      if (!digests.has(digest) || matched.has(digest)) {
+        errors.push('Disclosure does not match a signed digest');
+        continue;
+      }
+      matched.add(digest);
+
+      try {
+        const claim = decodeDisclosure(disclosure) as AttestationClaim;
+        disclosed.push({ type: claim.type, value: claim.value, issuer: claims.iss });
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+
+    const bindingError = await this.checkKeyBinding(token, parts, claims, options);
+    if (bindingError) {
+      errors.push(bindingError);
+    }
+
+    if (expiresAt && expiresAt < now) {
+      errors.push('Attestation has expired');
+    }
+
+    const stored = await this.checkStoredStatus(claims.jti, claims.iss, errors, warnings);
+
+    return {
+      valid: errors.length === 0,
+      attestation: {
+        id: claims.jti || `urn:attest:${hashData(parts.jwt).slice(0, 32)}`,
+        type: attestationTypeOf([claims.vct || '']),
+        issuer: claims.iss,
+        subject: claims.sub,
+        claims: disclosed,
+        issuedAt,
+        expiresAt,
+        revocation: stored?.revocation,
+        proof: {
+          type: 'SdJwt',
+          created: issuedAt.toISOString(),
+          proofPurpose: 'assertionMethod',
+          verificationMethod: decoded.header.kid || '',
+          proofValue: parts.jwt.slice(parts.jwt.lastIndexOf('.') + 1)
+        }
+      },
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined
+    };
+  }
+
+  // Each claim is an array-element disclosure; cnf names the subject DID, whose
+  // authentication keys sign the key binding JWT when presenting
+  private async issueSdJwt(attestation: Attestation, method: VerificationMethod): Promise<string> {
+    const disclosures = attestation.claims.map(({ type, value }) => createDisclosure({ type, value }));
+    const claims: SdJwtClaims = {
+      iss: attestation.issuer,
+      sub: attestation.subject,
+      jti: attestation.id,
+      iat: Math.floor(attestation.issuedAt.getTime() / 1000),
+      ...(attestation.expiresAt && { exp: Math.floor(attestation.expiresAt.getTime() / 1000) }),
+      vct: credentialTypes(attestation.type).slice(-1)[0],
+      _sd_alg: SD_ALG,
+      claims: disclosures.map(({ digest }) => ({ '...': digest })),
+      cnf: { kid: attestation.subject }
+    };
+
+    const jwt = await this.signJws(attestation.issuer, method, { typ: 'dc+sd-jwt' }, { ...claims });
+    return joinSdJwt({ jwt, disclosures: disclosures.map(({ disclosure }) => disclosure) });
+  }
+
+  private async checkKeyBinding(
+    token: string,
+    parts: SdJwtParts,
+    claims: Partial<SdJwtClaims>,
+    options: SdJwtVerificationOptions
+  ): Promise<string | undefined> {
+    const holder = claims.cnf?.kid;
+    if (!holder) {
+      return undefined;
+    }
+    if (!parts.keyBinding) {
+      return 'Presentation has no key binding JWT';
+    }
+
+    let keyBinding: DecodedJws;
+    try {
+      keyBinding = decodeJws(parts.keyBinding);
+    } catch {
+      return 'Key binding JWT is malformed';
+    }
+
+    const binding = keyBinding.payload as Partial<KeyBindingClaims>;
+    const age = Date.now() / 1000 - (binding.iat ?? 0);
+    if (keyBinding.header.typ !== 'kb+jwt') {
+      return 'Key binding JWT must have typ kb+jwt';
+    }
+    if (binding.sd_hash !== sdHash(token)) {
+      return 'Key binding JWT does not cover the presented disclosures';
+    }
+    if (options.audience && binding.aud !== options.audience) {
+      return 'Key binding JWT was made for a different audience';
+    }
+    if (options.nonce && binding.nonce !== options.nonce) {
+      return 'Key binding JWT nonce does not match';
+    }
+    if (!binding.iat || age > KEY_BINDING_MAX_AGE_SECONDS || age < -CLOCK_SKEW_SECONDS) {
+      return 'Key binding JWT is not fresh';
+    }
+
+    return this.checkJwtSignature(keyBinding, holder, new Date(), 'authentication');
+  }
+
+  // Revocation is only known for attestations held by the hub
+  private async checkStoredStatus(
+    attestationId: string | undefined,
+    issuer: string,
+    errors: string[],
+    warnings: string[]
+  ): Promise<Attestation | undefined> {
+    const stored = attestationId
+      ? (await query<Record<string, unknown>>(
+          'SELECT * FROM attestations WHERE id = $1 AND issuer = $2',
+          [attestationId, issuer]
+        )).rows[0]
+      : undefined;
+    const attestation = stored ? this.mapAttestationFromDb(stored) : undefined;
+
+    if (attestation?.revocation) {
+      errors.push('Attestation has been revoked');
+    }
+    if (attestation?.issuerDeactivatedAt) {
+      warnings.push(`Issuer DID was deactivated at ${attestation.issuerDeactivatedAt.toISOString()}`);
+    }
+    if (!attestation) {
+      warnings.push('Attestation is not held by this hub; revocation was not checked');
+    }
+    return attestation;
+  }
+
+  private async checkJwtSignature(
+    decoded: DecodedJws,
+    did: string,
+    signedAt: Date,
+    relationship: VerificationRelationship = 'assertionMethod'
+  ): Promise<string | undefined> {
+    // Without a kid the signer's current key for the relationship is the only candidate
+    const kid = decoded.header.kid ?? (await didService.getActiveVerificationMethod(did, relationship))?.id;
+    const keyId = kid?.startsWith('#') ? `${did}${kid}` : kid;
+    if (!keyId || !keyId.startsWith(`${did}#`)) {
+      return `JWT signing key does not belong to ${did}`;
+    }
+
+    const method = await didService.getVerificationMethodAt(did, keyId, signedAt, relationship);
+    if (!method) {
+      return `Signing key was not a valid ${relationship} key of ${did} when the JWT was signed`;
+    }
+
+    const suite = getSuiteForVerificationMethod(method);
+    if (!suite || suite.algorithm !== decoded.header.alg) {
+      return `Algorithm ${decoded.header.alg} does not match the signing key`;
+    }
+
+    return verifyWithVerificationMethod(method, decoded.signingInput, decoded.signature)
+      ? undefined
+      : 'JWT signature is invalid';
+  }
+
+  // VC-JOSE-COSE: the unsecured credential is the claims set, with the registered
+  // claims JWT libraries expect alongside it
+  private async signCredentialJwt(attestation: Attestation, method: VerificationMethod): Promise<string> {
+    const claims: VcJwtClaims = {
+      iss: attestation.issuer,
+      sub: attestation.subject,
+      jti: attestation.id,
+      iat: Math.floor(attestation.issuedAt.getTime() / 1000),
+      ...(attestation.expiresAt && { exp: Math.floor(attestation.expiresAt.getTime() / 1000) })
+    };
+
+    return this.signJws(
+      attestation.issuer,
+      method,
+      { typ: 'vc+jwt', cty: 'vc' },
+      { ...toCredential(attestation), ...claims }
+    );
+  }
+
+  private async signJws(
+    did: string,
+    method: VerificationMethod,
+    header: Omit<JwsHeader, 'alg'>,
+    payload: Record<string, unknown>
+  ): Promise<string> {
+    const suite = getSuiteForVerificationMethod(method);
+    if (!suite) {
+      throw new AttestationError(`No crypto suite for ${method.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const signingInput = jwsSigningInput({ ...header, alg: suite.algorithm, kid: method.id }, payload);
+    const { signature } = await signerRegistry.sign(did, method, signingInput);
+    return compactJws(signingInput, signature);
+  }
+
   async getAttestation(attestationId: string): Promise<Attestation> {
     const result = await query<Attestation>(
       'SELECT * FROM attestations WHERE id = $1',
@@ -232,7 +846,7 @@ export class AttestationService {
       params
     );
 
-    const attestationsResult = await query<Attestation>(
+    const attestationsResult = await query<Record<string, unknown>>(
       `SELECT * FROM attestations WHERE ${whereClause}
        ORDER BY issued_at DESC
        LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
@@ -240,7 +854,7 @@ export class AttestationService {
     );
 
     return {
-      attestations: attestationsResult.rows.map(this.mapAttestationFromDb),
+      attestations: attestationsResult.rows.map((row) => this.mapAttestationFromDb(row)),
       total: parseInt(countResult.rows[0].count, 10)
     };
   }
@@ -257,19 +871,27 @@ export class AttestationService {
       throw new AuthorizationError('Not authorized to revoke this attestation');
     }
 
-    await query(
-      `UPDATE attestations 
-       SET revocation = $1
-       WHERE id = $2`,
-      [
-        JSON.stringify({
-          revokedAt: new Date(),
-          reason,
-          revokedBy
-        }),
-        attestationId
-      ]
-    );
+    await transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE attestations 
+         SET revocation = $1
+         WHERE id = $2
+         RETURNING status_list_id, status_list_index`,
+        [
+          JSON.stringify({
+            revokedAt: new Date(),
+            reason,
+            revokedBy
+          }),
+          attestationId
+        ]
+      );
+
+      const { status_list_id: listId, status_list_index: index } = result.rows[0];
+      if (listId) {
+        await statusListService.setStatus(listId, index, true, client);
+      }
+    });
 
     logger.info('Attestation revoked', { attestationId, revokedBy, reason });
   }
@@ -405,6 +1027,32 @@ export class AttestationService {
     };
   }
 
+  private async storeAttestation(attestation: Attestation, status?: StatusListAllocation): Promise<void> {
+    await query(
+      `INSERT INTO attestations 
+       (id, type, issuer, subject, claims, issued_at, expires_at, proof, metadata, jwt, sd_jwt,
+        status_list_id, status_list_index, claim_schemas, imported_credential)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        attestation.id,
+        attestation.type,
+        attestation.issuer,
+        attestation.subject,
+        JSON.stringify(attestation.claims),
+        attestation.issuedAt,
+        attestation.expiresAt,
+        JSON.stringify(attestation.proof),
+        JSON.stringify(attestation.metadata || {}),
+        attestation.jwt || null,
+        attestation.sdJwt || null,
+        status?.listId ?? null,
+        status?.index ?? null,
+        attestation.claimSchemas ? JSON.stringify(attestation.claimSchemas) : null,
+        attestation.importedCredential ? JSON.stringify(attestation.importedCredential) : null
+      ]
+    );
+  }
+
   private calculateChainTrustScore(chain: Attestation[]): number {
     if (chain.length === 0) return 0.5;
 
@@ -435,6 +1083,14 @@ export class AttestationService {
     return Math.min(totalScore / weight, 1.0);
   }
 
+  // JSONB columns arrive parsed; text written by older versions does not
+  private parseJson<T>(value: unknown): T | undefined {
+    if (!value) {
+      return undefined;
+    }
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+  }
+
   private mapAttestationFromDb(row: Record<string, unknown>): Attestation {
     return {
       id: row.id as string,
@@ -444,9 +1100,19 @@ export class AttestationService {
       claims: (row.claims as Array<{ type: string; value: unknown; issuer?: string }>) || [],
       issuedAt: new Date(row.issued_at as Date),
       expiresAt: row.expires_at ? new Date(row.expires_at as Date) : undefined,
-      revocation: row.revocation ? JSON.parse(row.revocation as string) : undefined,
-      proof: row.proof ? JSON.parse(row.proof as string) : undefined,
-      metadata: (row.metadata as Record<string, unknown>) || {}
+      revocation: this.parseJson<RevocationInfo>(row.revocation),
+      proof: this.parseJson<AttestationProof>(row.proof)!,
+      metadata: (row.metadata as Record<string, unknown>) || {},
+      issuerDeactivatedAt: row.issuer_deactivated_at
+        ? new Date(row.issuer_deactivated_at as Date)
+        : undefined,
+      jwt: (row.jwt as string | null) ?? undefined,
+      sdJwt: (row.sd_jwt as string | null) ?? undefined,
+      credentialStatus: row.status_list_id
+        ? statusListService.entryFor(row.status_list_id as string, row.status_list_index as number)
+        : undefined,
+      claimSchemas: this.parseJson<ClaimSchemaReference[]>(row.claim_schemas),
+      importedCredential: this.parseJson<VerifiableCredential>(row.imported_credential)
     };
   }
 }
@@ -1,7 +1,10 @@
 import jwt from 'jsonwebtoken';
 import { createLogger } from '../utils/logger';
-import { query } from '../utils/db';
+import { query, transaction } from '../utils/db';
 import { identityManager } from './identity-manager';
+import { didService } from './did-service';
+import { signerRegistry } from './signer-registry';
+import { statusListService } from './status-list-service';
 import {
   Capability,
   CapabilityStatus,
@@ -15,8 +18,14 @@ import {
   DEFAULT_RESOURCES
 } from '../models/capability';
 import { ActivityType } from '../models/agent';
-import { generateId, hashData, generateUUID } from '../utils/crypto';
-import { AuthorizationError, ValidationError, NotFoundError } from '../utils/errors';
+import { canonicalize, generateId, hashData, generateUUID } from '../utils/crypto';
+import { verifyWithVerificationMethod } from '../utils/crypto-suites';
+import {
+  AuthorizationError,
+  ValidationError,
+  NotFoundError,
+  CapabilityError
+} from '../utils/errors';
 
 const logger = createLogger('capability-issuer');
 
@@ -63,6 +72,29 @@ export class CapabilityIssuer {
       status: CapabilityStatus.ACTIVE
     };
 
+    // Bind the token to the issuer's current key so it survives later rotations
+    const issuerKey = await didService.getActiveVerificationMethod(issuerDid);
+    if (!issuerKey) {
+      throw new CapabilityError('Issuer has no active assertion key', 'NO_SIGNING_KEY');
+    }
+
+    const { signature, proofType } = await signerRegistry.sign(
+      issuerDid,
+      issuerKey,
+      this.hashCapability(capability)
+    );
+
+    capability.proof = {
+      type: proofType,
+      created: now.toISOString(),
+      proofPurpose: 'assertionMethod',
+      verificationMethod: issuerKey.id,
+      proofValue: signature
+    };
+
+    const status = await statusListService.allocate(issuerDid);
+    capability.credentialStatus = statusListService.entryFor(status.listId, status.index);
+
     // Create JWT token
     const token = jwt.sign(
       {
@@ -76,18 +108,22 @@ export class CapabilityIssuer {
           actions: request.actions,
           resources: request.resources,
           conditions: request.conditions
-        }
+        },
+        credentialStatus: capability.credentialStatus
       },
       JWT_SECRET,
-      { algorithm: 'HS256' }
+      {
+        algorithm: 'HS256',
+        keyid: issuerKey.id
+      }
     );
 
     // Store capability
     await query(
       `INSERT INTO capabilities 
        (id, subject, issuer, actions, resources, conditions, not_before, 
-        expiration, issued_at, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        expiration, proof, issued_at, status, status_list_id, status_list_index)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
       [
         capability.id,
         capability.subject,
@@ -97,8 +133,11 @@ export class CapabilityIssuer {
         JSON.stringify(capability.conditions || []),
         capability.notBefore,
         capability.expiration,
+        JSON.stringify(capability.proof),
         capability.issuedAt,
-        capability.status
+        capability.status,
+        status.listId,
+        status.index
       ]
     );
 
@@ -137,10 +176,12 @@ export class CapabilityIssuer {
   ): Promise<CapabilityVerificationResult> {
     try {
       // Verify JWT
-      const decoded = jwt.verify(request.token, JWT_SECRET) as {
+      const verified = jwt.verify(request.token, JWT_SECRET, { complete: true });
+      const decoded = verified.payload as {
         jti: string;
         sub: string;
         iss: string;
+        iat: number;
         exp: number;
         capability: {
           actions: string[];
@@ -174,6 +215,37 @@ export class CapabilityIssuer {
         return { valid: false, errors: ['Subject mismatch'] };
       }
 
+      // The issuing key must not have been rotated out before the token was issued
+      if (verified.header.kid) {
+        const issuerKey = await didService.getVerificationMethodAt(
+          decoded.iss,
+          verified.header.kid,
+          new Date(decoded.iat * 1000)
+        );
+        if (!issuerKey) {
+          return { valid: false, errors: ['Issuer key was not valid at issuance time'] };
+        }
+      }
+
+      if (capability.proof) {
+        const proofKey = await didService.getVerificationMethodAt(
+          capability.issuer,
+          capability.proof.verificationMethod,
+          capability.issuedAt
+        );
+        if (
+          !proofKey ||
+          !verifyWithVerificationMethod(
+            proofKey,
+            this.hashCapability(capability),
+            capability.proof.proofValue,
+            capability.proof.type
+          )
+        ) {
+          return { valid: false, errors: ['Invalid capability proof'] };
+        }
+      }
+
       // Check action permission
       if (!capability.actions.includes(request.action)) {
         return {
@@ -251,12 +323,20 @@ export class CapabilityIssuer {
       }
     }
 
-    await query(
-      `UPDATE capabilities 
-       SET status = $1, revoked_at = CURRENT_TIMESTAMP
-       WHERE id = $2`,
-      [CapabilityStatus.REVOKED, capabilityId]
-    );
+    await transaction(async (client) => {
+      const updated = await client.query(
+        `UPDATE capabilities 
+         SET status = $1, revoked_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING status_list_id, status_list_index`,
+        [CapabilityStatus.REVOKED, capabilityId]
+      );
+
+      const { status_list_id: listId, status_list_index: index } = updated.rows[0];
+      if (listId) {
+        await statusListService.setStatus(listId, index, true, client);
+      }
+    });
 
     this.activeCapabilities.delete(capabilityId);
 
@@ -444,6 +524,23 @@ export class CapabilityIssuer {
     return errors;
   }
 
+  // Canonical JSON, since conditions come back from JSONB with their keys reordered
+  private hashCapability(capability: Capability): string {
+    return hashData(
+      canonicalize({
+        id: capability.id,
+        subject: capability.subject,
+        issuer: capability.issuer,
+        actions: capability.actions,
+        resources: capability.resources,
+        conditions: capability.conditions || [],
+        notBefore: capability.notBefore?.toISOString(),
+        expiration: capability.expiration?.toISOString(),
+        issuedAt: capability.issuedAt.toISOString()
+      })
+    );
+  }
+
   private async checkAdminCapability(did: string): Promise<boolean> {
     const result = await query<Capability>(
       `SELECT * FROM capabilities 
@@ -470,7 +567,10 @@ export class CapabilityIssuer {
       proof: (row.proof as CapabilityProof) || undefined,
       issuedAt: new Date(row.issued_at as Date),
       revokedAt: row.revoked_at ? new Date(row.revoked_at as Date) : undefined,
-      status: row.status as CapabilityStatus
+      status: row.status as CapabilityStatus,
+      credentialStatus: row.status_list_id
+        ? statusListService.entryFor(row.status_list_id as string, row.status_list_index as number)
+        : undefined
     };
   }
 }
@@ -0,0 +1,111 @@
+import { createLogger } from '../utils/logger';
+import { query } from '../utils/db';
+import { OwnershipChallenge, OwnershipFailureReason } from '../models/identity';
+import { generateChallenge } from '../utils/crypto';
+import { getHubDomain } from '../utils/did-web';
+
+const logger = createLogger('challenge-service');
+
+export class ChallengeService {
+  private ttlSeconds: number;
+
+  constructor() {
+    this.ttlSeconds = parseInt(process.env.CHALLENGE_TTL_SECONDS || '300', 10);
+  }
+
+  getDefaultAudience(): string {
+    return getHubDomain();
+  }
+
+  async issueChallenge(
+    did: string,
+    audience: string = this.getDefaultAudience(),
+    ttlSeconds: number = this.ttlSeconds
+  ): Promise<OwnershipChallenge> {
+    const challenge = generateChallenge();
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + ttlSeconds * 1000);
+
+    const ownershipChallenge: OwnershipChallenge = {
+      challenge,
+      did,
+      audience,
+      message: this.buildMessage(did, audience, challenge, expiresAt),
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString()
+    };
+
+    await query(
+      `INSERT INTO did_challenges (challenge, did, audience, message, issued_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [challenge, did, audience, ownershipChallenge.message, issuedAt, expiresAt]
+    );
+
+    logger.debug('Challenge issued', { did, audience, expiresAt });
+
+    return ownershipChallenge;
+  }
+
+  // A challenge can only be presented once, whether or not the proof holds up
+  async consumeChallenge(
+    challenge: string
+  ): Promise<
+    | { challenge: OwnershipChallenge; reason?: undefined }
+    | { challenge?: undefined; reason: OwnershipFailureReason }
+  > {
+    const result = await query<Record<string, unknown>>(
+      `UPDATE did_challenges SET consumed_at = CURRENT_TIMESTAMP
+       WHERE challenge = $1 AND consumed_at IS NULL
+       RETURNING *`,
+      [challenge]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await query<Record<string, unknown>>(
+        'SELECT challenge FROM did_challenges WHERE challenge = $1',
+        [challenge]
+      );
+      return {
+        reason: existing.rows.length > 0
+          ? OwnershipFailureReason.CHALLENGE_ALREADY_USED
+          : OwnershipFailureReason.CHALLENGE_NOT_FOUND
+      };
+    }
+
+    const consumed = this.mapChallengeFromDb(result.rows[0]);
+    if (new Date(consumed.expiresAt) < new Date()) {
+      return { reason: OwnershipFailureReason.CHALLENGE_EXPIRED };
+    }
+
+    return { challenge: consumed };
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await query(
+      'DELETE FROM did_challenges WHERE expires_at < CURRENT_TIMESTAMP'
+    );
+    return result.rowCount || 0;
+  }
+
+  private buildMessage(did: string, audience: string, challenge: string, expiresAt: Date): string {
+    return JSON.stringify({
+      aud: audience,
+      did,
+      nonce: challenge,
+      exp: Math.floor(expiresAt.getTime() / 1000)
+    });
+  }
+
+  private mapChallengeFromDb(row: Record<string, unknown>): OwnershipChallenge {
+    return {
+      challenge: row.challenge as string,
+      did: row.did as string,
+      audience: row.audience as string,
+      message: row.message as string,
+      issuedAt: new Date(row.issued_at as Date).toISOString(),
+      expiresAt: new Date(row.expires_at as Date).toISOString()
+    };
+  }
+}
+
+export const challengeService = new ChallengeService();
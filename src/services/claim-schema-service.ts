@@ -0,0 +1,227 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { createLogger } from '../utils/logger';
+import { query, transaction } from '../utils/db';
+import { AttestationClaim, AttestationType } from '../models/attestation';
+import {
+  ClaimSchema,
+  ClaimSchemaFilter,
+  ClaimSchemaInput,
+  ClaimSchemaReference
+} from '../models/claim-schema';
+import { generateId } from '../utils/crypto';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+const logger = createLogger('claim-schema-service');
+
+export class ClaimSchemaService {
+  // addUsedSchema off so a schema's $id can repeat across versions
+  private ajv = addFormats(new Ajv({ allErrors: true, addUsedSchema: false }));
+  private validators: Map<string, ValidateFunction> = new Map();
+
+  // Adds the next version for the attestation/claim type pair, or version 1 under a new ID
+  async register(input: ClaimSchemaInput, createdBy: string): Promise<ClaimSchema> {
+    try {
+      this.ajv.compile(input.schema);
+    } catch (error) {
+      throw new ValidationError('Invalid JSON Schema', { error: (error as Error).message });
+    }
+
+    try {
+      const schema = await transaction(async (client) => {
+        const latest = await client.query(
+          `SELECT id, version FROM claim_schemas
+           WHERE attestation_type = $1 AND claim_type = $2
+           ORDER BY version DESC LIMIT 1
+           FOR UPDATE`,
+          [input.attestationType, input.claimType]
+        );
+
+        const registered: ClaimSchema = {
+          id: (latest.rows[0]?.id as string | undefined) ?? `urn:claim-schema:${generateId()}`,
+          version: ((latest.rows[0]?.version as number | undefined) ?? 0) + 1,
+          attestationType: input.attestationType,
+          claimType: input.claimType,
+          schema: input.schema,
+          description: input.description,
+          createdBy,
+          createdAt: new Date()
+        };
+
+        await client.query(
+          `INSERT INTO claim_schemas
+           (id, version, attestation_type, claim_type, schema, description, created_by, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            registered.id,
+            registered.version,
+            registered.attestationType,
+            registered.claimType,
+            JSON.stringify(registered.schema),
+            registered.description || null,
+            registered.createdBy,
+            registered.createdAt
+          ]
+        );
+
+        return registered;
+      });
+
+      logger.info('Claim schema registered', {
+        schemaId: schema.id,
+        version: schema.version,
+        attestationType: schema.attestationType,
+        claimType: schema.claimType
+      });
+
+      return schema;
+    } catch (error) {
+      // Concurrent registrations for the same pair can pick the same version
+      if ((error as { code?: string }).code === '23505') {
+        throw new ConflictError(`A schema for ${input.attestationType}/${input.claimType} was registered concurrently`);
+      }
+      throw error;
+    }
+  }
+
+  // Latest version unless one is given
+  async getSchema(id: string, version?: number): Promise<ClaimSchema> {
+    const result = version === undefined
+      ? await query<Record<string, unknown>>(
+        'SELECT * FROM claim_schemas WHERE id = $1 ORDER BY version DESC LIMIT 1',
+        [id]
+      )
+      : await query<Record<string, unknown>>(
+        'SELECT * FROM claim_schemas WHERE id = $1 AND version = $2',
+        [id, version]
+      );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Claim schema', version === undefined ? id : `${id}@${version}`);
+    }
+
+    return this.mapSchemaFromDb(result.rows[0]);
+  }
+
+  async listVersions(id: string): Promise<ClaimSchema[]> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM claim_schemas WHERE id = $1 ORDER BY version',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Claim schema', id);
+    }
+
+    return result.rows.map((row) => this.mapSchemaFromDb(row));
+  }
+
+  // Latest version of each schema
+  async listSchemas(filter: ClaimSchemaFilter = {}): Promise<ClaimSchema[]> {
+    let whereClause = '1=1';
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (filter.attestationType) {
+      whereClause += ` AND attestation_type = $${paramIndex++}`;
+      params.push(filter.attestationType);
+    }
+
+    if (filter.claimType) {
+      whereClause += ` AND claim_type = $${paramIndex++}`;
+      params.push(filter.claimType);
+    }
+
+    const result = await query<Record<string, unknown>>(
+      `SELECT DISTINCT ON (id) * FROM claim_schemas
+       WHERE ${whereClause}
+       ORDER BY id, version DESC`,
+      params
+    );
+
+    return result.rows
+      .map((row) => this.mapSchemaFromDb(row))
+      .sort((a, b) => a.attestationType.localeCompare(b.attestationType) || a.claimType.localeCompare(b.claimType));
+  }
+
+  // Checks each claim against the latest schema for its type. Attestation types
+  // without any registered schema stay free-form; once a type has schemas, claim
+  // types without one are rejected.
+  async validateClaims(
+    attestationType: AttestationType,
+    claims: Pick<AttestationClaim, 'type' | 'value'>[]
+  ): Promise<ClaimSchemaReference[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT DISTINCT ON (claim_type) * FROM claim_schemas
+       WHERE attestation_type = $1
+       ORDER BY claim_type, version DESC`,
+      [attestationType]
+    );
+    if (result.rows.length === 0) {
+      return [];
+    }
+
+    const schemas = new Map(
+      result.rows.map((row) => {
+        const schema = this.mapSchemaFromDb(row);
+        return [schema.claimType, schema];
+      })
+    );
+
+    const errors: Array<{ claimType: string; schemaId?: string; version?: number; errors: string[] }> = [];
+    const references = new Map<string, ClaimSchemaReference>();
+
+    for (const claim of claims) {
+      const schema = schemas.get(claim.type);
+      if (!schema) {
+        errors.push({ claimType: claim.type, errors: [`No schema registered for ${attestationType} claims`] });
+        continue;
+      }
+
+      const validate = this.getValidator(schema);
+      if (!validate(claim.value)) {
+        errors.push({
+          claimType: claim.type,
+          schemaId: schema.id,
+          version: schema.version,
+          errors: (validate.errors || []).map((error) => `${error.instancePath || '/'} ${error.message}`)
+        });
+        continue;
+      }
+
+      references.set(claim.type, { claimType: claim.type, id: schema.id, version: schema.version });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Claims do not match their registered schemas', { claims: errors });
+    }
+
+    return Array.from(references.values());
+  }
+
+  // Versions never change, so compiled validators are kept for the process lifetime
+  private getValidator(schema: ClaimSchema): ValidateFunction {
+    const key = `${schema.id}@${schema.version}`;
+    let validate = this.validators.get(key);
+    if (!validate) {
+      validate = this.ajv.compile(schema.schema);
+      this.validators.set(key, validate);
+    }
+    return validate;
+  }
+
+  private mapSchemaFromDb(row: Record<string, unknown>): ClaimSchema {
+    return {
+      id: row.id as string,
+      version: row.version as number,
+      attestationType: row.attestation_type as AttestationType,
+      claimType: row.claim_type as string,
+      schema: row.schema as Record<string, unknown>,
+      description: (row.description as string | null) ?? undefined,
+      createdBy: row.created_by as string,
+      createdAt: new Date(row.created_at as Date)
+    };
+  }
+}
+
+export const claimSchemaService = new ClaimSchemaService();
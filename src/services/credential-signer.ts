@@ -0,0 +1,42 @@
+import { didService } from './did-service';
+import { signerRegistry } from './signer-registry';
+import { DataIntegrityProof, VerifiableCredential } from '../models/credential';
+import { credentialIssuer, credentialProofType, proofSigningInput } from '../utils/credentials';
+import { getSuiteForVerificationMethod } from '../utils/crypto-suites';
+import { encodeMultibase } from '../utils/multibase';
+import { AttestationError } from '../utils/errors';
+
+export class CredentialSigner {
+  // Adds a Data Integrity proof made with the issuer's current assertion key
+  async sign(credential: VerifiableCredential): Promise<VerifiableCredential> {
+    const issuer = credentialIssuer(credential);
+    const assertionMethod = await didService.getActiveVerificationMethod(issuer);
+    if (!assertionMethod) {
+      throw new AttestationError('Issuer has no active assertion key', 'NO_SIGNING_KEY');
+    }
+    const suite = getSuiteForVerificationMethod(assertionMethod);
+    if (!suite) {
+      throw new AttestationError(`No crypto suite for ${assertionMethod.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const proofOptions: Omit<DataIntegrityProof, 'proofValue'> = {
+      ...credentialProofType(suite),
+      created: new Date().toISOString(),
+      verificationMethod: assertionMethod.id,
+      proofPurpose: 'assertionMethod'
+    };
+
+    const { signature } = await signerRegistry.sign(
+      issuer,
+      assertionMethod,
+      proofSigningInput(credential, proofOptions)
+    );
+
+    return {
+      ...credential,
+      proof: { ...proofOptions, proofValue: encodeMultibase(Buffer.from(signature, 'hex')) }
+    };
+  }
+}
+
+export const credentialSigner = new CredentialSigner();
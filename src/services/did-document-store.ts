@@ -0,0 +1,268 @@
+import type { PoolClient } from 'pg';
+import { createLogger } from '../utils/logger';
+import { afterCommit, query, transaction } from '../utils/db';
+import { DIDDocument, DIDDocumentVersion, DIDPublication, PublicationStep } from '../models/identity';
+import { DIDError } from '../utils/errors';
+import { resolutionCache } from './resolution-cache';
+
+const logger = createLogger('did-document-store');
+
+// How long a publisher may wait on one ledger transaction before another may take over
+const PUBLICATION_LEASE_SECONDS = 300;
+
+export class DIDDocumentStore {
+  async create(
+    did: string,
+    document: DIDDocument,
+    client?: PoolClient
+  ): Promise<DIDDocumentVersion> {
+    return this.run(client, async (db) => {
+      const now = new Date();
+
+      await db.query(
+        `INSERT INTO identities (did, document, version_id, created_at, updated_at)
+         VALUES ($1, $2, 1, $3, $3)`,
+        [did, JSON.stringify(document), now]
+      );
+
+      await db.query(
+        `INSERT INTO did_document_versions (did, version_id, document, created_at)
+         VALUES ($1, 1, $2, $3)`,
+        [did, JSON.stringify(document), now]
+      );
+
+      this.invalidateOnCommit(db, did);
+      logger.debug('DID document stored', { did, versionId: 1 });
+
+      return { did, versionId: 1, document, createdAt: now };
+    });
+  }
+
+  async update(
+    did: string,
+    document: DIDDocument,
+    client?: PoolClient
+  ): Promise<DIDDocumentVersion> {
+    return this.run(client, async (db) => {
+      const current = await db.query(
+        'SELECT version_id FROM identities WHERE did = $1 FOR UPDATE',
+        [did]
+      );
+
+      if (current.rows.length === 0) {
+        throw new DIDError('DID not found');
+      }
+
+      const versionId = (current.rows[0].version_id as number) + 1;
+      const now = new Date();
+
+      await db.query(
+        `INSERT INTO did_document_versions (did, version_id, document, created_at)
+         VALUES ($1, $2, $3, $4)`,
+        [did, versionId, JSON.stringify(document), now]
+      );
+
+      await db.query(
+        `UPDATE identities SET document = $1, version_id = $2, updated_at = $3
+         WHERE did = $4`,
+        [JSON.stringify(document), versionId, now, did]
+      );
+
+      this.invalidateOnCommit(db, did);
+      logger.debug('DID document version stored', { did, versionId });
+
+      return { did, versionId, document, createdAt: now };
+    });
+  }
+
+  // Stores the tombstone as the final version; the row stays so the DID keeps resolving
+  async deactivate(
+    did: string,
+    tombstone: DIDDocument,
+    client?: PoolClient
+  ): Promise<DIDDocumentVersion> {
+    return this.run(client, async (db) => {
+      const version = await this.update(did, tombstone, db);
+
+      await db.query(
+        'UPDATE identities SET deactivated_at = $1 WHERE did = $2',
+        [version.createdAt, did]
+      );
+      this.invalidateOnCommit(db, did);
+
+      logger.info('DID document deactivated', { did, versionId: version.versionId });
+
+      return { ...version, deactivatedAt: version.createdAt };
+    });
+  }
+
+  // Queues a version for its method's ledger; it is published only after it commits
+  async markUnpublished(
+    did: string,
+    versionId: number,
+    publication: DIDPublication,
+    client?: PoolClient
+  ): Promise<void> {
+    await this.run(client, async (db) => {
+      await db.query(
+        `UPDATE did_document_versions SET pending_publication = $1
+         WHERE did = $2 AND version_id = $3`,
+        [publication, did, versionId]
+      );
+    });
+  }
+
+  // Committed versions still waiting for publication, oldest first per DID
+  async listUnpublished(did?: string): Promise<DIDDocumentVersion[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM did_document_versions
+       WHERE pending_publication IS NOT NULL AND ($1::text IS NULL OR did = $1)
+       ORDER BY did, version_id`,
+      [did ?? null]
+    );
+
+    return result.rows.map((row) => this.mapVersionFromDb(row));
+  }
+
+  // Leases a queued version to one publisher and returns the steps already
+  // confirmed; null when it was published meanwhile or another lease is live
+  async claimUnpublished(did: string, versionId: number): Promise<PublicationStep[] | null> {
+    const result = await query<{ published_steps: PublicationStep[] | null }>(
+      `UPDATE did_document_versions
+       SET publication_claimed_until = CURRENT_TIMESTAMP + make_interval(secs => $3)
+       WHERE did = $1 AND version_id = $2 AND pending_publication IS NOT NULL
+         AND (publication_claimed_until IS NULL OR publication_claimed_until < CURRENT_TIMESTAMP)
+       RETURNING published_steps`,
+      [did, versionId, PUBLICATION_LEASE_SECONDS]
+    );
+    return result.rows.length > 0 ? result.rows[0].published_steps || [] : null;
+  }
+
+  // Saves a confirmed ledger step on its own, extending the lease
+  async recordPublishedStep(did: string, versionId: number, step: PublicationStep): Promise<void> {
+    await query(
+      `UPDATE did_document_versions
+       SET published_steps = COALESCE(published_steps, '[]'::jsonb) || $3::jsonb,
+           publication_claimed_until = CURRENT_TIMESTAMP + make_interval(secs => $4)
+       WHERE did = $1 AND version_id = $2`,
+      [did, versionId, JSON.stringify([step]), PUBLICATION_LEASE_SECONDS]
+    );
+  }
+
+  // Lets the next pass retry a publication that failed
+  async releaseClaim(did: string, versionId: number): Promise<void> {
+    await query(
+      `UPDATE did_document_versions SET publication_claimed_until = NULL
+       WHERE did = $1 AND version_id = $2`,
+      [did, versionId]
+    );
+  }
+
+  // Called once a method driver has published the version to its ledger
+  async recordTransactions(
+    did: string,
+    versionId: number,
+    transactionHashes: string[],
+    client?: PoolClient
+  ): Promise<void> {
+    await this.run(client, async (db) => {
+      await db.query(
+        `UPDATE did_document_versions
+         SET transaction_hashes = $1, pending_publication = NULL, publication_claimed_until = NULL
+         WHERE did = $2 AND version_id = $3`,
+        [transactionHashes.length > 0 ? JSON.stringify(transactionHashes) : null, did, versionId]
+      );
+      this.invalidateOnCommit(db, did);
+    });
+  }
+
+  async getCurrent(did: string): Promise<DIDDocumentVersion | null> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT i.did, i.version_id, i.document, i.updated_at AS created_at, i.deactivated_at,
+              v.transaction_hashes
+       FROM identities i
+       LEFT JOIN did_document_versions v ON v.did = i.did AND v.version_id = i.version_id
+       WHERE i.did = $1`,
+      [did]
+    );
+
+    return result.rows.length > 0 ? this.mapVersionFromDb(result.rows[0]) : null;
+  }
+
+  async getVersion(did: string, versionId: number): Promise<DIDDocumentVersion | null> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM did_document_versions WHERE did = $1 AND version_id = $2`,
+      [did, versionId]
+    );
+
+    return result.rows.length > 0 ? this.mapVersionFromDb(result.rows[0]) : null;
+  }
+
+  async getVersionAt(did: string, versionTime: Date): Promise<DIDDocumentVersion | null> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM did_document_versions
+       WHERE did = $1 AND created_at <= $2
+       ORDER BY version_id DESC
+       LIMIT 1`,
+      [did, versionTime]
+    );
+
+    return result.rows.length > 0 ? this.mapVersionFromDb(result.rows[0]) : null;
+  }
+
+  async getNextVersionId(did: string, versionId: number): Promise<number | undefined> {
+    const result = await query<{ next: number | null }>(
+      `SELECT MIN(version_id) AS next FROM did_document_versions
+       WHERE did = $1 AND version_id > $2`,
+      [did, versionId]
+    );
+
+    return result.rows[0]?.next ?? undefined;
+  }
+
+  async listVersions(did: string): Promise<DIDDocumentVersion[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM did_document_versions WHERE did = $1 ORDER BY version_id ASC`,
+      [did]
+    );
+
+    return result.rows.map((row) => this.mapVersionFromDb(row));
+  }
+
+  async listCurrent(): Promise<DIDDocumentVersion[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT did, version_id, document, updated_at AS created_at, deactivated_at
+       FROM identities ORDER BY created_at DESC`
+    );
+
+    return result.rows.map((row) => this.mapVersionFromDb(row));
+  }
+
+  // Invalidating before commit would let a concurrent resolve re-cache the old document
+  private invalidateOnCommit(client: PoolClient, did: string): void {
+    afterCommit(client, () => resolutionCache.invalidate(did));
+  }
+
+  private async run<T>(
+    client: PoolClient | undefined,
+    callback: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    // Join the caller's transaction when one is given so the document
+    // commits (or rolls back) together with the surrounding records.
+    return client ? callback(client) : transaction(callback);
+  }
+
+  private mapVersionFromDb(row: Record<string, unknown>): DIDDocumentVersion {
+    return {
+      did: row.did as string,
+      versionId: row.version_id as number,
+      document: row.document as DIDDocument,
+      createdAt: new Date(row.created_at as Date),
+      deactivatedAt: row.deactivated_at ? new Date(row.deactivated_at as Date) : undefined,
+      transactionHashes: (row.transaction_hashes as string[] | null) ?? undefined,
+      pendingPublication: (row.pending_publication as DIDPublication | null) ?? undefined
+    };
+  }
+}
+
+export const didDocumentStore = new DIDDocumentStore();
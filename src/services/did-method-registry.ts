@@ -0,0 +1,65 @@
+import { createLogger } from '../utils/logger';
+import { DIDMethodInfo } from '../models/identity';
+import {
+  DIDMethodDriver,
+  EthrMethodDriver,
+  KeyMethodDriver,
+  PeerMethodDriver,
+  WebMethodDriver
+} from './did-methods';
+import { DIDError } from '../utils/errors';
+
+const logger = createLogger('did-method-registry');
+
+export class DIDMethodRegistry {
+  private drivers: Map<string, DIDMethodDriver> = new Map();
+
+  constructor(
+    drivers: DIDMethodDriver[] = [
+      new KeyMethodDriver(),
+      new PeerMethodDriver(),
+      new WebMethodDriver(),
+      new EthrMethodDriver()
+    ]
+  ) {
+    drivers.forEach((driver) => this.register(driver));
+  }
+
+  // Registering a method name again replaces its driver
+  register(driver: DIDMethodDriver): void {
+    this.drivers.set(driver.method, driver);
+    logger.debug('DID method registered', { method: driver.method });
+  }
+
+  has(method: string): boolean {
+    return this.drivers.has(method);
+  }
+
+  get(method: string): DIDMethodDriver {
+    const driver = this.drivers.get(method);
+    if (!driver) {
+      throw new DIDError(`Unsupported DID method: ${method}`, 'METHOD_NOT_SUPPORTED');
+    }
+    return driver;
+  }
+
+  // The driver for the method named in a DID, if one is registered
+  forDID(did: string): DIDMethodDriver | undefined {
+    return this.drivers.get(did.split(':')[1]);
+  }
+
+  listMethods(): DIDMethodInfo[] {
+    return Array.from(this.drivers.values()).map((driver) => ({
+      method: driver.method,
+      keyTypes: driver.keyTypes,
+      deterministic: driver.deterministic,
+      supportsServices: driver.supportsServices,
+      // Deterministic DIDs can still be tombstoned by the hub
+      operations: driver.deterministic
+        ? ['create', 'resolve', 'deactivate']
+        : ['create', 'resolve', 'update', 'deactivate']
+    }));
+  }
+}
+
+export const didMethodRegistry = new DIDMethodRegistry();
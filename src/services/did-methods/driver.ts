@@ -0,0 +1,89 @@
+import {
+  DIDDocument,
+  DIDResolutionResult,
+  PublicationStep,
+  ResolutionError,
+  ServiceEndpoint,
+  VerificationMethod
+} from '../../models/identity';
+import { DIDKeyType } from '../../utils/did-key';
+import { CustodiedKey } from '../key-custody-service';
+
+export interface DIDCreateOptions {
+  publicKey?: string; // Caller-held key; the driver generates one when omitted
+  services?: ServiceEndpoint[];
+  keyType?: DIDKeyType;
+  agentId?: string;
+}
+
+export interface DIDCreation {
+  did: string;
+  document: DIDDocument;
+  keys: CustodiedKey[]; // Keys the driver generated, taken into hub custody
+}
+
+// Steps an earlier attempt already confirmed, and where to save each new one
+export interface PublicationProgress {
+  completed: PublicationStep[];
+  record(step: PublicationStep): Promise<void>;
+}
+
+// One DID method. The hub stores every document it creates, so drivers only
+// build new identities, resolve ones the hub does not hold, and optionally
+// publish local changes to wherever the method anchors its documents
+export interface DIDMethodDriver {
+  readonly method: string;
+  readonly keyTypes: DIDKeyType[];
+  // Documents derived from the identifier itself cannot be changed after creation
+  readonly deterministic: boolean;
+  readonly supportsServices: boolean;
+  create(options: DIDCreateOptions): Promise<DIDCreation>;
+  resolve(did: string): Promise<DIDResolutionResult>;
+  // Publishing hooks receive the document as it was before the change and
+  // return the ledger transaction hashes they produced, if any. A retried
+  // publication passes the steps already confirmed so they are not sent again.
+  update?(
+    did: string,
+    document: DIDDocument,
+    previous: DIDDocument,
+    progress: PublicationProgress
+  ): Promise<string[]>;
+  deactivate?(did: string, previous: DIDDocument, progress: PublicationProgress): Promise<string[]>;
+}
+
+export function resolutionError(error: ResolutionError): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { error },
+    didDocument: null,
+    didDocumentMetadata: {}
+  };
+}
+
+export function resolved(didDocument: DIDDocument): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { contentType: 'application/did+json' },
+    didDocument,
+    didDocumentMetadata: {}
+  };
+}
+
+// The layout the hub uses for identities created around a single signing key
+export function singleKeyDocument(
+  did: string,
+  context: string,
+  verificationMethod: VerificationMethod,
+  services?: ServiceEndpoint[]
+): DIDDocument {
+  const now = new Date().toISOString();
+  return {
+    id: did,
+    '@context': ['https://www.w3.org/ns/did/v1', context],
+    controller: did,
+    verificationMethod: [verificationMethod],
+    authentication: [verificationMethod.id],
+    assertionMethod: [verificationMethod.id],
+    ...(services && services.length > 0 && { service: services }),
+    created: now,
+    updated: now
+  };
+}
@@ -0,0 +1,330 @@
+import { Resolver } from 'did-resolver';
+import { getResolver as getEthrResolver } from 'ethr-did-resolver';
+import { ZeroAddress, computeAddress, getAddress, hexlify, toUtf8Bytes } from 'ethers';
+import {
+  DIDDocument,
+  DocumentMetadata,
+  ResolutionError,
+  ServiceEndpoint,
+  VerificationMethod
+} from '../../models/identity';
+import { generateDID } from '../../utils/crypto';
+import {
+  buildVerificationMethod,
+  getSuite,
+  getSuiteForVerificationMethod
+} from '../../utils/crypto-suites';
+import { DIDKeyType, getPublicKeyHex } from '../../utils/did-key';
+import { DIDError } from '../../utils/errors';
+import { createLogger } from '../../utils/logger';
+import { keyCustodyService } from '../key-custody-service';
+import {
+  DIDCreateOptions,
+  DIDCreation,
+  DIDMethodDriver,
+  PublicationProgress,
+  resolutionError,
+  singleKeyDocument
+} from './driver';
+import { DigestSigner, EthrDIDRegistry } from './ethr-registry';
+
+const logger = createLogger('ethr-method-driver');
+
+// Algorithm names used in did/pub/<algorithm>/<purpose>/hex registry attributes
+const ATTRIBUTE_ALGORITHMS: Partial<Record<DIDKeyType, string>> = {
+  secp256k1: 'Secp256k1',
+  Ed25519: 'Ed25519'
+};
+
+interface RegistryAttribute {
+  name: string;
+  value: string;
+}
+
+// Error codes reported by did-resolver method drivers
+const RESOLVER_ERRORS: Record<string, ResolutionError> = {
+  invalidDid: ResolutionError.INVALID_DID,
+  notFound: ResolutionError.NOT_FOUND,
+  unsupportedDidMethod: ResolutionError.METHOD_NOT_SUPPORTED,
+  methodNotSupported: ResolutionError.METHOD_NOT_SUPPORTED,
+  representationNotSupported: ResolutionError.REPRESENTATION_NOT_SUPPORTED
+};
+
+export class EthrMethodDriver implements DIDMethodDriver {
+  readonly method = 'ethr';
+  readonly keyTypes: DIDKeyType[] = ['secp256k1'];
+  readonly deterministic = false;
+  readonly supportsServices = true;
+  private resolver?: Resolver;
+  private registry?: EthrDIDRegistry;
+
+  constructor() {
+    // Without an RPC endpoint only hub-managed did:ethr documents resolve
+    const rpcUrl = process.env.ETHEREUM_RPC_URL;
+    if (rpcUrl) {
+      this.resolver = new Resolver({
+        ...getEthrResolver({
+          name: 'mainnet',
+          rpcUrl,
+          registry: process.env.DID_REGISTRY_ADDRESS
+        })
+      });
+    } else {
+      logger.warn('ETHEREUM_RPC_URL not set; foreign did:ethr identifiers will not resolve');
+    }
+
+    // Writes need a relayer to pay gas; without one ethr documents stay hub-local
+    const registryAddress = process.env.DID_REGISTRY_ADDRESS;
+    const relayerPrivateKey = process.env.ETHR_RELAYER_PRIVATE_KEY;
+    if (rpcUrl && registryAddress && relayerPrivateKey) {
+      this.registry = new EthrDIDRegistry({
+        rpcUrl,
+        registryAddress,
+        relayerPrivateKey,
+        attributeValidity: parseInt(process.env.ETHR_ATTRIBUTE_VALIDITY || '31536000', 10)
+      });
+    } else {
+      logger.warn('ETHR_RELAYER_PRIVATE_KEY not set; did:ethr changes will not be published');
+    }
+  }
+
+  // did:ethr identifiers are derived from a secp256k1 key
+  async create(options: DIDCreateOptions): Promise<DIDCreation> {
+    if (options.keyType && options.keyType !== 'secp256k1') {
+      throw new DIDError('did:ethr requires a secp256k1 key');
+    }
+
+    const suite = getSuite('secp256k1');
+    const generatedKey = options.publicKey ? undefined : suite.generateKeyPair();
+    const publicKey = (options.publicKey || generatedKey!.publicKey).replace('0x', '');
+
+    const did = generateDID('ethr', publicKey);
+    const verificationMethod = {
+      ...buildVerificationMethod(suite, `${did}#keys-1`, did, publicKey),
+      type: 'EcdsaSecp256k1RecoveryMethod2020'
+    };
+
+    return {
+      did,
+      document: singleKeyDocument(
+        did,
+        'https://w3id.org/security/suites/secp256k1recovery-2020/v1',
+        verificationMethod,
+        options.services
+      ),
+      keys: generatedKey ? [{ id: verificationMethod.id, type: 'secp256k1', ...generatedKey }] : []
+    };
+  }
+
+  async resolve(did: string) {
+    if (!this.resolver) {
+      return resolutionError(ResolutionError.CONFIGURATION_ERROR);
+    }
+
+    const result = await this.resolver.resolve(did);
+    if (result.didResolutionMetadata.error || !result.didDocument) {
+      return resolutionError(
+        RESOLVER_ERRORS[result.didResolutionMetadata.error || 'notFound'] ||
+          ResolutionError.INTERNAL_ERROR
+      );
+    }
+
+    return {
+      didResolutionMetadata: { contentType: 'application/did+json' },
+      didDocument: result.didDocument as unknown as DIDDocument,
+      didDocumentMetadata: result.didDocumentMetadata as DocumentMetadata
+    };
+  }
+
+  // Publishes the difference between the two documents as registry attribute
+  // changes, signed by whichever custodied key currently owns the identity. Each
+  // confirmed transaction is recorded before the next is sent.
+  async update(
+    did: string,
+    document: DIDDocument,
+    previous: DIDDocument,
+    progress: PublicationProgress
+  ): Promise<string[]> {
+    if (!this.registry) {
+      return [];
+    }
+
+    const registry = this.registry;
+    const identity = this.identityAddress(did);
+    // After a retry the owner may already be the key this version hands ownership
+    // to, in which case no ownership change is left to send
+    const owner = getAddress(await registry.identityOwner(identity));
+    const ownerMethod = this.findOwnerMethod(did, [previous, document], owner);
+    const sign: DigestSigner = (digest) => keyCustodyService.signDigest(did, digest, ownerMethod.id);
+    const publish = this.stepPublisher(progress);
+
+    // The identity's own key is implicit on-chain and never published as an attribute.
+    // Keys are compared by attribute, so moving a key between authentication and
+    // assertion (sigAuth and veriKey) revokes the old attribute and sets the new one.
+    const published = (vm: VerificationMethod) => !vm.revoked && this.methodAddress(vm) !== identity;
+    const previousKeys = previous.verificationMethod
+      .filter(published)
+      .map((vm) => this.keyAttribute(previous, vm));
+    const currentKeys = document.verificationMethod
+      .filter(published)
+      .map((vm) => this.keyAttribute(document, vm));
+    const sameAttribute = (a: RegistryAttribute, b: RegistryAttribute) =>
+      a.name === b.name && a.value === b.value;
+
+    for (const attribute of previousKeys) {
+      if (!currentKeys.some((next) => sameAttribute(attribute, next))) {
+        await publish(`revoke:${attribute.name}:${attribute.value}`, () =>
+          registry.revokeAttribute(identity, attribute.name, attribute.value, sign)
+        );
+      }
+    }
+    for (const attribute of currentKeys) {
+      if (!previousKeys.some((before) => sameAttribute(attribute, before))) {
+        await publish(`set:${attribute.name}:${attribute.value}`, () =>
+          registry.setAttribute(identity, attribute.name, attribute.value, sign)
+        );
+      }
+    }
+
+    const previousServices = previous.service || [];
+    const currentServices = document.service || [];
+    const sameService = (a: ServiceEndpoint, b: ServiceEndpoint) =>
+      a.type === b.type && JSON.stringify(a.serviceEndpoint) === JSON.stringify(b.serviceEndpoint);
+
+    for (const service of previousServices) {
+      const next = currentServices.find((s) => s.id === service.id);
+      if (!next || !sameService(service, next)) {
+        const attribute = this.serviceAttribute(service);
+        await publish(`revoke:${attribute.name}:${attribute.value}`, () =>
+          registry.revokeAttribute(identity, attribute.name, attribute.value, sign)
+        );
+      }
+    }
+    for (const service of currentServices) {
+      const before = previousServices.find((s) => s.id === service.id);
+      if (!before || !sameService(service, before)) {
+        const attribute = this.serviceAttribute(service);
+        await publish(`set:${attribute.name}:${attribute.value}`, () =>
+          registry.setAttribute(identity, attribute.name, attribute.value, sign)
+        );
+      }
+    }
+
+    // Ownership moves last, since the old owner signs everything above
+    const ownerRetired = !document.verificationMethod.some((vm) => vm.id === ownerMethod.id && !vm.revoked);
+    if (ownerRetired) {
+      const nextOwner = this.nextOwner(document);
+      if (!nextOwner) {
+        throw new DIDError('did:ethr needs an active secp256k1 authentication key to take ownership');
+      }
+      await publish(`changeOwner:${nextOwner}`, () => registry.changeOwner(identity, nextOwner, sign));
+    }
+
+    const hashes = progress.completed.map(({ transactionHash }) => transactionHash);
+    logger.info('did:ethr update published', { did, transactions: hashes.length });
+    return hashes;
+  }
+
+  // ERC-1056 has no deactivation call; handing ownership to the zero address is final
+  async deactivate(did: string, previous: DIDDocument, progress: PublicationProgress): Promise<string[]> {
+    if (!this.registry) {
+      return [];
+    }
+
+    const registry = this.registry;
+    const identity = this.identityAddress(did);
+    const publish = this.stepPublisher(progress);
+
+    const owner = getAddress(await registry.identityOwner(identity));
+    // Already zero when an earlier attempt's transaction was mined but not recorded
+    if (owner !== ZeroAddress) {
+      const ownerMethod = this.findOwnerMethod(did, [previous], owner);
+      await publish(`changeOwner:${ZeroAddress}`, () =>
+        registry.changeOwner(identity, ZeroAddress, (digest) =>
+          keyCustodyService.signDigest(did, digest, ownerMethod.id)
+        )
+      );
+    }
+
+    const hashes = progress.completed.map(({ transactionHash }) => transactionHash);
+    logger.info('did:ethr deactivation published', { did, transactions: hashes });
+    return hashes;
+  }
+
+  // Sends a step unless an earlier attempt confirmed it, recording it once mined
+  private stepPublisher(progress: PublicationProgress) {
+    return async (step: string, send: () => Promise<string>): Promise<void> => {
+      if (progress.completed.some((completed) => completed.step === step)) {
+        return;
+      }
+      const transactionHash = await send();
+      await progress.record({ step, transactionHash });
+      progress.completed.push({ step, transactionHash });
+    };
+  }
+
+  private findOwnerMethod(did: string, documents: DIDDocument[], owner: string): VerificationMethod {
+    for (const document of documents) {
+      const method = document.verificationMethod.find(
+        (vm) => !vm.revoked && this.methodAddress(vm) === owner
+      );
+      if (method) {
+        return method;
+      }
+    }
+    throw new DIDError(`No active key in ${did} matches registry owner ${owner}`, 'ETHR_OWNER_UNKNOWN');
+  }
+
+  private nextOwner(document: DIDDocument): string | undefined {
+    for (const ref of document.authentication || []) {
+      const id = typeof ref === 'string' ? ref : ref.id;
+      const method = document.verificationMethod.find((vm) => vm.id === id && !vm.revoked);
+      const address = method && this.methodAddress(method);
+      if (address) {
+        return address;
+      }
+    }
+    return undefined;
+  }
+
+  // The identifier is either an address or a public key whose address it stands for
+  private identityAddress(did: string): string {
+    const identifier = did.split(':').pop()!.replace('0x', '');
+    return identifier.length === 40
+      ? getAddress(`0x${identifier}`)
+      : computeAddress(`0x${identifier}`);
+  }
+
+  private methodAddress(method: VerificationMethod): string | undefined {
+    const publicKey = getPublicKeyHex(method);
+    if (!publicKey || getSuiteForVerificationMethod(method)?.keyType !== 'secp256k1') {
+      return undefined;
+    }
+    return computeAddress(`0x${publicKey.replace('0x', '')}`);
+  }
+
+  // Authentication keys publish as sigAuth, which the resolver also lists under authentication
+  private keyAttribute(document: DIDDocument, method: VerificationMethod): RegistryAttribute {
+    const keyType = getSuiteForVerificationMethod(method)?.keyType;
+    const algorithm = keyType && ATTRIBUTE_ALGORITHMS[keyType];
+    const publicKey = getPublicKeyHex(method);
+    if (!algorithm || !publicKey) {
+      throw new DIDError(`did:ethr cannot publish ${method.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const authenticates = (document.authentication || []).some(
+      (ref) => (typeof ref === 'string' ? ref : ref.id) === method.id
+    );
+    return {
+      name: `did/pub/${algorithm}/${authenticates ? 'sigAuth' : 'veriKey'}/hex`,
+      value: `0x${publicKey.replace('0x', '')}`
+    };
+  }
+
+  private serviceAttribute(service: ServiceEndpoint): RegistryAttribute {
+    const endpoint = typeof service.serviceEndpoint === 'string'
+      ? service.serviceEndpoint
+      : JSON.stringify(service.serviceEndpoint);
+    return { name: `did/svc/${service.type}`, value: hexlify(toUtf8Bytes(endpoint)) };
+  }
+}
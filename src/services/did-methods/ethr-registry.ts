@@ -0,0 +1,120 @@
+import {
+  Contract,
+  ContractTransactionResponse,
+  JsonRpcProvider,
+  Wallet,
+  solidityPackedKeccak256,
+  toUtf8Bytes,
+  zeroPadBytes
+} from 'ethers';
+import { DIDError } from '../../utils/errors';
+
+// Produces a recoverable secp256k1 signature (r||s hex plus recovery id) over a raw digest
+export type DigestSigner = (digest: string) => Promise<{ signature: string; recovery: number }>;
+
+export interface EthrRegistryConfig {
+  rpcUrl: string;
+  registryAddress: string;
+  relayerPrivateKey: string; // Pays gas; the identity owner only signs
+  attributeValidity: number; // Seconds
+}
+
+const REGISTRY_ABI = [
+  'function identityOwner(address identity) view returns (address)',
+  'function nonce(address owner) view returns (uint256)',
+  'function changeOwnerSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, address newOwner)',
+  'function setAttributeSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes32 name, bytes value, uint256 validity)',
+  'function revokeAttributeSigned(address identity, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes32 name, bytes value)'
+];
+
+// ERC-1056 EthereumDIDRegistry, written through its *Signed meta-transaction
+// functions so identities never need ETH of their own
+export class EthrDIDRegistry {
+  private contract: Contract;
+  private registryAddress: string;
+  private attributeValidity: number;
+
+  constructor(config: EthrRegistryConfig) {
+    const relayer = new Wallet(config.relayerPrivateKey, new JsonRpcProvider(config.rpcUrl));
+    this.contract = new Contract(config.registryAddress, REGISTRY_ABI, relayer);
+    this.registryAddress = config.registryAddress;
+    this.attributeValidity = config.attributeValidity;
+  }
+
+  async identityOwner(identity: string): Promise<string> {
+    return this.contract.identityOwner(identity) as Promise<string>;
+  }
+
+  async setAttribute(identity: string, name: string, value: string, sign: DigestSigner): Promise<string> {
+    const key = this.encodeName(name);
+    const { v, r, s } = await this.sign(
+      identity,
+      ['string', 'bytes32', 'bytes', 'uint256'],
+      ['setAttribute', key, value, this.attributeValidity],
+      sign
+    );
+    return this.send(
+      this.contract.setAttributeSigned(identity, v, r, s, key, value, this.attributeValidity)
+    );
+  }
+
+  async revokeAttribute(identity: string, name: string, value: string, sign: DigestSigner): Promise<string> {
+    const key = this.encodeName(name);
+    const { v, r, s } = await this.sign(
+      identity,
+      ['string', 'bytes32', 'bytes'],
+      ['revokeAttribute', key, value],
+      sign
+    );
+    return this.send(this.contract.revokeAttributeSigned(identity, v, r, s, key, value));
+  }
+
+  async changeOwner(identity: string, newOwner: string, sign: DigestSigner): Promise<string> {
+    const { v, r, s } = await this.sign(
+      identity,
+      ['string', 'address'],
+      ['changeOwner', newOwner],
+      sign
+    );
+    return this.send(this.contract.changeOwnerSigned(identity, v, r, s, newOwner));
+  }
+
+  // Mirrors the registry's checkSignature: 0x19 0x00, registry, owner nonce, identity, call data
+  private async sign(
+    identity: string,
+    types: string[],
+    values: unknown[],
+    sign: DigestSigner
+  ): Promise<{ v: number; r: string; s: string }> {
+    const owner = await this.identityOwner(identity);
+    const nonce = (await this.contract.nonce(owner)) as bigint;
+    const digest = solidityPackedKeccak256(
+      ['bytes1', 'bytes1', 'address', 'uint256', 'address', ...types],
+      ['0x19', '0x00', this.registryAddress, nonce, identity, ...values]
+    );
+
+    const { signature, recovery } = await sign(digest);
+    return {
+      v: 27 + recovery,
+      r: `0x${signature.slice(0, 64)}`,
+      s: `0x${signature.slice(64, 128)}`
+    };
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<string> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new DIDError(`Registry transaction ${tx.hash} reverted`, 'ETHR_TX_FAILED');
+    }
+    return tx.hash;
+  }
+
+  private encodeName(name: string): string {
+    const bytes = toUtf8Bytes(name);
+    if (bytes.length > 32) {
+      throw new DIDError(`Registry attribute name is longer than 32 bytes: ${name}`);
+    }
+    return zeroPadBytes(bytes, 32);
+  }
+}
@@ -0,0 +1,6 @@
+export * from './driver';
+export * from './key-method-driver';
+export * from './peer-method-driver';
+export * from './web-method-driver';
+export * from './ethr-method-driver';
+export * from './ethr-registry';
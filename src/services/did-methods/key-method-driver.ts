@@ -0,0 +1,41 @@
+import { ResolutionError } from '../../models/identity';
+import { getSuite } from '../../utils/crypto-suites';
+import { DIDKeyType, createDIDKey, expandDIDKey, inferKeyType } from '../../utils/did-key';
+import { DIDError } from '../../utils/errors';
+import { DIDCreateOptions, DIDCreation, DIDMethodDriver, resolutionError, resolved } from './driver';
+
+export class KeyMethodDriver implements DIDMethodDriver {
+  readonly method = 'key';
+  readonly keyTypes: DIDKeyType[] = ['secp256k1', 'Ed25519', 'P-256'];
+  readonly deterministic = true;
+  readonly supportsServices = false;
+
+  async create(options: DIDCreateOptions): Promise<DIDCreation> {
+    if (options.services && options.services.length > 0) {
+      throw new DIDError('did:key documents cannot carry service endpoints');
+    }
+
+    const keyType = options.keyType || (options.publicKey ? inferKeyType(options.publicKey) : 'secp256k1');
+    const generatedKey = options.publicKey ? undefined : getSuite(keyType).generateKeyPair();
+
+    const did = createDIDKey(options.publicKey || generatedKey!.publicKey, keyType);
+    const now = new Date().toISOString();
+    const document = { ...expandDIDKey(did), created: now, updated: now };
+
+    return {
+      did,
+      document,
+      keys: generatedKey
+        ? [{ id: document.verificationMethod[0].id, type: keyType, ...generatedKey }]
+        : []
+    };
+  }
+
+  async resolve(did: string) {
+    try {
+      return resolved(expandDIDKey(did));
+    } catch {
+      return resolutionError(ResolutionError.INVALID_DID);
+    }
+  }
+}
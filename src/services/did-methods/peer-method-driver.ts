@@ -0,0 +1,52 @@
+import { ResolutionError } from '../../models/identity';
+import { generateEd25519KeyPair, generateX25519KeyPair } from '../../utils/crypto';
+import { DIDKeyType } from '../../utils/did-key';
+import { createPeerDID, expandPeerDID } from '../../utils/did-peer';
+import { DIDCreateOptions, DIDCreation, DIDMethodDriver, resolutionError, resolved } from './driver';
+
+// did:peer numalgo 2: pairwise identifiers with the keys and services inline
+export class PeerMethodDriver implements DIDMethodDriver {
+  readonly method = 'peer';
+  readonly keyTypes: DIDKeyType[] = ['Ed25519'];
+  readonly deterministic = true;
+  readonly supportsServices = true;
+
+  async create(options: DIDCreateOptions): Promise<DIDCreation> {
+    const signingKey = generateEd25519KeyPair();
+    const agreementKey = generateX25519KeyPair();
+
+    const did = createPeerDID(
+      {
+        authentication: [signingKey.publicKey],
+        keyAgreement: [agreementKey.publicKey]
+      },
+      options.services
+    );
+    const now = new Date().toISOString();
+    const document = { ...expandPeerDID(did), created: now, updated: now };
+
+    // did:peer lists the key agreement key first, then the signing key
+    const [agreementMethod, signingMethod] = document.verificationMethod;
+
+    return {
+      did,
+      document,
+      keys: [
+        { id: agreementMethod.id, type: 'X25519', ...agreementKey },
+        { id: signingMethod.id, type: 'Ed25519', ...signingKey }
+      ]
+    };
+  }
+
+  async resolve(did: string) {
+    if (!did.startsWith('did:peer:2')) {
+      return resolutionError(ResolutionError.METHOD_NOT_SUPPORTED);
+    }
+
+    try {
+      return resolved(expandPeerDID(did));
+    } catch {
+      return resolutionError(ResolutionError.INVALID_DID);
+    }
+  }
+}
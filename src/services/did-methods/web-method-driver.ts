@@ -0,0 +1,161 @@
+import { lookup } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, LookupFunction, isIPv4 } from 'net';
+import { DIDDocument, ResolutionError } from '../../models/identity';
+import { buildVerificationMethod, getSuite } from '../../utils/crypto-suites';
+import { DIDKeyType, inferKeyType } from '../../utils/did-key';
+import { createDIDWeb, didWebToUrl, getHubDomain } from '../../utils/did-web';
+import { DIDError } from '../../utils/errors';
+import {
+  DIDCreateOptions,
+  DIDCreation,
+  DIDMethodDriver,
+  resolutionError,
+  resolved,
+  singleKeyDocument
+} from './driver';
+
+export type DIDWebFetcher = (url: string) => Promise<unknown>;
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_DOCUMENT_BYTES = 256 * 1024;
+
+// Loopback, private, link-local and other non-public ranges
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('224.0.0.0', 3, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped || isIPv4(address)) {
+    return PRIVATE_RANGES.check(mapped || address, 'ipv4');
+  }
+  return PRIVATE_RANGES.check(address, 'ipv6');
+}
+
+// Checked on the addresses the connection actually uses, so a name that
+// re-resolves to an internal host between checks is still refused
+const publicOnlyLookup = ((hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new Error(`did:web host ${hostname} resolves to a non-public address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+}) as LookupFunction;
+
+// Redirects are not followed, so every request goes to the DID's own host
+const defaultWebFetcher: DIDWebFetcher = (url) =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    const request = client.get(
+      target,
+      {
+        headers: { Accept: 'application/did+json, application/json' },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+      },
+      (response) => {
+        if (response.statusCode === 404) {
+          response.resume();
+          resolve(null);
+          return;
+        }
+        if (response.statusCode !== 200) {
+          response.resume();
+          reject(new Error(`did:web fetch failed with status ${response.statusCode}`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_DOCUMENT_BYTES) {
+            request.destroy(new Error(`did:web document exceeds ${MAX_DOCUMENT_BYTES} bytes`));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => {
+          try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+          } catch {
+            reject(new Error('did:web document is not valid JSON'));
+          }
+        });
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+  });
+
+// The hub serves its own did:web documents, so only foreign ones are fetched
+export class WebMethodDriver implements DIDMethodDriver {
+  readonly method = 'web';
+  readonly keyTypes: DIDKeyType[] = ['secp256k1', 'Ed25519', 'P-256'];
+  readonly deterministic = false;
+  readonly supportsServices = true;
+  private fetcher: DIDWebFetcher;
+
+  constructor(fetcher: DIDWebFetcher = defaultWebFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  async create(options: DIDCreateOptions): Promise<DIDCreation> {
+    const keyType = options.keyType || (options.publicKey ? inferKeyType(options.publicKey) : 'secp256k1');
+    const suite = getSuite(keyType);
+    const generatedKey = options.publicKey ? undefined : suite.generateKeyPair();
+
+    // Agent identities live under /agents/<id>; without one this is the hub's own DID
+    const did = createDIDWeb(getHubDomain(), options.agentId ? ['agents', options.agentId] : []);
+    const verificationMethod = buildVerificationMethod(
+      suite,
+      `${did}#keys-1`,
+      did,
+      options.publicKey || generatedKey!.publicKey
+    );
+
+    return {
+      did,
+      document: singleKeyDocument(did, suite.context, verificationMethod, options.services),
+      keys: generatedKey ? [{ id: verificationMethod.id, type: keyType, ...generatedKey }] : []
+    };
+  }
+
+  async resolve(did: string) {
+    const document = (await this.fetcher(didWebToUrl(did))) as DIDDocument | null;
+
+    if (!document) {
+      return resolutionError(ResolutionError.NOT_FOUND);
+    }
+
+    if (document.id !== did) {
+      throw new DIDError(`did:web document id ${document.id} does not match ${did}`);
+    }
+
+    return resolved(document);
+  }
+}
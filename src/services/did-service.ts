@@ -1,92 +1,115 @@
-import { Resolver, ResolverRegistry } from 'did-resolver';
-import { getResolver as getEthrResolver } from 'ethr-did-resolver';
+import type { PoolClient } from 'pg';
 import { createLogger } from '../utils/logger';
+import { query, transaction } from '../utils/db';
+import { didDocumentStore } from './did-document-store';
+import { challengeService } from './challenge-service';
+import { keyCustodyService } from './key-custody-service';
+import { resolutionCache } from './resolution-cache';
+import { DIDMethodRegistry, didMethodRegistry } from './did-method-registry';
+import { DIDMethodDriver, PublicationProgress } from './did-methods';
 import {
   DIDDocument,
+  DIDDocumentVersion,
+  DIDDeactivationRecord,
+  DIDMethodInfo,
+  DIDDereferencingResult,
+  DIDResolutionOptions,
   DIDResolutionResult,
+  ResolutionError,
   ResolutionMetadata,
-  DocumentMetadata,
   VerificationMethod,
-  ServiceEndpoint
+  VerificationRelationship,
+  ServiceEndpoint,
+  KeyRotationRequest,
+  KeyRotationResult,
+  OwnershipChallenge,
+  OwnershipProof,
+  OwnershipFailureReason,
+  OwnershipVerificationResult
 } from '../models/identity';
-import { generateDID, generateKeyPair, createHash } from '../utils/crypto';
-import { DIDError } from '../utils/errors';
+import { createKeyCommitment } from '../utils/crypto';
+import {
+  buildVerificationMethod,
+  getSuiteForVerificationMethod,
+  verifyWithVerificationMethod
+} from '../utils/crypto-suites';
+import { DIDKeyType, getPublicKeyHex } from '../utils/did-key';
+import { createDIDWeb, didWebToUrl, getHubDomain } from '../utils/did-web';
+import { ParsedDIDUrl, isValidDID, matchesFragment, parseDIDUrl } from '../utils/did-url';
+import { DIDError, NotFoundError } from '../utils/errors';
 
 const logger = createLogger('did-service');
 
-export class DIDService {
-  private resolver: Resolver;
-  private documents: Map<string, DIDDocument> = new Map();
+export interface DeactivateDIDOptions {
+  deactivatedBy: string;
+  reason?: string;
+  client?: PoolClient;
+}
 
-  constructor() {
-    const ethrProvider = {
-      name: 'mainnet',
-      rpcUrl: process.env.ETHEREUM_RPC_URL,
-      registry: process.env.DID_REGISTRY_ADDRESS
-    };
+export interface CreateDIDOptions {
+  client?: PoolClient;
+  keyType?: DIDKeyType;
+  agentId?: string;
+}
 
-    const resolverRegistry: ResolverRegistry = {
-      ...getEthrResolver(ethrProvider)
-    };
+export interface DIDServiceOptions {
+  methods?: DIDMethodRegistry;
+}
+
+const VERIFICATION_RELATIONSHIPS: VerificationRelationship[] = [
+  'authentication',
+  'assertionMethod',
+  'keyAgreement',
+  'capabilityInvocation',
+  'capabilityDelegation'
+];
 
-    this.resolver = new Resolver(resolverRegistry);
+export class DIDService {
+  private methods: DIDMethodRegistry;
+
+  constructor(options: DIDServiceOptions = {}) {
+    this.methods = options.methods || didMethodRegistry;
     logger.info('DID Service initialized');
   }
 
+  listMethods(): DIDMethodInfo[] {
+    return this.methods.listMethods();
+  }
+
+  supportsMethod(method: string): boolean {
+    return this.methods.has(method);
+  }
+
+  getMethodDriver(method: string): DIDMethodDriver {
+    return this.methods.get(method);
+  }
+
   async createDID(
     method: string = 'ethr',
     publicKey?: string,
-    services?: ServiceEndpoint[]
+    services?: ServiceEndpoint[],
+    options: CreateDIDOptions = {}
   ): Promise<{ did: string; document: DIDDocument }> {
+    const driver = this.methods.get(method);
+    if (options.keyType && !driver.keyTypes.includes(options.keyType)) {
+      throw new DIDError(`did:${method} does not support ${options.keyType} keys`);
+    }
+
     try {
-      let identifier: string;
-      let actualPublicKey: string;
-
-      if (method === 'ethr') {
-        if (publicKey) {
-          identifier = publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey;
-          actualPublicKey = publicKey;
-        } else {
-          const keyPair = generateKeyPair();
-          identifier = keyPair.publicKey;
-          actualPublicKey = keyPair.publicKey;
-        }
-      } else if (method === 'key') {
-        const keyPair = generateKeyPair();
-        identifier = keyPair.publicKey;
-        actualPublicKey = keyPair.publicKey;
-      } else {
-        throw new DIDError(`Unsupported DID method: ${method}`);
-      }
+      const { did, document, keys } = await driver.create({
+        publicKey,
+        services,
+        keyType: options.keyType,
+        agentId: options.agentId
+      });
 
-      const did = generateDID(method, identifier);
-      const now = new Date().toISOString();
+      await didDocumentStore.create(did, document, options.client);
 
-      const verificationMethod: VerificationMethod = {
-        id: `${did}#keys-1`,
-        type: method === 'ethr' ? 'EcdsaSecp256k1RecoveryMethod2020' : 'Ed25519VerificationKey2020',
-        controller: did,
-        publicKeyHex: actualPublicKey.startsWith('0x') 
-          ? actualPublicKey.slice(2) 
-          : actualPublicKey
-      };
-
-      const document: DIDDocument = {
-        id: did,
-        '@context': [
-          'https://www.w3.org/ns/did/v1',
-          'https://w3id.org/security/suites/secp256k1recovery-2020/v1'
-        ],
-        controller: did,
-        verificationMethod: [verificationMethod],
-        authentication: [`${did}#keys-1`],
-        assertionMethod: [`${did}#keys-1`],
-        ...(services && services.length > 0 && { service: services }),
-        created: now,
-        updated: now
-      };
+      // Keys the hub generated stay in custody so it can sign for the DID
+      if (keys.length > 0) {
+        await keyCustodyService.storeKeys(did, keys, options.client);
+      }
 
-      this.documents.set(did, document);
       logger.info('DID created', { did, method });
 
       return { did, document };
@@ -96,58 +119,272 @@ export class DIDService {
     }
   }
 
-  async resolveDID(did: string): Promise<DIDResolutionResult> {
+  async resolveDID(
+    didUrl: string,
+    options: DIDResolutionOptions = {}
+  ): Promise<DIDResolutionResult> {
+    const startedAt = Date.now();
+    const [did, queryString] = didUrl.split('?');
+    const params = new URLSearchParams(queryString || '');
+    const versionId = options.versionId ?? params.get('versionId') ?? undefined;
+    const versionTime = options.versionTime ?? params.get('versionTime') ?? undefined;
+    const cacheKey = [did, versionId && `versionId=${versionId}`, versionTime && `versionTime=${versionTime}`]
+      .filter(Boolean)
+      .join('?');
+
+    const cached = options.noCache ? undefined : resolutionCache.get(cacheKey);
+    if (cached) {
+      return {
+        ...cached,
+        didResolutionMetadata: { ...cached.didResolutionMetadata, duration: Date.now() - startedAt }
+      };
+    }
+
+    const result = await this.resolveUncached(did, versionId, versionTime);
+    result.didResolutionMetadata = {
+      ...result.didResolutionMetadata,
+      retrieved: new Date(startedAt).toISOString(),
+      duration: Date.now() - startedAt
+    };
+
+    resolutionCache.set(did, cacheKey, result);
+    return result;
+  }
+
+  private async findTombstone(did: string): Promise<DIDDocumentVersion | null> {
+    try {
+      const current = await didDocumentStore.getCurrent(did);
+      return current?.deactivatedAt ? current : null;
+    } catch (error) {
+      logger.warn('Tombstone lookup failed; resolving from the identifier', { did, error });
+      return null;
+    }
+  }
+
+  private async resolveUncached(
+    did: string,
+    versionId?: string,
+    versionTime?: string
+  ): Promise<DIDResolutionResult> {
+    if (!isValidDID(did)) {
+      return this.resolutionError(ResolutionError.INVALID_DID);
+    }
+
     try {
-      // Check local cache first
-      const localDoc = this.documents.get(did);
-      if (localDoc) {
+      const driver = this.methods.forDID(did);
+
+      // Deterministic documents are derived from the identifier alone, unless the
+      // hub holds a tombstone for them. That lookup is best-effort, so did:key and
+      // did:peer keep resolving while the database is unavailable.
+      if (driver?.deterministic) {
+        const tombstone = await this.findTombstone(did);
+        if (!tombstone) {
+          return await driver.resolve(did);
+        }
+      }
+
+      const current = await didDocumentStore.getCurrent(did);
+
+      // Locally managed DIDs are served from the document store
+      if (current) {
+        const version = await this.selectVersion(current, versionId, versionTime);
+        if (!version) {
+          return this.resolutionError(ResolutionError.NOT_FOUND);
+        }
+
+        const nextVersionId = await didDocumentStore.getNextVersionId(did, version.versionId);
+
         return {
           didResolutionMetadata: { contentType: 'application/did+json' },
-          didDocument: localDoc,
+          didDocument: version.document,
           didDocumentMetadata: {
-            created: localDoc.created,
-            updated: localDoc.updated
+            created: version.document.created,
+            updated: version.createdAt.toISOString(),
+            versionId: String(version.versionId),
+            ...(nextVersionId !== undefined && { nextVersionId: String(nextVersionId) }),
+            ...(version.transactionHashes && { transactionHashes: version.transactionHashes }),
+            ...(current.deactivatedAt && {
+              deactivated: true,
+              deactivatedAt: current.deactivatedAt.toISOString()
+            })
           }
         };
       }
 
-      // Try to resolve via resolver
-      const doc = await this.resolver.resolve(did);
-      if (doc) {
-        return {
-          didResolutionMetadata: { contentType: 'application/did+json' },
-          didDocument: doc as DIDDocument,
-          didDocumentMetadata: {}
-        };
+      if (!driver) {
+        return this.resolutionError(ResolutionError.METHOD_NOT_SUPPORTED);
       }
 
-      return {
-        didResolutionMetadata: {
-          error: 'notFound'
-        },
-        didDocument: null,
-        didDocumentMetadata: {}
-      };
+      return await driver.resolve(did);
     } catch (error) {
       logger.error('DID resolution failed', { did, error });
+      return this.resolutionError(ResolutionError.INTERNAL_ERROR);
+    }
+  }
+
+  // DID URL dereferencing per DID Core section 7.2: a service parameter selects an
+  // endpoint to build a URL from, a fragment selects a resource in the document
+  async dereference(didUrl: string): Promise<DIDDereferencingResult> {
+    let parsed: ParsedDIDUrl;
+    try {
+      parsed = parseDIDUrl(didUrl);
+    } catch {
+      return this.dereferencingError(ResolutionError.INVALID_DID_URL);
+    }
+
+    const { did, path, query, fragment } = parsed;
+    const resolution = await this.resolveDID(did, {
+      versionId: query.versionId,
+      versionTime: query.versionTime
+    });
+    const document = resolution.didDocument;
+    if (!document) {
+      return this.dereferencingError(
+        resolution.didResolutionMetadata.error || ResolutionError.NOT_FOUND
+      );
+    }
+
+    const contentMetadata = resolution.didDocumentMetadata;
+
+    if (query.service) {
+      // A path on a service DID URL works like a relativeRef
+      const relativeRef = query.relativeRef ?? path;
+      const urls = (document.service || [])
+        .filter((service) => matchesFragment(service.id, did, query.service))
+        .flatMap((service) => ([] as string[]).concat(service.serviceEndpoint))
+        .map((endpoint) => this.buildServiceUrl(endpoint, relativeRef, fragment))
+        .filter((url): url is string => url !== null);
+
+      if (urls.length === 0) {
+        return this.dereferencingError(ResolutionError.NOT_FOUND);
+      }
+      return {
+        dereferencingMetadata: { contentType: 'text/uri-list' },
+        contentStream: urls.join('\n'),
+        contentMetadata
+      };
+    }
+
+    if (path) {
+      // Only did:web maps paths onto a location; other methods define none
+      if (!did.startsWith('did:web:')) {
+        return this.dereferencingError(ResolutionError.METHOD_NOT_SUPPORTED);
+      }
+      const base = didWebToUrl(did).replace(/\/(\.well-known\/)?did\.json$/, '');
+      const url = this.buildServiceUrl(`${base}${path}`, undefined, fragment);
+      return url
+        ? { dereferencingMetadata: { contentType: 'text/uri-list' }, contentStream: url, contentMetadata }
+        : this.dereferencingError(ResolutionError.INVALID_DID_URL);
+    }
+
+    if (fragment !== undefined) {
+      const resource = this.findDocumentResource(document, did, fragment);
+      if (!resource) {
+        return this.dereferencingError(ResolutionError.NOT_FOUND);
+      }
       return {
-        didResolutionMetadata: {
-          error: 'invalidDid'
-        },
-        didDocument: null,
-        didDocumentMetadata: {}
+        dereferencingMetadata: { contentType: 'application/did+json' },
+        contentStream: resource,
+        contentMetadata
       };
     }
+
+    return {
+      dereferencingMetadata: { contentType: 'application/did+json' },
+      contentStream: document,
+      contentMetadata
+    };
+  }
+
+  private findDocumentResource(
+    document: DIDDocument,
+    did: string,
+    fragment: string
+  ): VerificationMethod | ServiceEndpoint | undefined {
+    const embedded = VERIFICATION_RELATIONSHIPS.flatMap((relationship) =>
+      (document[relationship] || []).filter(
+        (ref): ref is VerificationMethod => typeof ref !== 'string'
+      )
+    );
+
+    return [...document.verificationMethod, ...embedded, ...(document.service || [])].find(
+      (resource) => matchesFragment(resource.id, did, fragment)
+    );
+  }
+
+  private buildServiceUrl(endpoint: string, relativeRef?: string, fragment?: string): string | null {
+    try {
+      // RFC 3986 reference resolution against the endpoint
+      const url = relativeRef ? new URL(relativeRef, endpoint) : new URL(endpoint);
+      if (fragment !== undefined) {
+        url.hash = fragment;
+      }
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private dereferencingError(error: ResolutionError): DIDDereferencingResult {
+    return {
+      dereferencingMetadata: { error },
+      contentStream: null,
+      contentMetadata: {}
+    };
+  }
+
+  private resolutionError(error: ResolutionError): DIDResolutionResult {
+    return {
+      didResolutionMetadata: { error },
+      didDocument: null,
+      didDocumentMetadata: {}
+    };
+  }
+
+  // Created at startup; should two processes both create it, the loser reads
+  // the winner's document instead of failing
+  async getHubDocument(): Promise<DIDDocument> {
+    const hubDid = createDIDWeb(getHubDomain());
+    const current = await didDocumentStore.getCurrent(hubDid);
+    if (current) {
+      return current.document;
+    }
+
+    try {
+      const { document } = await this.createDID('web');
+      return document;
+    } catch (error) {
+      const created = await didDocumentStore.getCurrent(hubDid);
+      if (created) {
+        return created.document;
+      }
+      throw error;
+    }
+  }
+
+  async getAgentWebDocument(agentId: string): Promise<DIDDocument> {
+    const did = createDIDWeb(getHubDomain(), ['agents', agentId]);
+    const current = await didDocumentStore.getCurrent(did);
+    if (!current) {
+      throw new NotFoundError('DID document', did);
+    }
+    return current.document;
+  }
+
+  async getDIDHistory(did: string): Promise<DIDDocumentVersion[]> {
+    const versions = await didDocumentStore.listVersions(did);
+    if (versions.length === 0) {
+      throw new DIDError('DID not found');
+    }
+    return versions;
   }
 
   async updateDID(
     did: string,
-    updates: Partial<DIDDocument>
+    updates: Partial<DIDDocument>,
+    client?: PoolClient
   ): Promise<DIDDocument> {
-    const existing = this.documents.get(did);
-    if (!existing) {
-      throw new DIDError('DID not found in local registry');
-    }
+    const existing = await this.getMutableDocument(did, 'DID not found in local registry');
 
     const updated: DIDDocument = {
       ...existing,
@@ -156,7 +393,7 @@ export class DIDService {
       updated: new Date().toISOString()
     };
 
-    this.documents.set(did, updated);
+    await this.saveDocument(did, updated, client);
     logger.info('DID updated', { did });
 
     return updated;
@@ -164,12 +401,10 @@ export class DIDService {
 
   async addVerificationMethod(
     did: string,
-    method: Omit<VerificationMethod, 'controller'>
+    method: Omit<VerificationMethod, 'controller'>,
+    client?: PoolClient
   ): Promise<DIDDocument> {
-    const document = this.documents.get(did);
-    if (!document) {
-      throw new DIDError('DID not found');
-    }
+    const document = await this.getMutableDocument(did);
 
     const newMethod: VerificationMethod = {
       ...method,
@@ -182,18 +417,16 @@ export class DIDService {
       updated: new Date().toISOString()
     };
 
-    this.documents.set(did, updated);
+    await this.saveDocument(did, updated, client);
     return updated;
   }
 
   async addServiceEndpoint(
     did: string,
-    service: ServiceEndpoint
+    service: ServiceEndpoint,
+    client?: PoolClient
   ): Promise<DIDDocument> {
-    const document = this.documents.get(did);
-    if (!document) {
-      throw new DIDError('DID not found');
-    }
+    const document = await this.getMutableDocument(did);
 
     const services = document.service || [];
     
@@ -207,44 +440,672 @@ export class DIDService {
       updated: new Date().toISOString()
     };
 
-    this.documents.set(did, updated);
+    await this.saveDocument(did, updated, client);
     return updated;
   }
 
-  async deactivateDID(did: string): Promise<void> {
-    const document = this.documents.get(did);
-    if (!document) {
+  async assignVerificationRelationship(
+    did: string,
+    relationship: VerificationRelationship,
+    keyId: string,
+    client?: PoolClient
+  ): Promise<DIDDocument> {
+    const document = await this.getMutableDocument(did);
+    const method = this.findMethod(document, keyId);
+    if (!method) {
+      throw new NotFoundError('Verification method', keyId);
+    }
+    if (method.revoked) {
+      throw new DIDError(`${keyId} has been revoked`, 'KEY_REVOKED');
+    }
+
+    const refs = document[relationship] || [];
+    if (refs.some((ref) => this.isSameId(did, this.refId(ref), method.id))) {
+      throw new DIDError(`${keyId} is already in ${relationship}`);
+    }
+
+    const updated: DIDDocument = {
+      ...document,
+      [relationship]: [...refs, method.id],
+      updated: new Date().toISOString()
+    };
+
+    await this.saveDocument(did, updated, client);
+    return updated;
+  }
+
+  async removeVerificationRelationship(
+    did: string,
+    relationship: VerificationRelationship,
+    keyId: string,
+    client?: PoolClient
+  ): Promise<DIDDocument> {
+    const document = await this.getMutableDocument(did);
+    const refs = document[relationship] || [];
+    if (!refs.some((ref) => this.isSameId(did, this.refId(ref), keyId))) {
+      throw new NotFoundError(`${relationship} key`, keyId);
+    }
+
+    const updated = this.withoutReferences(document, keyId, [relationship]);
+    await this.saveDocument(did, updated, client);
+    return updated;
+  }
+
+  // Drops the key and every relationship entry pointing at it
+  async removeVerificationMethod(
+    did: string,
+    keyId: string,
+    client?: PoolClient
+  ): Promise<DIDDocument> {
+    const document = await this.getMutableDocument(did);
+    const method = this.findMethod(document, keyId);
+    if (!method) {
+      throw new NotFoundError('Verification method', keyId);
+    }
+
+    const stripped = this.withoutReferences(document, method.id, VERIFICATION_RELATIONSHIPS);
+    const updated: DIDDocument = {
+      ...stripped,
+      verificationMethod: stripped.verificationMethod.filter((vm) => vm !== method)
+    };
+
+    await this.saveDocument(did, updated, client);
+    return updated;
+  }
+
+  async updateServiceEndpoint(
+    did: string,
+    serviceId: string,
+    changes: Partial<Omit<ServiceEndpoint, 'id'>>,
+    client?: PoolClient
+  ): Promise<DIDDocument> {
+    const document = await this.getMutableDocument(did);
+    const service = document.service?.find((s) => this.isSameId(did, s.id, serviceId));
+    if (!service) {
+      throw new NotFoundError('Service endpoint', serviceId);
+    }
+
+    const updated: DIDDocument = {
+      ...document,
+      service: document.service!.map((s) => (s === service ? { ...s, ...changes, id: s.id } : s)),
+      updated: new Date().toISOString()
+    };
+
+    await this.saveDocument(did, updated, client);
+    return updated;
+  }
+
+  async removeServiceEndpoint(
+    did: string,
+    serviceId: string,
+    client?: PoolClient
+  ): Promise<DIDDocument> {
+    const document = await this.getMutableDocument(did);
+    const services = document.service || [];
+    const remaining = services.filter((s) => !this.isSameId(did, s.id, serviceId));
+    if (remaining.length === services.length) {
+      throw new NotFoundError('Service endpoint', serviceId);
+    }
+
+    const { service: _removed, ...rest } = document;
+    const updated: DIDDocument = {
+      ...rest,
+      ...(remaining.length > 0 && { service: remaining }),
+      updated: new Date().toISOString()
+    };
+
+    await this.saveDocument(did, updated, client);
+    return updated;
+  }
+
+  async rotateKey(
+    did: string,
+    request: KeyRotationRequest = {},
+    client?: PoolClient
+  ): Promise<KeyRotationResult> {
+    if (!client) {
+      // The document and custody change commit together before anything is published
+      const rotated = await transaction((db) => this.rotateKey(did, request, db));
+      await this.publishPending(did);
+      return rotated;
+    }
+
+    const document = await this.getMutableDocument(did);
+    const previous = this.findActiveMethod(document, 'authentication');
+    if (!previous) {
+      throw new DIDError('DID has no active authentication key to rotate');
+    }
+
+    // KERI-style pre-rotation: the new key must match the committed digest
+    if (document.nextKeyCommitment) {
+      if (!request.publicKey) {
+        throw new DIDError('A pre-rotation commitment exists; the committed public key is required');
+      }
+      if (createKeyCommitment(request.publicKey) !== document.nextKeyCommitment) {
+        throw new DIDError('New key does not match the pre-rotation commitment', 'KEY_COMMITMENT_MISMATCH');
+      }
+    }
+
+    // The replacement key stays on the same suite as the key it replaces
+    const suite = getSuiteForVerificationMethod(previous);
+    if (!suite) {
+      throw new DIDError(`Cannot rotate ${previous.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const generatedKey = request.publicKey ? undefined : suite.generateKeyPair();
+    const publicKey = (request.publicKey || generatedKey!.publicKey).replace('0x', '');
+    const rotatedAt = new Date().toISOString();
+    const keyId = this.nextKeyId(document);
+
+    const newMethod: VerificationMethod = {
+      ...buildVerificationMethod(suite, keyId, did, publicKey),
+      type: previous.type
+    };
+
+    const replaceReference = (refs?: (string | VerificationMethod)[]) =>
+      refs?.map((ref) => ((typeof ref === 'string' ? ref : ref.id) === previous.id ? keyId : ref));
+
+    const updated: DIDDocument = {
+      ...document,
+      verificationMethod: [
+        ...document.verificationMethod.map((method) =>
+          method.id === previous.id ? { ...method, revoked: rotatedAt } : method
+        ),
+        newMethod
+      ],
+      authentication: replaceReference(document.authentication),
+      assertionMethod: replaceReference(document.assertionMethod),
+      capabilityInvocation: replaceReference(document.capabilityInvocation),
+      capabilityDelegation: replaceReference(document.capabilityDelegation),
+      nextKeyCommitment: request.nextKeyCommitment,
+      updated: rotatedAt
+    };
+
+    await this.saveDocument(did, updated, client);
+
+    // A caller-supplied key means the hub no longer holds the rotated signing key;
+    // other custodied keys (e.g. did:peer key agreement) stay in the envelope.
+    // Ledger-anchored DIDs keep the old key until the rotation is published with it.
+    await keyCustodyService.replaceKey(
+      did,
+      this.isLedgerAnchored(did) ? undefined : previous.id,
+      generatedKey ? { id: keyId, type: suite.keyType, ...generatedKey } : undefined,
+      client
+    );
+
+    logger.info('DID key rotated', { did, keyId, previousKeyId: previous.id });
+
+    return {
+      document: updated,
+      keyId,
+      previousKeyId: previous.id,
+      publicKey,
+      rotatedAt
+    };
+  }
+
+  // Deactivation keeps a tombstone instead of deleting the document: every key is
+  // marked revoked at the deactivation time, so proofs made before it still verify
+  async deactivateDID(did: string, options: DeactivateDIDOptions): Promise<DIDDeactivationRecord> {
+    const current = await didDocumentStore.getCurrent(did);
+    if (!current) {
       throw new DIDError('DID not found');
     }
+    if (current.deactivatedAt) {
+      throw new DIDError('DID is already deactivated', 'DID_DEACTIVATED');
+    }
+
+    const deactivatedAt = new Date().toISOString();
+    const { service: _service, nextKeyCommitment: _commitment, ...document } = current.document;
+    const tombstone: DIDDocument = {
+      ...document,
+      verificationMethod: document.verificationMethod.map((method) => ({
+        ...method,
+        revoked: method.revoked || deactivatedAt
+      })),
+      updated: deactivatedAt
+    };
+
+    const anchored = Boolean(this.methods.forDID(did)?.deactivate);
+    const run = async (client: PoolClient): Promise<DIDDeactivationRecord> => {
+      const version = await didDocumentStore.deactivate(did, tombstone, client);
+      // Ledger-anchored DIDs keep their keys until the deactivation is published with them
+      if (anchored) {
+        await didDocumentStore.markUnpublished(did, version.versionId, 'deactivate', client);
+      } else {
+        await keyCustodyService.releaseKeys(did, client);
+      }
+
+      await client.query(
+        `INSERT INTO did_deactivations (did, deactivated_at, deactivated_by, reason, version_id)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [did, version.deactivatedAt, options.deactivatedBy, options.reason || null, version.versionId]
+      );
+
+      return {
+        did,
+        deactivatedAt: version.deactivatedAt!,
+        deactivatedBy: options.deactivatedBy,
+        reason: options.reason,
+        versionId: version.versionId
+      };
+    };
+
+    let record: DIDDeactivationRecord;
+    if (options.client) {
+      record = await run(options.client);
+    } else {
+      record = await transaction(run);
+      if (anchored) {
+        await this.publishPending(did);
+      }
+    }
+
+    logger.info('DID deactivated', { did, deactivatedBy: options.deactivatedBy, reason: options.reason });
 
-    // In a real implementation, this would interact with the blockchain
-    logger.info('DID deactivated', { did });
-    this.documents.delete(did);
+    return record;
   }
 
-  verifyDIDOwnership(did: string, signature: string, message: string): boolean {
-    const document = this.documents.get(did);
-    if (!document || !document.verificationMethod) {
-      return false;
+  // Publishes committed versions of ledger-anchored DIDs in order. A version that
+  // fails stays queued, holding back later ones for the same DID, until the next pass.
+  async publishPending(did?: string): Promise<void> {
+    let versions: DIDDocumentVersion[];
+    try {
+      versions = await didDocumentStore.listUnpublished(did);
+    } catch (error) {
+      logger.error('Failed to list unpublished DID versions', { did, error });
+      return;
     }
 
-    const method = document.verificationMethod[0];
-    if (!method.publicKeyHex) {
-      return false;
+    const heldBack = new Set<string>();
+    for (const version of versions) {
+      if (heldBack.has(version.did)) {
+        continue;
+      }
+      try {
+        if (!(await this.publishVersion(version))) {
+          heldBack.add(version.did);
+        }
+      } catch (error) {
+        heldBack.add(version.did);
+        logger.error('Failed to publish DID version', {
+          did: version.did,
+          versionId: version.versionId,
+          error
+        });
+      }
+    }
+  }
+
+  async getDeactivationRecord(did: string): Promise<DIDDeactivationRecord | null> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM did_deactivations WHERE did = $1',
+      [did]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      did: row.did as string,
+      deactivatedAt: new Date(row.deactivated_at as Date),
+      deactivatedBy: row.deactivated_by as string,
+      reason: (row.reason as string) || undefined,
+      versionId: row.version_id as number
+    };
+  }
+
+  async createOwnershipChallenge(
+    did: string,
+    audience?: string
+  ): Promise<OwnershipChallenge> {
+    return challengeService.issueChallenge(did, audience);
+  }
+
+  // The challenge must have been issued for the expected audience, which is the
+  // one the prover names or else the hub itself
+  async verifyDIDOwnership(
+    did: string,
+    proof: OwnershipProof,
+    expectedAudience: string = proof.audience || challengeService.getDefaultAudience()
+  ): Promise<OwnershipVerificationResult> {
+    const fail = (reason: OwnershipFailureReason, message: string): OwnershipVerificationResult => {
+      logger.warn('DID ownership verification failed', { did, reason });
+      return { valid: false, did, reason, message };
+    };
+
+    const { challenge, reason } = await challengeService.consumeChallenge(proof.challenge);
+    if (!challenge) {
+      return fail(reason, 'Challenge is unknown, expired or already used');
+    }
+
+    if (challenge.did !== did) {
+      return fail(OwnershipFailureReason.DID_MISMATCH, 'Challenge was issued for a different DID');
+    }
+
+    if (challenge.audience !== expectedAudience || (proof.audience && proof.audience !== expectedAudience)) {
+      return fail(OwnershipFailureReason.AUDIENCE_MISMATCH, 'Challenge was issued for a different audience');
+    }
+
+    const { didDocument } = await this.resolveDID(did);
+    if (!didDocument) {
+      return fail(OwnershipFailureReason.DID_NOT_RESOLVED, 'DID could not be resolved');
+    }
+
+    // Any non-revoked key in the authentication relationship may answer
+    const candidates = this.getRelationshipMethods(didDocument, 'authentication').filter(
+      (method) => !proof.keyId || method.id === proof.keyId || `${did}${method.id}` === proof.keyId
+    );
+    if (candidates.length === 0) {
+      return fail(OwnershipFailureReason.KEY_NOT_AUTHORIZED, 'No usable authentication key found');
+    }
+
+    let sawSupportedKey = false;
+    for (const method of candidates) {
+      if (!getSuiteForVerificationMethod(method) || !getPublicKeyHex(method)) {
+        continue;
+      }
+      sawSupportedKey = true;
+
+      if (verifyWithVerificationMethod(method, challenge.message, proof.signature)) {
+        logger.info('DID ownership verified', { did, keyId: method.id });
+        return { valid: true, did, keyId: method.id };
+      }
+    }
+
+    return sawSupportedKey
+      ? fail(OwnershipFailureReason.INVALID_SIGNATURE, 'Signature does not match any authentication key')
+      : fail(OwnershipFailureReason.UNSUPPORTED_KEY_TYPE, 'No authentication key uses a supported key type');
+  }
+
+  async getActiveVerificationMethod(
+    did: string,
+    relationship: VerificationRelationship = 'assertionMethod'
+  ): Promise<VerificationMethod | null> {
+    const { didDocument } = await this.resolveDID(did);
+    return didDocument ? this.findActiveMethod(didDocument, relationship) : null;
+  }
+
+  // Returns the method only if it had not been rotated out by the given time,
+  // so signatures made before a rotation keep verifying afterwards. With a
+  // relationship, the method must also have been listed under it at that time.
+  async getVerificationMethodAt(
+    did: string,
+    methodId: string,
+    at: Date = new Date(),
+    relationship?: VerificationRelationship
+  ): Promise<VerificationMethod | null> {
+    const { didDocument } = await this.resolveDID(did);
+    const method = didDocument?.verificationMethod.find(
+      (vm) => vm.id === methodId || `${did}${vm.id}` === methodId
+    );
+
+    if (!method) {
+      return null;
+    }
+    if (method.revoked && new Date(method.revoked) <= at) {
+      return null;
     }
 
-    // Verify signature using the public key
-    const messageHash = createHash(message);
-    // In production, use proper signature verification
-    return true; // Simplified for this implementation
+    if (relationship) {
+      // Rotation rewrites relationships, so look at the version in force back then;
+      // methods without version history only have the current document
+      const { didDocument: historical } = await this.resolveDID(did, { versionTime: at.toISOString() });
+      const listed = (historical || didDocument!)[relationship]?.some((ref) =>
+        this.isSameId(did, this.refId(ref), method.id)
+      );
+      if (!listed) {
+        return null;
+      }
+    }
+    return method;
   }
 
-  getAllLocalDIDs(): Array<{ did: string; document: DIDDocument }> {
-    return Array.from(this.documents.entries()).map(([did, document]) => ({
+  // Keys a DID offers for changing documents it controls; DID Core reserves
+  // capabilityInvocation for this, documents without it fall back to authentication
+  async getInvocationMethods(did: string): Promise<VerificationMethod[]> {
+    const { didDocument } = await this.resolveDID(did);
+    if (!didDocument) {
+      return [];
+    }
+    return didDocument.capabilityInvocation
+      ? this.getRelationshipMethods(didDocument, 'capabilityInvocation')
+      : this.getRelationshipMethods(didDocument, 'authentication');
+  }
+
+  // One past the highest #keys-N in use, so removals never lead to a reused live ID
+  nextKeyId(document: DIDDocument): string {
+    const indexes = document.verificationMethod
+      .map((method) => /#keys-(\d+)$/.exec(method.id))
+      .map((match) => (match ? parseInt(match[1], 10) : 0));
+    return `${document.id}#keys-${Math.max(0, ...indexes) + 1}`;
+  }
+
+  getControllers(document: DIDDocument): string[] {
+    if (!document.controller) {
+      return [document.id];
+    }
+    return Array.isArray(document.controller) ? document.controller : [document.controller];
+  }
+
+  async getAllLocalDIDs(): Promise<Array<{ did: string; document: DIDDocument }>> {
+    const documents = await didDocumentStore.listCurrent();
+    return documents.map(({ did, document }) => ({
       did,
       document
     }));
   }
+
+  // Every mutation goes through here so a stored document never points at
+  // missing keys or loses its last way to authenticate
+  private async saveDocument(did: string, document: DIDDocument, client?: PoolClient): Promise<void> {
+    const methodIds = document.verificationMethod.map((method) =>
+      method.id.startsWith('#') ? `${did}${method.id}` : method.id
+    );
+    if (new Set(methodIds).size !== methodIds.length) {
+      throw new DIDError('Verification method IDs must be unique', 'DUPLICATE_VERIFICATION_METHOD');
+    }
+
+    for (const relationship of VERIFICATION_RELATIONSHIPS) {
+      for (const ref of document[relationship] || []) {
+        if (typeof ref === 'string' && !this.findMethod(document, ref)) {
+          throw new DIDError(`${relationship} references unknown key ${ref}`, 'UNKNOWN_VERIFICATION_METHOD');
+        }
+      }
+    }
+
+    if (this.getRelationshipMethods(document, 'authentication').length === 0) {
+      throw new DIDError('A DID document must keep at least one active authentication key', 'NO_AUTHENTICATION_KEY');
+    }
+
+    // Ledger-anchored versions are only queued here and published once committed,
+    // so a rollback never leaves a change on-chain. Inside a caller's transaction
+    // the caller publishes after its commit, or the background job picks it up.
+    const anchored = this.isLedgerAnchored(did);
+    const store = async (db: PoolClient) => {
+      const version = await didDocumentStore.update(did, document, db);
+      if (anchored) {
+        await didDocumentStore.markUnpublished(did, version.versionId, 'update', db);
+      }
+    };
+
+    if (client) {
+      await store(client);
+    } else {
+      await transaction(store);
+      if (anchored) {
+        await this.publishPending(did);
+      }
+    }
+  }
+
+  private isLedgerAnchored(did: string): boolean {
+    return Boolean(this.methods.forDID(did)?.update);
+  }
+
+  // Publishes one queued version under a lease, so concurrent publishers never send
+  // the same change twice. False when another publisher holds it. No lock is held
+  // while transactions are mined; each confirmed step is saved as it lands and a
+  // later attempt resumes after it.
+  private async publishVersion(version: DIDDocumentVersion): Promise<boolean> {
+    const { did, versionId } = version;
+    const driver = this.methods.forDID(did);
+    const previous = await didDocumentStore.getVersion(did, versionId - 1);
+    if (!driver || !previous) {
+      throw new DIDError(`Cannot publish version ${versionId} of ${did}`);
+    }
+
+    const completed = await didDocumentStore.claimUnpublished(did, versionId);
+    if (!completed) {
+      return false;
+    }
+
+    const progress: PublicationProgress = {
+      completed,
+      record: (step) => didDocumentStore.recordPublishedStep(did, versionId, step)
+    };
+
+    try {
+      if (version.pendingPublication === 'deactivate') {
+        const hashes = driver.deactivate ? await driver.deactivate(did, previous.document, progress) : [];
+        await transaction(async (client) => {
+          await didDocumentStore.recordTransactions(did, versionId, hashes, client);
+          await keyCustodyService.releaseKeys(did, client);
+        });
+        return true;
+      }
+
+      const hashes = driver.update
+        ? await driver.update(did, version.document, previous.document, progress)
+        : [];
+      await transaction(async (client) => {
+        await didDocumentStore.recordTransactions(did, versionId, hashes, client);
+
+        // Keys held back to sign this change can go; later queued versions only
+        // need keys that are still active in this version or the current one
+        const current = await didDocumentStore.getCurrent(did);
+        const activeIds = (document: DIDDocument) =>
+          document.verificationMethod.filter((method) => !method.revoked).map((method) => method.id);
+        await keyCustodyService.retainKeys(
+          did,
+          [...activeIds(version.document), ...(current ? activeIds(current.document) : [])],
+          client
+        );
+      });
+      return true;
+    } catch (error) {
+      await didDocumentStore.releaseClaim(did, versionId).catch((releaseError) =>
+        logger.warn('Failed to release publication lease', { did, versionId, error: releaseError })
+      );
+      throw error;
+    }
+  }
+
+  private findMethod(document: DIDDocument, keyId: string): VerificationMethod | undefined {
+    return document.verificationMethod.find((vm) => this.isSameId(document.id, vm.id, keyId));
+  }
+
+  // Relationship entries are either a key ID or an embedded key
+  private refId(ref: string | VerificationMethod): string {
+    return typeof ref === 'string' ? ref : ref.id;
+  }
+
+  // IDs inside a document may be relative to the DID
+  private isSameId(did: string, a: string, b: string): boolean {
+    return a === b || `${did}${a}` === b || a === `${did}${b}`;
+  }
+
+  private withoutReferences(
+    document: DIDDocument,
+    keyId: string,
+    relationships: VerificationRelationship[]
+  ): DIDDocument {
+    const updated: DIDDocument = { ...document, updated: new Date().toISOString() };
+    for (const relationship of relationships) {
+      const remaining = (document[relationship] || []).filter(
+        (ref) => !this.isSameId(document.id, this.refId(ref), keyId)
+      );
+      // An empty list would hide the authentication fallback for capabilityInvocation
+      if (remaining.length > 0) {
+        updated[relationship] = remaining;
+      } else {
+        delete updated[relationship];
+      }
+    }
+    return updated;
+  }
+
+  private getRelationshipMethods(
+    document: DIDDocument,
+    relationship: VerificationRelationship
+  ): VerificationMethod[] {
+    const methods: VerificationMethod[] = [];
+    for (const ref of document[relationship] || []) {
+      const method = typeof ref === 'string'
+        ? document.verificationMethod.find((vm) => vm.id === ref)
+        : ref;
+      if (method && !method.revoked) {
+        methods.push(method);
+      }
+    }
+    return methods;
+  }
+
+  private findActiveMethod(
+    document: DIDDocument,
+    relationship: VerificationRelationship
+  ): VerificationMethod | null {
+    return this.getRelationshipMethods(document, relationship)[0] || null;
+  }
+
+  assertMutable(did: string): void {
+    if (this.methods.forDID(did)?.deterministic) {
+      throw new DIDError(`${did.split(':').slice(0, 2).join(':')} documents are immutable`);
+    }
+  }
+
+  private async getMutableDocument(
+    did: string,
+    notFoundMessage?: string
+  ): Promise<DIDDocument> {
+    this.assertMutable(did);
+    return this.getLocalDocument(did, notFoundMessage);
+  }
+
+  private async getLocalDocument(
+    did: string,
+    notFoundMessage: string = 'DID not found'
+  ): Promise<DIDDocument> {
+    const current = await didDocumentStore.getCurrent(did);
+    if (!current) {
+      throw new DIDError(notFoundMessage);
+    }
+    if (current.deactivatedAt) {
+      throw new DIDError('DID has been deactivated', 'DID_DEACTIVATED');
+    }
+    return current.document;
+  }
+
+  private async selectVersion(
+    current: DIDDocumentVersion,
+    versionId?: string,
+    versionTime?: string
+  ): Promise<DIDDocumentVersion | null> {
+    if (versionId !== undefined) {
+      const id = parseInt(versionId, 10);
+      return Number.isNaN(id) ? null : didDocumentStore.getVersion(current.did, id);
+    }
+
+    if (versionTime !== undefined) {
+      const time = new Date(versionTime);
+      return Number.isNaN(time.getTime())
+        ? null
+        : didDocumentStore.getVersionAt(current.did, time);
+    }
+
+    return current;
+  }
 }
 
 export const didService = new DIDService();
@@ -0,0 +1,475 @@
+import type { PoolClient } from 'pg';
+import { createLogger } from '../utils/logger';
+import { query, transaction } from '../utils/db';
+import { didService } from './did-service';
+import { didDocumentStore } from './did-document-store';
+import { signerRegistry } from './signer-registry';
+import { identityManager } from './identity-manager';
+import {
+  ControllerApproval,
+  ControllerProof,
+  DIDDocument,
+  DIDDocumentVersion,
+  DIDUpdateOperation,
+  DIDUpdatePolicy,
+  DIDUpdateResult,
+  PendingDIDUpdate,
+  PendingUpdateStatus
+} from '../models/identity';
+import { canonicalize, generateId } from '../utils/crypto';
+import { getSuiteForVerificationMethod, verifyWithVerificationMethod } from '../utils/crypto-suites';
+import { isValidDID } from '../utils/did-url';
+import {
+  AuthorizationError,
+  ConflictError,
+  DIDError,
+  NotFoundError,
+  ValidationError
+} from '../utils/errors';
+
+const logger = createLogger('did-update-service');
+
+export interface ApprovalOptions {
+  // Controller DID the hub should co-sign for with its custodied key
+  custodySigner?: string;
+}
+
+export class DIDUpdateService {
+  async getPolicy(did: string): Promise<DIDUpdatePolicy> {
+    const current = await this.getUpdatableVersion(did);
+    return {
+      did,
+      controllers: didService.getControllers(current.document),
+      threshold: await this.getThreshold(did)
+    };
+  }
+
+  async isController(did: string, candidate: string): Promise<boolean> {
+    const current = await didDocumentStore.getCurrent(did);
+    return Boolean(current && didService.getControllers(current.document).includes(candidate));
+  }
+
+  // Controllers sign the canonical JSON of the DID, the version the change
+  // applies to and the operation, which also stops a proof being replayed
+  buildSigningInput(did: string, baseVersionId: number, operation: DIDUpdateOperation): string {
+    return canonicalize({ did, baseVersionId, operation });
+  }
+
+  async submitUpdate(
+    did: string,
+    operation: DIDUpdateOperation,
+    proofs: ControllerProof[] = [],
+    options: ApprovalOptions = {}
+  ): Promise<DIDUpdateResult> {
+    const current = await this.getUpdatableVersion(did);
+    const controllers = didService.getControllers(current.document);
+    const threshold = await this.getThreshold(did);
+    this.validateOperation(current.document, operation, controllers, threshold);
+
+    const update: PendingDIDUpdate = {
+      id: generateId(),
+      did,
+      operation,
+      baseVersionId: current.versionId,
+      signingInput: this.buildSigningInput(did, current.versionId, operation),
+      approvals: [],
+      threshold,
+      status: PendingUpdateStatus.PENDING,
+      createdAt: new Date()
+    };
+    update.approvals = await this.collectApprovals(update, controllers, proofs, options);
+    if (update.approvals.length === 0) {
+      throw new AuthorizationError('At least one controller must sign a proposed update');
+    }
+
+    const result = await transaction(async (client) => {
+      await client.query(
+        `INSERT INTO did_pending_updates
+         (id, did, operation, base_version_id, signing_input, approvals, threshold, status, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          update.id,
+          did,
+          JSON.stringify(operation),
+          update.baseVersionId,
+          update.signingInput,
+          JSON.stringify(update.approvals),
+          update.threshold,
+          update.status,
+          update.createdAt
+        ]
+      );
+
+      logger.info('DID update proposed', {
+        did,
+        updateId: update.id,
+        operation: operation.type,
+        approvals: update.approvals.length,
+        threshold
+      });
+
+      return this.applyIfApproved(update, client);
+    });
+
+    return this.publishApplied(did, result);
+  }
+
+  async approveUpdate(
+    did: string,
+    updateId: string,
+    proofs: ControllerProof[],
+    options: ApprovalOptions = {}
+  ): Promise<DIDUpdateResult> {
+    const existing = await this.getPendingUpdate(did, updateId);
+    if (existing.status !== PendingUpdateStatus.PENDING) {
+      throw new ConflictError(`DID update ${updateId} is already ${existing.status}`);
+    }
+
+    const current = await this.getUpdatableVersion(did);
+    const controllers = didService.getControllers(current.document);
+    const approvals = await this.collectApprovals(existing, controllers, proofs, options);
+
+    const result = await transaction(async (client) => {
+      // Lock the row so two approvals arriving together cannot both apply it
+      const locked = await client.query(
+        'SELECT status FROM did_pending_updates WHERE id = $1 FOR UPDATE',
+        [updateId]
+      );
+      if (locked.rows[0]?.status !== PendingUpdateStatus.PENDING) {
+        throw new ConflictError(`DID update ${updateId} is no longer pending`);
+      }
+
+      const update: PendingDIDUpdate = {
+        ...existing,
+        approvals,
+        threshold: await this.getThreshold(did)
+      };
+
+      await client.query(
+        'UPDATE did_pending_updates SET approvals = $1, threshold = $2 WHERE id = $3',
+        [JSON.stringify(update.approvals), update.threshold, updateId]
+      );
+
+      logger.info('DID update approved', {
+        did,
+        updateId,
+        approvals: update.approvals.length,
+        threshold: update.threshold
+      });
+
+      return this.applyIfApproved(update, client);
+    });
+
+    return this.publishApplied(did, result);
+  }
+
+  async getPendingUpdate(did: string, updateId: string): Promise<PendingDIDUpdate> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM did_pending_updates WHERE id = $1 AND did = $2',
+      [updateId, did]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('DID update', updateId);
+    }
+    return this.mapUpdateFromDb(result.rows[0]);
+  }
+
+  async listPendingUpdates(did: string): Promise<PendingDIDUpdate[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM did_pending_updates
+       WHERE did = $1 AND status = $2
+       ORDER BY created_at ASC`,
+      [did, PendingUpdateStatus.PENDING]
+    );
+    return result.rows.map((row) => this.mapUpdateFromDb(row));
+  }
+
+  // Ledger-anchored changes go out only once the applied update has committed
+  private async publishApplied(did: string, result: DIDUpdateResult): Promise<DIDUpdateResult> {
+    if (result.status === PendingUpdateStatus.APPLIED) {
+      await didService.publishPending(did);
+    }
+    return result;
+  }
+
+  private async applyIfApproved(
+    update: PendingDIDUpdate,
+    client: PoolClient
+  ): Promise<DIDUpdateResult> {
+    if (update.approvals.length < update.threshold) {
+      return { status: PendingUpdateStatus.PENDING, update };
+    }
+
+    const current = await client.query(
+      'SELECT version_id, document FROM identities WHERE did = $1 FOR UPDATE',
+      [update.did]
+    );
+    if (current.rows[0]?.version_id !== update.baseVersionId) {
+      await this.setStatus(client, update.id, PendingUpdateStatus.SUPERSEDED);
+      logger.warn('DID update superseded', { did: update.did, updateId: update.id });
+      return {
+        status: PendingUpdateStatus.SUPERSEDED,
+        update: { ...update, status: PendingUpdateStatus.SUPERSEDED }
+      };
+    }
+
+    const document = await this.applyOperation(update, current.rows[0].document as DIDDocument, client);
+
+    const appliedAt = new Date();
+    await this.setStatus(client, update.id, PendingUpdateStatus.APPLIED, appliedAt);
+
+    // Other proposals were signed against the version this one just replaced
+    if (update.operation.type !== 'setThreshold') {
+      await client.query(
+        `UPDATE did_pending_updates SET status = $1
+         WHERE did = $2 AND status = $3 AND id <> $4`,
+        [PendingUpdateStatus.SUPERSEDED, update.did, PendingUpdateStatus.PENDING, update.id]
+      );
+    }
+
+    logger.info('DID update applied', {
+      did: update.did,
+      updateId: update.id,
+      operation: update.operation.type,
+      controllers: update.approvals.map((approval) => approval.controller)
+    });
+
+    return {
+      status: PendingUpdateStatus.APPLIED,
+      update: { ...update, status: PendingUpdateStatus.APPLIED, appliedAt },
+      document
+    };
+  }
+
+  private async applyOperation(
+    update: PendingDIDUpdate,
+    document: DIDDocument,
+    client: PoolClient
+  ): Promise<DIDDocument> {
+    const { did, operation } = update;
+    switch (operation.type) {
+      case 'update':
+        return didService.updateDID(did, operation.changes, client);
+      case 'addVerificationMethod':
+        return didService.addVerificationMethod(
+          did,
+          { ...operation.method, id: didService.nextKeyId(document) },
+          client
+        );
+      case 'removeVerificationMethod':
+        return didService.removeVerificationMethod(did, operation.keyId, client);
+      case 'addRelationship':
+        return didService.assignVerificationRelationship(
+          did,
+          operation.relationship,
+          operation.keyId,
+          client
+        );
+      case 'removeRelationship':
+        return didService.removeVerificationRelationship(
+          did,
+          operation.relationship,
+          operation.keyId,
+          client
+        );
+      case 'addService':
+        return didService.addServiceEndpoint(did, operation.service, client);
+      case 'updateService':
+        return didService.updateServiceEndpoint(did, operation.serviceId, operation.changes, client);
+      case 'removeService':
+        return didService.removeServiceEndpoint(did, operation.serviceId, client);
+      case 'setThreshold':
+        await client.query(
+          `INSERT INTO did_update_policies (did, threshold, updated_at)
+           VALUES ($1, $2, CURRENT_TIMESTAMP)
+           ON CONFLICT (did) DO UPDATE
+           SET threshold = EXCLUDED.threshold, updated_at = EXCLUDED.updated_at`,
+          [did, operation.threshold]
+        );
+        return document;
+      case 'rotateKey': {
+        const { publicKey, nextKeyCommitment } = operation;
+        const result = await identityManager.rotateIdentityKey(did, { publicKey, nextKeyCommitment }, client);
+        return result.document;
+      }
+      case 'deactivate': {
+        // Attributed to the controller that proposed it
+        await identityManager.deactivateIdentity(
+          did,
+          { deactivatedBy: update.approvals[0].controller, reason: operation.reason },
+          client
+        );
+        const tombstone = await client.query('SELECT document FROM identities WHERE did = $1', [did]);
+        return tombstone.rows[0].document as DIDDocument;
+      }
+    }
+  }
+
+  // Each controller counts once, whichever of its keys signed
+  private async collectApprovals(
+    update: PendingDIDUpdate,
+    controllers: string[],
+    proofs: ControllerProof[],
+    options: ApprovalOptions
+  ): Promise<ControllerApproval[]> {
+    const approvals = [...update.approvals];
+    const hasApproved = (controller: string) =>
+      approvals.some((approval) => approval.controller === controller);
+
+    for (const proof of proofs) {
+      const controller = proof.keyId.split('#')[0];
+      if (!controllers.includes(controller)) {
+        throw new AuthorizationError(`${proof.keyId} is not a key of a controller of ${update.did}`);
+      }
+
+      const methods = await didService.getInvocationMethods(controller);
+      const method = methods.find(
+        (vm) => vm.id === proof.keyId || `${controller}${vm.id}` === proof.keyId
+      );
+      if (!method || !verifyWithVerificationMethod(method, update.signingInput, proof.signature)) {
+        throw new AuthorizationError(`Invalid controller signature from ${proof.keyId}`);
+      }
+
+      if (!hasApproved(controller)) {
+        approvals.push({ ...proof, controller, approvedAt: new Date() });
+      }
+    }
+
+    const signer = options.custodySigner;
+    if (signer && !hasApproved(signer)) {
+      if (!controllers.includes(signer)) {
+        throw new AuthorizationError(`${signer} is not a controller of ${update.did}`);
+      }
+
+      const [method] = await didService.getInvocationMethods(signer);
+      if (!method) {
+        throw new DIDError(`${signer} has no active key to sign with`, 'NO_SIGNING_KEY');
+      }
+
+      const { signature, keyId } = await signerRegistry.sign(signer, method, update.signingInput);
+      approvals.push({ keyId, signature, controller: signer, approvedAt: new Date() });
+    }
+
+    return approvals;
+  }
+
+  private validateOperation(
+    document: DIDDocument,
+    operation: DIDUpdateOperation,
+    controllers: string[],
+    threshold: number
+  ): void {
+    switch (operation.type) {
+      case 'update': {
+        const { controller } = operation.changes;
+        if (controller !== undefined) {
+          const next = Array.isArray(controller) ? controller : [controller];
+          if (next.length === 0 || !next.every(isValidDID)) {
+            throw new ValidationError('Controllers must be valid DIDs');
+          }
+          if (next.length < threshold) {
+            throw new ValidationError(
+              `Cannot drop below ${threshold} controllers while the update threshold is ${threshold}`
+            );
+          }
+        }
+        break;
+      }
+      case 'addVerificationMethod':
+        if (!getSuiteForVerificationMethod({ ...operation.method, id: '', controller: document.id })) {
+          throw new ValidationError(`Unsupported verification method type: ${operation.method.type}`);
+        }
+        break;
+      case 'removeVerificationMethod':
+      case 'addRelationship':
+      case 'removeRelationship':
+        if (!this.hasId(document, document.verificationMethod, operation.keyId)) {
+          throw new NotFoundError('Verification method', operation.keyId);
+        }
+        break;
+      case 'addService':
+        if (document.service?.some((service) => service.id === operation.service.id)) {
+          throw new DIDError(`Service endpoint ${operation.service.id} already exists`);
+        }
+        break;
+      case 'updateService':
+      case 'removeService':
+        if (!this.hasId(document, document.service || [], operation.serviceId)) {
+          throw new NotFoundError('Service endpoint', operation.serviceId);
+        }
+        if (operation.type === 'updateService' && Object.keys(operation.changes).length === 0) {
+          throw new ValidationError('At least one service field must change');
+        }
+        break;
+      case 'setThreshold':
+        if (operation.threshold < 1 || operation.threshold > controllers.length) {
+          throw new ValidationError(
+            `Threshold must be between 1 and the number of controllers (${controllers.length})`
+          );
+        }
+        break;
+      case 'rotateKey':
+      case 'deactivate':
+        break;
+    }
+  }
+
+  // Catches typos before controllers are asked to sign; full checks run when applied
+  private hasId(document: DIDDocument, entries: Array<{ id: string }>, id: string): boolean {
+    return entries.some((entry) => entry.id === id || `${document.id}${entry.id}` === id);
+  }
+
+  private async getUpdatableVersion(did: string): Promise<DIDDocumentVersion> {
+    didService.assertMutable(did);
+
+    const current = await didDocumentStore.getCurrent(did);
+    if (!current) {
+      throw new NotFoundError('DID', did);
+    }
+    if (current.deactivatedAt) {
+      throw new DIDError('DID has been deactivated', 'DID_DEACTIVATED');
+    }
+    return current;
+  }
+
+  private async getThreshold(did: string): Promise<number> {
+    const result = await query<{ threshold: number }>(
+      'SELECT threshold FROM did_update_policies WHERE did = $1',
+      [did]
+    );
+    return result.rows[0]?.threshold ?? 1;
+  }
+
+  private async setStatus(
+    client: PoolClient,
+    updateId: string,
+    status: PendingUpdateStatus,
+    appliedAt?: Date
+  ): Promise<void> {
+    await client.query(
+      'UPDATE did_pending_updates SET status = $1, applied_at = $2 WHERE id = $3',
+      [status, appliedAt || null, updateId]
+    );
+  }
+
+  private mapUpdateFromDb(row: Record<string, unknown>): PendingDIDUpdate {
+    const approvals = (row.approvals as Array<ControllerApproval & { approvedAt: string }>) || [];
+    return {
+      id: row.id as string,
+      did: row.did as string,
+      operation: row.operation as DIDUpdateOperation,
+      baseVersionId: row.base_version_id as number,
+      signingInput: row.signing_input as string,
+      approvals: approvals.map((approval) => ({
+        ...approval,
+        approvedAt: new Date(approval.approvedAt)
+      })),
+      threshold: row.threshold as number,
+      status: row.status as PendingUpdateStatus,
+      createdAt: new Date(row.created_at as Date),
+      appliedAt: row.applied_at ? new Date(row.applied_at as Date) : undefined
+    };
+  }
+}
+
+export const didUpdateService = new DIDUpdateService();
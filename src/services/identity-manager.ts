@@ -1,6 +1,8 @@
 import { createLogger } from '../utils/logger';
+import type { PoolClient } from 'pg';
 import { query, transaction } from '../utils/db';
 import { didService } from './did-service';
+import { statusListService } from './status-list-service';
 import {
   Agent,
   AgentStatus,
@@ -12,9 +14,16 @@ import {
   AgentActivity,
   ActivityType
 } from '../models/agent';
-import { Identity } from '../models/identity';
+import { CapabilityStatus } from '../models/capability';
+import {
+  DIDDeactivationRecord,
+  Identity,
+  KeyRotationRequest,
+  KeyRotationResult
+} from '../models/identity';
 import { NotFoundError, ConflictError, ValidationError } from '../utils/errors';
 import { generateId, generateUUID, encrypt } from '../utils/crypto';
+import { getPublicKeyHex } from '../utils/did-key';
 
 const logger = createLogger('identity-manager');
 
@@ -23,21 +32,32 @@ export class IdentityManager {
     request: CreateAgentRequest,
     ownerDid?: string
   ): Promise<{ agent: Agent; identity: Identity; apiKey: string }> {
+    const method = request.method || 'ethr';
+    if (!didService.supportsMethod(method)) {
+      throw new ValidationError(`Unsupported DID method: ${method}`, {
+        supportedMethods: didService.listMethods().map((info) => info.method)
+      });
+    }
+
     return await transaction(async (client) => {
-      // Create DID
+      const agentId = generateId();
+
+      // Create DID (some methods, like did:key, cannot carry the MCP service)
       const { did, document } = await didService.createDID(
-        'ethr',
+        method,
         undefined,
-        [
-          {
-            id: '#mcp',
-            type: 'MCPService',
-            serviceEndpoint: `${process.env.API_URL || 'http://localhost:3000'}/mcp`
-          }
-        ]
+        !didService.getMethodDriver(method).supportsServices
+          ? undefined
+          : [
+              {
+                id: '#mcp',
+                type: 'MCPService',
+                serviceEndpoint: `${process.env.API_URL || 'http://localhost:3000'}/mcp`
+              }
+            ],
+        { client, agentId, keyType: request.keyType }
       );
 
-      const agentId = generateId();
       const now = new Date();
 
       // Create agent record
@@ -47,7 +67,7 @@ export class IdentityManager {
         name: request.name,
         description: request.description,
         type: request.type,
-        publicKey: document.verificationMethod[0].publicKeyHex || '',
+        publicKey: getPublicKeyHex(document.verificationMethod[0]) || '',
         trustScore: 0.5, // Default trust score
         reputation: 0,
         status: AgentStatus.ACTIVE,
@@ -93,10 +113,10 @@ export class IdentityManager {
         updatedAt: now
       };
 
+      // The DID document itself was stored by createDID; link it to the agent
       await client.query(
-        `INSERT INTO identities (did, agent_id, document, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [identity.did, identity.agentId, JSON.stringify(identity.document), identity.createdAt, identity.updatedAt]
+        `UPDATE identities SET agent_id = $1, updated_at = $2 WHERE did = $3`,
+        [identity.agentId, identity.updatedAt, identity.did]
       );
 
       // Log activity
@@ -244,25 +264,148 @@ export class IdentityManager {
     return this.getAgent(agentId);
   }
 
-  async deleteAgent(agentId: string): Promise<void> {
-    await transaction(async (client) => {
+  // Applied through a controller-approved DID update; keeps the agent's public key in step
+  async rotateIdentityKey(
+    did: string,
+    request: KeyRotationRequest,
+    client: PoolClient
+  ): Promise<KeyRotationResult> {
+    const result = await didService.rotateKey(did, request, client);
+
+    const agentResult = await client.query(
+      'UPDATE agents SET public_key = $1, updated_at = $2 WHERE did = $3 RETURNING id',
+      [result.publicKey, new Date(result.rotatedAt), did]
+    );
+    const agentId = agentResult.rows[0]?.id as string | undefined;
+
+    if (agentId) {
+      await this.logActivityInternal(client, {
+        id: generateId(),
+        agentId,
+        activityType: ActivityType.KEY_ROTATED,
+        description: 'Agent key rotated',
+        timestamp: new Date(result.rotatedAt),
+        metadata: {
+          keyId: result.keyId,
+          previousKeyId: result.previousKeyId,
+          preRotationCommitted: Boolean(request.nextKeyCommitment)
+        }
+      });
+    }
+
+    logger.info('Identity key rotated', { did, agentId, keyId: result.keyId });
+
+    return result;
+  }
+
+  // Tombstones the DID and cascades: the agent is revoked along with its sessions and
+  // the capabilities granted to it, and attestations it issued are flagged
+  async deactivateIdentity(
+    did: string,
+    options: { deactivatedBy: string; reason?: string },
+    client?: PoolClient
+  ): Promise<DIDDeactivationRecord> {
+    const run = async (db: PoolClient): Promise<DIDDeactivationRecord> => {
+      const record = await didService.deactivateDID(did, { ...options, client: db });
+
+      const agentResult = await db.query(
+        `UPDATE agents SET status = $1, updated_at = $2 WHERE did = $3 RETURNING id`,
+        [AgentStatus.REVOKED, record.deactivatedAt, did]
+      );
+      const agentId = agentResult.rows[0]?.id as string | undefined;
+
+      const capabilities = await db.query(
+        `UPDATE capabilities SET status = $1, revoked_at = $2
+         WHERE subject = $3 AND status = $4
+         RETURNING status_list_id, status_list_index`,
+        [CapabilityStatus.REVOKED, record.deactivatedAt, did, CapabilityStatus.ACTIVE]
+      );
+      for (const { status_list_id: listId, status_list_index: index } of capabilities.rows) {
+        if (listId) {
+          await statusListService.setStatus(listId, index, true, db);
+        }
+      }
+
+      const attestations = await db.query(
+        `UPDATE attestations SET issuer_deactivated_at = $1
+         WHERE issuer = $2 AND issuer_deactivated_at IS NULL`,
+        [record.deactivatedAt, did]
+      );
+
+      if (agentId) {
+        await db.query(
+          `UPDATE agent_sessions SET revoked_at = $1, revoked_reason = 'did_deactivated'
+           WHERE agent_id = $2 AND revoked_at IS NULL`,
+          [record.deactivatedAt, agentId]
+        );
+
+        await this.logActivityInternal(db, {
+          id: generateId(),
+          agentId,
+          activityType: ActivityType.IDENTITY_DEACTIVATED,
+          description: `DID deactivated: ${options.reason || 'No reason provided'}`,
+          timestamp: record.deactivatedAt,
+          metadata: {
+            did,
+            deactivatedBy: options.deactivatedBy,
+            reason: options.reason,
+            revokedCapabilities: capabilities.rowCount || 0,
+            flaggedAttestations: attestations.rowCount || 0
+          }
+        });
+      }
+
+      logger.info('Identity deactivated', {
+        did,
+        agentId,
+        revokedCapabilities: capabilities.rowCount || 0,
+        flaggedAttestations: attestations.rowCount || 0
+      });
+
+      return record;
+    };
+
+    if (client) {
+      return run(client);
+    }
+    const record = await transaction(run);
+    await didService.publishPending(did);
+    return record;
+  }
+
+  async deleteAgent(agentId: string, deletedBy: string = 'system'): Promise<void> {
+    const did = await transaction(async (client) => {
       const agent = await this.getAgent(agentId);
 
-      // Deactivate DID
-      await didService.deactivateDID(agent.did);
+      // An agent can be REVOKED while its DID is still live, so only an existing
+      // tombstone means there is nothing left to deactivate
+      if (!(await didService.getDeactivationRecord(agent.did))) {
+        await this.deactivateIdentity(
+          agent.did,
+          { deactivatedBy: deletedBy, reason: 'Agent deleted' },
+          client
+        );
+      }
+
+      // Detach the identity so its tombstone outlives the agent row
+      await client.query('UPDATE identities SET agent_id = NULL WHERE agent_id = $1', [agentId]);
 
       // Delete agent (cascade will handle related records)
       await client.query('DELETE FROM agents WHERE id = $1', [agentId]);
 
       logger.info('Agent deleted', { agentId });
+      return agent.did;
     });
+
+    await didService.publishPending(did);
   }
 
   async createRelationship(
     sourceAgentId: string,
     targetAgentId: string,
     relationshipType: RelationshipType,
-    permissions: string[] = []
+    permissions: string[] = [],
+    options: { pairwise?: boolean } = {}
   ): Promise<AgentRelationship> {
     if (sourceAgentId === targetAgentId) {
       throw new ValidationError('Cannot create relationship with self');
@@ -272,41 +415,89 @@ export class IdentityManager {
     await this.getAgent(sourceAgentId);
     await this.getAgent(targetAgentId);
 
-    const relationship: AgentRelationship = {
-      id: generateId(),
-      sourceAgentId,
-      targetAgentId,
-      relationshipType,
-      trustLevel: 0.5,
-      permissions,
-      establishedAt: new Date(),
-      lastInteractionAt: new Date(),
-      interactionCount: 0,
-      metadata: {}
+    return await transaction(async (client) => {
+      const now = new Date();
+
+      // The upsert locks the row, so pairwise DIDs below are minted at most once
+      // per relationship even when the same request arrives twice
+      const result = await client.query(
+        `INSERT INTO agent_relationships (id, source_agent_id, target_agent_id, 
+         relationship_type, trust_level, permissions, established_at, 
+         last_interaction_at, interaction_count, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (source_agent_id, target_agent_id, relationship_type)
+         DO UPDATE SET permissions = EXCLUDED.permissions
+         RETURNING *`,
+        [
+          generateId(),
+          sourceAgentId,
+          targetAgentId,
+          relationshipType,
+          0.5,
+          JSON.stringify(permissions),
+          now,
+          now,
+          0,
+          JSON.stringify({})
+        ]
+      );
+      const relationship = this.mapRelationshipFromDb(result.rows[0]);
+
+      // Each side gets its own did:peer so public DIDs aren't reused in private channels
+      if (options.pairwise && (!relationship.sourcePeerDid || !relationship.targetPeerDid)) {
+        if (!relationship.sourcePeerDid) {
+          relationship.sourcePeerDid = await this.mintPairwiseDID(client, sourceAgentId);
+        }
+        if (!relationship.targetPeerDid) {
+          relationship.targetPeerDid = await this.mintPairwiseDID(client, targetAgentId);
+        }
+
+        await client.query(
+          `UPDATE agent_relationships SET source_peer_did = $1, target_peer_did = $2
+           WHERE id = $3`,
+          [relationship.sourcePeerDid, relationship.targetPeerDid, relationship.id]
+        );
+      }
+
+      return relationship;
+    });
+  }
+
+  async getRelationshipByPeerDID(peerDid: string): Promise<{
+    relationship: AgentRelationship;
+    agentId: string;
+    permissions: string[];
+  }> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM agent_relationships
+       WHERE source_peer_did = $1 OR target_peer_did = $1`,
+      [peerDid]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Relationship for pairwise DID', peerDid);
+    }
+
+    const relationship = this.mapRelationshipFromDb(result.rows[0]);
+
+    return {
+      relationship,
+      agentId: relationship.sourcePeerDid === peerDid
+        ? relationship.sourceAgentId
+        : relationship.targetAgentId,
+      permissions: relationship.permissions
     };
+  }
 
-    await query(
-      `INSERT INTO agent_relationships (id, source_agent_id, target_agent_id, 
-       relationship_type, trust_level, permissions, established_at, 
-       last_interaction_at, interaction_count, metadata)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-       ON CONFLICT (source_agent_id, target_agent_id, relationship_type)
-       DO UPDATE SET permissions = EXCLUDED.permissions, updated_at = CURRENT_TIMESTAMP`,
-      [
-        relationship.id,
-        relationship.sourceAgentId,
-        relationship.targetAgentId,
-        relationship.relationshipType,
-        relationship.trustLevel,
-        JSON.stringify(relationship.permissions),
-        relationship.establishedAt,
-        relationship.lastInteractionAt,
-        relationship.interactionCount,
-        JSON.stringify(relationship.metadata)
-      ]
+  private async mintPairwiseDID(client: PoolClient, agentId: string): Promise<string> {
+    const { did } = await didService.createDID('peer', undefined, undefined, { client });
+
+    await client.query(
+      'UPDATE identities SET agent_id = $1 WHERE did = $2',
+      [agentId, did]
     );
 
-    return relationship;
+    return did;
   }
 
   async getRelationships(agentId: string): Promise<{
@@ -422,7 +613,9 @@ export class IdentityManager {
       establishedAt: new Date(row.established_at as Date),
       lastInteractionAt: new Date(row.last_interaction_at as Date),
       interactionCount: row.interaction_count as number,
-      metadata: (row.metadata as Record<string, unknown>) || {}
+      metadata: (row.metadata as Record<string, unknown>) || {},
+      sourcePeerDid: (row.source_peer_did as string) || undefined,
+      targetPeerDid: (row.target_peer_did as string) || undefined
     };
   }
 
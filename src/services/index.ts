@@ -1,6 +1,20 @@
+export * from './resolution-cache';
+export * from './did-document-store';
+export * from './did-methods';
+export * from './did-method-registry';
+export * from './challenge-service';
+export * from './key-custody-service';
+export * from './signers';
+export * from './signer-registry';
+export * from './session-service';
 export * from './did-service';
+export * from './did-update-service';
 export * from './identity-manager';
 export * from './capability-issuer';
+export * from './credential-signer';
+export * from './status-list-service';
+export * from './claim-schema-service';
 export * from './attestation-service';
+export * from './presentation-service';
 export * from './trust-engine';
 export * from './mcp-integration';
@@ -0,0 +1,236 @@
+import type { PoolClient } from 'pg';
+import { randomBytes } from 'crypto';
+import * as secp256k1 from 'secp256k1';
+import { createLogger } from '../utils/logger';
+import { query } from '../utils/db';
+import { encrypt, decrypt } from '../utils/crypto';
+import { SuiteKeyType, getSuite } from '../utils/crypto-suites';
+import { DIDError } from '../utils/errors';
+
+const logger = createLogger('key-custody');
+
+export type CustodiedKeyType = SuiteKeyType | 'X25519';
+
+export interface CustodiedKey {
+  id: string; // Verification method ID
+  type: CustodiedKeyType;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface CustodySignature {
+  signature: string;
+  keyId: string;
+  keyType: CustodiedKeyType;
+}
+
+interface KeyEnvelope {
+  masterKeyVersion: number;
+  encryptedDataKey: string;
+  encryptedKeys: string;
+}
+
+export class KeyCustodyService {
+  private masterKeyVersion: number;
+
+  constructor() {
+    this.masterKeyVersion = parseInt(process.env.KEY_CUSTODY_MASTER_KEY_VERSION || '1', 10);
+  }
+
+  async storeKeys(did: string, keys: CustodiedKey[], client?: PoolClient): Promise<number> {
+    // Envelope encryption: a fresh data key per write, wrapped by the master key
+    const dataKey = randomBytes(24).toString('base64');
+    const envelope: KeyEnvelope = {
+      masterKeyVersion: this.masterKeyVersion,
+      encryptedDataKey: encrypt(dataKey, this.getMasterKey(this.masterKeyVersion)),
+      encryptedKeys: encrypt(JSON.stringify(keys), dataKey)
+    };
+
+    const sql = `UPDATE identities
+      SET encrypted_private_key = $1, key_version = key_version + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE did = $2
+      RETURNING key_version`;
+    const params = [JSON.stringify(envelope), did];
+
+    const result = client ? await client.query(sql, params) : await query(sql, params);
+    if (result.rows.length === 0) {
+      throw new DIDError('Cannot take custody of keys for an unknown DID');
+    }
+
+    const keyVersion = (result.rows[0] as { key_version: number }).key_version;
+    logger.info('Keys taken into custody', {
+      did,
+      keyIds: keys.map((k) => k.id),
+      keyVersion
+    });
+
+    return keyVersion;
+  }
+
+  async releaseKeys(did: string, client?: PoolClient): Promise<void> {
+    const sql = `UPDATE identities
+      SET encrypted_private_key = NULL, key_version = key_version + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE did = $1`;
+
+    if (client) {
+      await client.query(sql, [did]);
+    } else {
+      await query(sql, [did]);
+    }
+
+    logger.info('Custodied keys released', { did });
+  }
+
+  // Swaps one key in the envelope, leaving the DID's other custodied keys in place.
+  // Without a previous key ID the new key is only added.
+  async replaceKey(
+    did: string,
+    previousKeyId: string | undefined,
+    key: CustodiedKey | undefined,
+    client?: PoolClient
+  ): Promise<void> {
+    const stored = await this.readKeys(did, client);
+    const keys = (stored || []).filter((k) => !previousKeyId || !this.matchesKeyId(did, k, previousKeyId));
+    if (key) {
+      keys.push(key);
+    }
+    await this.writeKeys(did, stored, keys, client);
+  }
+
+  // Drops every custodied key not in keyIds
+  async retainKeys(did: string, keyIds: string[], client?: PoolClient): Promise<void> {
+    const stored = await this.readKeys(did, client);
+    const keys = (stored || []).filter((k) => keyIds.some((keyId) => this.matchesKeyId(did, k, keyId)));
+    if (keys.length !== (stored || []).length) {
+      await this.writeKeys(did, stored, keys, client);
+    }
+  }
+
+  async hasKeys(did: string): Promise<boolean> {
+    const result = await query<{ encrypted_private_key: string | null }>(
+      'SELECT encrypted_private_key FROM identities WHERE did = $1',
+      [did]
+    );
+    return Boolean(result.rows[0]?.encrypted_private_key);
+  }
+
+  async getKeyVersion(did: string): Promise<number> {
+    const result = await query<{ key_version: number }>(
+      'SELECT key_version FROM identities WHERE did = $1',
+      [did]
+    );
+    return result.rows[0]?.key_version ?? 0;
+  }
+
+  async listKeyIds(did: string): Promise<string[]> {
+    const keys = await this.loadKeys(did);
+    return keys.map((key) => key.id);
+  }
+
+  async sign(did: string, data: string, keyId?: string): Promise<CustodySignature> {
+    const keys = await this.loadKeys(did);
+    const key = keyId
+      ? keys.find((k) => this.matchesKeyId(did, k, keyId))
+      : keys.find((k) => k.type !== 'X25519');
+
+    if (!key) {
+      throw new DIDError(`No custodied signing key for ${keyId || did}`, 'KEY_NOT_IN_CUSTODY');
+    }
+
+    if (key.type === 'X25519') {
+      throw new DIDError('X25519 keys are for key agreement only', 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    return {
+      signature: getSuite(key.type).sign(data, key.privateKey),
+      keyId: key.id,
+      keyType: key.type
+    };
+  }
+
+  // Raw recoverable ECDSA over a caller-built digest, for protocols such as
+  // ERC-1056 meta-transactions that verify with ecrecover
+  async signDigest(
+    did: string,
+    digest: string,
+    keyId: string
+  ): Promise<{ signature: string; recovery: number }> {
+    const keys = await this.loadKeys(did);
+    const key = keys.find((k) => this.matchesKeyId(did, k, keyId));
+
+    if (!key) {
+      throw new DIDError(`No custodied signing key for ${keyId}`, 'KEY_NOT_IN_CUSTODY');
+    }
+    if (key.type !== 'secp256k1') {
+      throw new DIDError('Digest signing needs a secp256k1 key', 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const { signature, recid } = secp256k1.ecdsaSign(
+      Buffer.from(digest.replace('0x', ''), 'hex'),
+      Buffer.from(key.privateKey, 'hex')
+    );
+    return { signature: Buffer.from(signature).toString('hex'), recovery: recid };
+  }
+
+  // Re-wraps the data key under the current master key version
+  async rewrap(did: string): Promise<void> {
+    const keys = await this.loadKeys(did);
+    await this.storeKeys(did, keys);
+  }
+
+  private async writeKeys(
+    did: string,
+    stored: CustodiedKey[] | null,
+    keys: CustodiedKey[],
+    client?: PoolClient
+  ): Promise<void> {
+    if (keys.length > 0) {
+      await this.storeKeys(did, keys, client);
+    } else if (stored) {
+      await this.releaseKeys(did, client);
+    }
+  }
+
+  private async loadKeys(did: string): Promise<CustodiedKey[]> {
+    const keys = await this.readKeys(did);
+    if (!keys) {
+      throw new DIDError(`No keys in custody for ${did}`, 'KEY_NOT_IN_CUSTODY');
+    }
+    return keys;
+  }
+
+  private async readKeys(did: string, client?: PoolClient): Promise<CustodiedKey[] | null> {
+    const sql = 'SELECT encrypted_private_key FROM identities WHERE did = $1';
+    const result = client ? await client.query(sql, [did]) : await query(sql, [did]);
+
+    const stored = (result.rows[0] as { encrypted_private_key: string | null } | undefined)?.encrypted_private_key;
+    if (!stored) {
+      return null;
+    }
+
+    const envelope = JSON.parse(stored) as KeyEnvelope;
+    const dataKey = decrypt(envelope.encryptedDataKey, this.getMasterKey(envelope.masterKeyVersion));
+    return JSON.parse(decrypt(envelope.encryptedKeys, dataKey)) as CustodiedKey[];
+  }
+
+  // Custodied IDs may be relative (#keys-1) while callers pass absolute ones
+  private matchesKeyId(did: string, key: CustodiedKey, keyId: string): boolean {
+    return key.id === keyId || `${did}${key.id}` === keyId;
+  }
+
+  private getMasterKey(version: number): string {
+    const key = version === this.masterKeyVersion
+      ? process.env.KEY_CUSTODY_MASTER_KEY
+      : process.env[`KEY_CUSTODY_MASTER_KEY_V${version}`];
+
+    if (key) {
+      return key;
+    }
+    if (process.env.NODE_ENV === 'production') {
+      throw new DIDError(`Master key version ${version} is not configured`, 'CUSTODY_CONFIGURATION_ERROR');
+    }
+    return 'default-master-key-change-in-production';
+  }
+}
+
+export const keyCustodyService = new KeyCustodyService();
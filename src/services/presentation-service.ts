@@ -0,0 +1,295 @@
+import { createLogger } from '../utils/logger';
+import { query } from '../utils/db';
+import { didService } from './did-service';
+import { signerRegistry } from './signer-registry';
+import { attestationService } from './attestation-service';
+import { challengeService } from './challenge-service';
+import { Attestation, AttestationProof, AttestationType, AttestationVerificationResult } from '../models/attestation';
+import {
+  PresentationRequest,
+  PresentationRequestInput,
+  PresentationVerificationResult,
+  VerifiablePresentation
+} from '../models/presentation';
+import { canonicalize, generateChallenge, generateId } from '../utils/crypto';
+import { getSuiteForVerificationMethod, verifyWithVerificationMethod } from '../utils/crypto-suites';
+import { AttestationError, AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+
+const logger = createLogger('presentation-service');
+
+const DEFAULT_REQUEST_TTL_MINUTES = 10;
+
+export class PresentationService {
+  async createRequest(verifierDid: string, input: PresentationRequestInput): Promise<PresentationRequest> {
+    const now = new Date();
+    const request: PresentationRequest = {
+      id: `urn:presentation-request:${generateId()}`,
+      verifier: verifierDid,
+      attestationTypes: Array.from(new Set(input.attestationTypes)),
+      trustedIssuers: input.trustedIssuers,
+      challenge: generateChallenge(),
+      domain: input.domain || challengeService.getDefaultAudience(),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + (input.expiresInMinutes || DEFAULT_REQUEST_TTL_MINUTES) * 60 * 1000)
+    };
+
+    await query(
+      `INSERT INTO presentation_requests
+       (id, verifier, attestation_types, trusted_issuers, challenge, domain, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        request.id,
+        request.verifier,
+        JSON.stringify(request.attestationTypes),
+        request.trustedIssuers ? JSON.stringify(request.trustedIssuers) : null,
+        request.challenge,
+        request.domain,
+        request.createdAt,
+        request.expiresAt
+      ]
+    );
+
+    logger.info('Presentation request created', {
+      requestId: request.id,
+      verifier: verifierDid,
+      attestationTypes: request.attestationTypes
+    });
+
+    return request;
+  }
+
+  async getRequest(requestId: string): Promise<PresentationRequest> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM presentation_requests WHERE id = $1',
+      [requestId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Presentation request', requestId);
+    }
+
+    return this.mapRequestFromDb(result.rows[0]);
+  }
+
+  // Holder side. Without explicit attestation IDs the newest valid attestation
+  // from a trusted issuer is picked for each requested type.
+  async createPresentation(
+    holderDid: string,
+    requestId: string,
+    attestationIds?: string[]
+  ): Promise<VerifiablePresentation> {
+    const request = await this.getRequest(requestId);
+    if (request.expiresAt < new Date()) {
+      throw new ValidationError('Presentation request has expired');
+    }
+
+    const attestations = attestationIds
+      ? await Promise.all(attestationIds.map((id) => attestationService.getAttestation(id)))
+      : await this.selectAttestations(holderDid, request);
+
+    if (attestations.some((attestation) => attestation.subject !== holderDid)) {
+      throw new AuthorizationError('Only attestations about the holder can be presented');
+    }
+
+    const unmetTypes = this.findUnmetTypes(request, attestations);
+    if (unmetTypes.length > 0) {
+      throw new ValidationError('Holder cannot satisfy the presentation request', { unmetTypes });
+    }
+
+    const method = await didService.getActiveVerificationMethod(holderDid, 'authentication');
+    if (!method) {
+      throw new AttestationError('Holder has no active authentication key', 'NO_SIGNING_KEY');
+    }
+
+    const suite = getSuiteForVerificationMethod(method);
+    if (!suite) {
+      throw new AttestationError(`No crypto suite for ${method.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const unsigned = {
+      id: `urn:presentation:${generateId()}`,
+      holder: holderDid,
+      requestId,
+      attestations
+    };
+    const proofOptions: Omit<AttestationProof, 'proofValue'> = {
+      type: suite.proofType,
+      created: new Date().toISOString(),
+      proofPurpose: 'authentication',
+      verificationMethod: method.id,
+      challenge: request.challenge,
+      domain: request.domain
+    };
+
+    const { signature } = await signerRegistry.sign(holderDid, method, this.signingInput(unsigned, proofOptions));
+
+    logger.info('Presentation created', {
+      requestId,
+      holder: holderDid,
+      attestations: attestations.map((attestation) => attestation.id)
+    });
+
+    return { ...unsigned, proof: { ...proofOptions, proofValue: signature } };
+  }
+
+  // Verifier side: the request must be open, the proof bound to its challenge and
+  // domain, every attestation valid and about the holder, and every type covered
+  async verifyPresentation(presentation: VerifiablePresentation): Promise<PresentationVerificationResult> {
+    let request: PresentationRequest;
+    try {
+      request = await this.getRequest(presentation.requestId);
+    } catch {
+      return { valid: false, errors: ['Presentation request not found'] };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (request.expiresAt < new Date()) {
+      errors.push('Presentation request has expired');
+    }
+    if (request.fulfilledAt) {
+      errors.push('Presentation request has already been fulfilled');
+    }
+
+    const { proof } = presentation;
+    if (proof.proofPurpose !== 'authentication') {
+      errors.push(`Unexpected proof purpose: ${proof.proofPurpose}`);
+    }
+    if (proof.challenge !== request.challenge) {
+      errors.push('Proof is not bound to the request challenge');
+    }
+    if (proof.domain !== request.domain) {
+      errors.push('Proof is not bound to the request domain');
+    }
+
+    const signatureError = await this.checkHolderSignature(presentation);
+    if (signatureError) {
+      errors.push(signatureError);
+    }
+
+    // Attestations that fail are left out when checking which types are covered
+    const results: Record<string, AttestationVerificationResult> = {};
+    const accepted: Attestation[] = [];
+    for (const attestation of presentation.attestations) {
+      const result = await attestationService.verifyPresentedAttestation(attestation);
+      if (attestation.subject !== presentation.holder) {
+        result.valid = false;
+        result.errors = [...(result.errors || []), 'Attestation subject is not the holder'];
+      }
+
+      results[attestation.id] = result;
+      if (result.valid) {
+        accepted.push(attestation);
+      } else {
+        errors.push(`Attestation ${attestation.id} is invalid`);
+      }
+    }
+
+    const unmetTypes = this.findUnmetTypes(request, accepted);
+    if (unmetTypes.length > 0) {
+      errors.push(`No valid attestation from a trusted issuer for: ${unmetTypes.join(', ')}`);
+    }
+
+    if (errors.length === 0 && !(await this.markFulfilled(request.id, presentation.holder))) {
+      errors.push('Presentation request has already been fulfilled');
+    }
+
+    if (errors.length === 0) {
+      logger.info('Presentation verified', { requestId: request.id, holder: presentation.holder });
+    } else {
+      warnings.push(...Object.values(results).flatMap((result) => result.warnings || []));
+    }
+
+    return {
+      valid: errors.length === 0,
+      presentation,
+      attestations: results,
+      unmetTypes: unmetTypes.length > 0 ? unmetTypes : undefined,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? Array.from(new Set(warnings)) : undefined
+    };
+  }
+
+  private async selectAttestations(holderDid: string, request: PresentationRequest): Promise<Attestation[]> {
+    const selected: Attestation[] = [];
+    for (const type of request.attestationTypes) {
+      const { attestations } = await attestationService.listAttestations(
+        { subject: holderDid, type, validOnly: true },
+        { page: 1, limit: 100 }
+      );
+      const match = attestations.find((attestation) => this.isTrusted(request, attestation));
+      if (match) {
+        selected.push(match);
+      }
+    }
+    return selected;
+  }
+
+  private findUnmetTypes(request: PresentationRequest, attestations: Attestation[]): AttestationType[] {
+    return request.attestationTypes.filter(
+      (type) => !attestations.some((attestation) => attestation.type === type && this.isTrusted(request, attestation))
+    );
+  }
+
+  private isTrusted(request: PresentationRequest, attestation: Attestation): boolean {
+    return !request.trustedIssuers || request.trustedIssuers.includes(attestation.issuer);
+  }
+
+  private async checkHolderSignature(presentation: VerifiablePresentation): Promise<string | undefined> {
+    const { proof: { proofValue, ...proofOptions }, ...unsigned } = presentation;
+
+    const method = await didService.getVerificationMethodAt(
+      presentation.holder,
+      proofOptions.verificationMethod,
+      new Date(proofOptions.created),
+      'authentication'
+    );
+    if (!method) {
+      return 'Proof key was not an authentication key of the holder when signed';
+    }
+
+    return verifyWithVerificationMethod(
+      method,
+      this.signingInput(unsigned, proofOptions),
+      proofValue,
+      proofOptions.type
+    )
+      ? undefined
+      : 'Holder signature is invalid';
+  }
+
+  // Dates are serialized first so holder and verifier canonicalize the same JSON
+  private signingInput(
+    presentation: Omit<VerifiablePresentation, 'proof'>,
+    proofOptions: Omit<AttestationProof, 'proofValue'>
+  ): string {
+    return canonicalize(JSON.parse(JSON.stringify({ ...presentation, proof: proofOptions })));
+  }
+
+  private async markFulfilled(requestId: string, holderDid: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE presentation_requests SET fulfilled_at = CURRENT_TIMESTAMP, fulfilled_by = $2
+       WHERE id = $1 AND fulfilled_at IS NULL`,
+      [requestId, holderDid]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  private mapRequestFromDb(row: Record<string, unknown>): PresentationRequest {
+    return {
+      id: row.id as string,
+      verifier: row.verifier as string,
+      attestationTypes: row.attestation_types as AttestationType[],
+      trustedIssuers: (row.trusted_issuers as string[] | null) ?? undefined,
+      challenge: row.challenge as string,
+      domain: row.domain as string,
+      createdAt: new Date(row.created_at as Date),
+      expiresAt: new Date(row.expires_at as Date),
+      fulfilledAt: row.fulfilled_at ? new Date(row.fulfilled_at as Date) : undefined,
+      fulfilledBy: (row.fulfilled_by as string | null) ?? undefined
+    };
+  }
+}
+
+export const presentationService = new PresentationService();
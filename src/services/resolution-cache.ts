@@ -0,0 +1,146 @@
+import { createLogger } from '../utils/logger';
+import { parseDuration } from '../utils';
+import {
+  DIDResolutionResult,
+  ResolutionCacheEntry,
+  ResolutionCacheStats,
+  ResolutionError
+} from '../models/identity';
+
+const logger = createLogger('resolution-cache');
+
+interface CachedResolution {
+  did: string;
+  result: DIDResolutionResult;
+  storedAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+// Results worth remembering; anything else (bad input, driver failures) is retried
+const CACHEABLE_ERRORS: Array<ResolutionError | undefined> = [undefined, ResolutionError.NOT_FOUND];
+
+export class ResolutionCache {
+  private entries: Map<string, CachedResolution> = new Map();
+  private defaultTtl: number;
+  private negativeTtl: number;
+  private maxEntries: number;
+  private methodTtls: Map<string, number> = new Map();
+  private stats = { hits: 0, misses: 0, negativeHits: 0, evictions: 0, invalidations: 0 };
+
+  constructor() {
+    this.defaultTtl = parseDuration(process.env.DID_CACHE_TTL || '5m');
+    this.negativeTtl = parseDuration(process.env.DID_CACHE_NEGATIVE_TTL || '30s');
+    this.maxEntries = parseInt(process.env.DID_CACHE_MAX_ENTRIES || '1000', 10);
+
+    // DID_CACHE_TTL_<METHOD>, e.g. DID_CACHE_TTL_ETHR=15m; 0ms disables caching for a method
+    for (const [name, value] of Object.entries(process.env)) {
+      const match = /^DID_CACHE_TTL_([A-Z0-9]+)$/.exec(name);
+      if (match && value) {
+        this.methodTtls.set(match[1].toLowerCase(), parseDuration(value));
+      }
+    }
+  }
+
+  get(key: string): DIDResolutionResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.stats.misses++;
+      return undefined;
+    }
+
+    entry.hits++;
+    this.stats.hits++;
+    if (entry.result.didResolutionMetadata.error) {
+      this.stats.negativeHits++;
+    }
+    // Copies in and out, so callers that edit a result never change the cache
+    return structuredClone(entry.result);
+  }
+
+  set(did: string, key: string, result: DIDResolutionResult): void {
+    if (!CACHEABLE_ERRORS.includes(result.didResolutionMetadata.error)) {
+      return;
+    }
+
+    const ttl = result.didResolutionMetadata.error
+      ? this.negativeTtl
+      : this.methodTtls.get(did.split(':')[1]) ?? this.defaultTtl;
+    if (ttl <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+      this.stats.evictions++;
+    }
+
+    const now = Date.now();
+    this.entries.set(key, {
+      did,
+      result: structuredClone(result),
+      storedAt: now,
+      expiresAt: now + ttl,
+      hits: 0
+    });
+  }
+
+  // Drops every cached version of a DID
+  invalidate(did: string): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.did === did) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.stats.invalidations += removed;
+      logger.debug('Resolution cache invalidated', { did, removed });
+    }
+    return removed;
+  }
+
+  flush(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    this.stats.invalidations += removed;
+    logger.info('Resolution cache flushed', { removed });
+    return removed;
+  }
+
+  getStats(): ResolutionCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0,
+      defaultTtlMs: this.defaultTtl,
+      negativeTtlMs: this.negativeTtl,
+      methodTtlsMs: Object.fromEntries(this.methodTtls)
+    };
+  }
+
+  listEntries(): ResolutionCacheEntry[] {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.expiresAt > now)
+      .map(([key, entry]) => ({
+        key,
+        did: entry.did,
+        error: entry.result.didResolutionMetadata.error,
+        hits: entry.hits,
+        storedAt: new Date(entry.storedAt).toISOString(),
+        expiresAt: new Date(entry.expiresAt).toISOString()
+      }));
+  }
+}
+
+export const resolutionCache = new ResolutionCache();
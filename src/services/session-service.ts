@@ -0,0 +1,214 @@
+import jwt from 'jsonwebtoken';
+import { createLogger } from '../utils/logger';
+import { query } from '../utils/db';
+import { didService } from './did-service';
+import { identityManager } from './identity-manager';
+import { AgentStatus } from '../models/agent';
+import { AgentSession, OwnershipProof, SessionTokens } from '../models/identity';
+import { generateId, generateNonce, hashData } from '../utils/crypto';
+import { parseDuration } from '../utils';
+import { getHubDomain } from '../utils/did-web';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '../utils/errors';
+
+const logger = createLogger('session-service');
+
+const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
+
+export interface SessionTokenPayload {
+  sub: string;
+  agentId: string;
+  sid: string;
+  typ: 'session';
+}
+
+export class SessionService {
+  private accessTokenTtl: number;
+  private refreshTokenTtl: number;
+
+  constructor() {
+    this.accessTokenTtl = parseDuration(process.env.JWT_EXPIRES_IN || '15m');
+    this.refreshTokenTtl = parseDuration(process.env.REFRESH_TOKEN_EXPIRES_IN || '7d');
+  }
+
+  // Only challenges addressed to the hub can open a session, so a proof made
+  // for another relying party cannot be replayed here
+  async signIn(did: string, proof: OwnershipProof): Promise<SessionTokens> {
+    const verification = await didService.verifyDIDOwnership(did, proof, getHubDomain());
+    if (!verification.valid) {
+      throw new AuthenticationError(`DID authentication failed: ${verification.reason}`);
+    }
+
+    const agent = await identityManager.getAgentByDID(did);
+    if (agent.status !== AgentStatus.ACTIVE) {
+      throw new AuthorizationError('Agent is not active');
+    }
+
+    const now = new Date();
+    const refreshToken = generateNonce();
+    const session: AgentSession = {
+      id: generateId(),
+      agentId: agent.id,
+      did,
+      keyId: verification.keyId,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.refreshTokenTtl)
+    };
+
+    await query(
+      `INSERT INTO agent_sessions
+       (id, agent_id, did, key_id, refresh_token_hash, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        session.id,
+        session.agentId,
+        session.did,
+        session.keyId,
+        hashData(refreshToken),
+        session.createdAt,
+        session.expiresAt
+      ]
+    );
+
+    logger.info('Agent signed in', { agentId: agent.id, did, sessionId: session.id });
+
+    return this.issueTokens(session, refreshToken);
+  }
+
+  // Refresh tokens are single-use: the lookup and the rotation are one statement,
+  // so of two concurrent requests with the same token only one gets a row back
+  async refresh(refreshToken: string): Promise<SessionTokens> {
+    const nextRefreshToken = generateNonce();
+    const result = await query<Record<string, unknown>>(
+      `UPDATE agent_sessions
+       SET refresh_token_hash = $1, last_refreshed_at = CURRENT_TIMESTAMP
+       WHERE refresh_token_hash = $2
+       AND revoked_at IS NULL
+       AND expires_at > CURRENT_TIMESTAMP
+       RETURNING *`,
+      [hashData(nextRefreshToken), hashData(refreshToken)]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AuthenticationError('Invalid, expired or already used refresh token');
+    }
+
+    // The same gate as signIn: an agent suspended or revoked after signing in
+    // loses every session it holds, not just the one being refreshed
+    const session = this.mapSessionFromDb(result.rows[0]);
+    const agent = await identityManager.getAgent(session.agentId);
+    if (agent.status !== AgentStatus.ACTIVE) {
+      await this.revokeAllSessions(agent.id, 'agent_inactive');
+      throw new AuthorizationError('Agent is not active');
+    }
+
+    return this.issueTokens(session, nextRefreshToken);
+  }
+
+  async verifyAccessToken(token: string): Promise<SessionTokenPayload> {
+    const payload = jwt.verify(token, JWT_SECRET) as Partial<SessionTokenPayload>;
+
+    if (payload.typ !== 'session' || !payload.sid || !payload.sub || !payload.agentId) {
+      throw new AuthenticationError('Not a session token');
+    }
+
+    const result = await query<{ revoked_at: Date | null }>(
+      'SELECT revoked_at FROM agent_sessions WHERE id = $1',
+      [payload.sid]
+    );
+
+    if (result.rows.length === 0 || result.rows[0].revoked_at) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
+    return payload as SessionTokenPayload;
+  }
+
+  async listSessions(agentId: string): Promise<AgentSession[]> {
+    const result = await query<Record<string, unknown>>(
+      `SELECT * FROM agent_sessions
+       WHERE agent_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY created_at DESC`,
+      [agentId]
+    );
+
+    return result.rows.map((row) => this.mapSessionFromDb(row));
+  }
+
+  async revokeSession(
+    sessionId: string,
+    revokedBy: { agentId: string; isAdmin?: boolean },
+    reason: string = 'revoked'
+  ): Promise<void> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM agent_sessions WHERE id = $1',
+      [sessionId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Session', sessionId);
+    }
+
+    const session = this.mapSessionFromDb(result.rows[0]);
+    if (session.agentId !== revokedBy.agentId && !revokedBy.isAdmin) {
+      throw new AuthorizationError('Not authorized to revoke this session');
+    }
+
+    await query(
+      `UPDATE agent_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $1
+       WHERE id = $2 AND revoked_at IS NULL`,
+      [reason, sessionId]
+    );
+
+    logger.info('Session revoked', { sessionId, agentId: session.agentId, reason });
+  }
+
+  async revokeAllSessions(agentId: string, reason: string = 'revoked'): Promise<number> {
+    const result = await query(
+      `UPDATE agent_sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $1
+       WHERE agent_id = $2 AND revoked_at IS NULL`,
+      [reason, agentId]
+    );
+
+    logger.info('All sessions revoked', { agentId, count: result.rowCount });
+
+    return result.rowCount || 0;
+  }
+
+  private issueTokens(session: AgentSession, refreshToken: string): SessionTokens {
+    const payload: SessionTokenPayload = {
+      sub: session.did,
+      agentId: session.agentId,
+      sid: session.id,
+      typ: 'session'
+    };
+
+    const accessToken = jwt.sign(payload, JWT_SECRET, {
+      algorithm: 'HS256',
+      expiresIn: Math.floor(this.accessTokenTtl / 1000)
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: Math.floor(this.accessTokenTtl / 1000),
+      sessionId: session.id
+    };
+  }
+
+  private mapSessionFromDb(row: Record<string, unknown>): AgentSession {
+    return {
+      id: row.id as string,
+      agentId: row.agent_id as string,
+      did: row.did as string,
+      keyId: (row.key_id as string) || undefined,
+      createdAt: new Date(row.created_at as Date),
+      expiresAt: new Date(row.expires_at as Date),
+      lastRefreshedAt: row.last_refreshed_at ? new Date(row.last_refreshed_at as Date) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at as Date) : undefined,
+      revokedReason: (row.revoked_reason as string) || undefined
+    };
+  }
+}
+
+export const sessionService = new SessionService();
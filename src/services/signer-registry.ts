@@ -0,0 +1,234 @@
+import { createLogger } from '../utils/logger';
+import { query } from '../utils/db';
+import { didService } from './did-service';
+import { keyCustodyService } from './key-custody-service';
+import { Signer, InProcessSigner, FileKeystoreSigner, Pkcs11Signer } from './signers';
+import {
+  SignatureResult,
+  SignerBackend,
+  SignerBinding,
+  VerificationMethod
+} from '../models/identity';
+import { generateNonce } from '../utils/crypto';
+import { getSuiteForVerificationMethod, verifyWithVerificationMethod } from '../utils/crypto-suites';
+import { DIDError, NotFoundError, ValidationError } from '../utils/errors';
+
+const logger = createLogger('signer-registry');
+
+// Keys without a binding are held in hub custody
+const DEFAULT_BACKEND: SignerBackend = 'in-process';
+
+export class SignerRegistry {
+  private signers: Map<SignerBackend, Signer> = new Map();
+
+  constructor(signers: Signer[] = [new InProcessSigner(), new FileKeystoreSigner(), new Pkcs11Signer()]) {
+    signers.forEach((signer) => this.register(signer));
+  }
+
+  register(signer: Signer): void {
+    this.signers.set(signer.backend, signer);
+  }
+
+  getSigner(backend: SignerBackend): Signer {
+    const signer = this.signers.get(backend);
+    if (!signer) {
+      throw new DIDError(`Signer backend not registered: ${backend}`, 'SIGNER_UNAVAILABLE');
+    }
+    if (!signer.isAvailable()) {
+      throw new DIDError(`Signer backend is not configured: ${backend}`, 'SIGNER_UNAVAILABLE');
+    }
+    return signer;
+  }
+
+  listBackends(): Array<{ backend: SignerBackend; available: boolean }> {
+    return Array.from(this.signers.values()).map((signer) => ({
+      backend: signer.backend,
+      available: signer.isAvailable()
+    }));
+  }
+
+  async sign(did: string, method: VerificationMethod, data: string): Promise<SignatureResult> {
+    const suite = getSuiteForVerificationMethod(method);
+    if (!suite) {
+      throw new DIDError(`No crypto suite for ${method.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const binding = await this.findBinding(did, method.id);
+    const backend = binding?.backend || DEFAULT_BACKEND;
+
+    let signature: string;
+    try {
+      signature = await this.getSigner(backend).sign(
+        { did, keyId: method.id, keyRef: binding?.keyRef, suite },
+        data
+      );
+    } catch (error) {
+      // Agents registered before key custody never had their private key stored
+      if (!binding && (error as DIDError).code === 'KEY_NOT_IN_CUSTODY') {
+        throw new DIDError(
+          `${method.id} has no private key in hub custody. Import it with PUT /api/v1/agents/:id/custody, ` +
+            'bind it to a signer backend, or rotate to a hub-generated key',
+          'KEY_NOT_IN_CUSTODY'
+        );
+      }
+      throw error;
+    }
+
+    return {
+      signature,
+      keyId: method.id,
+      backend,
+      proofType: suite.proofType,
+      algorithm: suite.algorithm
+    };
+  }
+
+  // Binding is only accepted once the backend proves it holds the method's private key
+  async bindKey(
+    did: string,
+    keyId: string,
+    backend: SignerBackend,
+    keyRef?: string
+  ): Promise<SignerBinding> {
+    const method = await didService.getVerificationMethodAt(did, keyId);
+    if (!method) {
+      throw new NotFoundError('Verification method', keyId);
+    }
+
+    const suite = getSuiteForVerificationMethod(method);
+    if (!suite) {
+      throw new DIDError(`No crypto suite for ${method.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const probe = `signer-binding:${keyId}:${generateNonce()}`;
+    const signature = await this.getSigner(backend).sign({ did, keyId, keyRef, suite }, probe);
+    if (!verifyWithVerificationMethod(method, probe, signature)) {
+      throw new DIDError(
+        `Key held by the ${backend} backend does not match ${keyId}`,
+        'SIGNER_KEY_MISMATCH'
+      );
+    }
+
+    const result = await query<Record<string, unknown>>(
+      `INSERT INTO signer_bindings (key_id, did, backend, key_ref)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (did, key_id) DO UPDATE
+       SET backend = EXCLUDED.backend, key_ref = EXCLUDED.key_ref, created_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [this.absoluteKeyId(did, keyId), did, backend, keyRef || null]
+    );
+
+    logger.info('Signer bound', { did, keyId, backend });
+
+    return this.mapBindingFromDb(result.rows[0]);
+  }
+
+  // Takes custody of a private key the agent holds itself, accepted only if it
+  // signs for the verification method
+  async importCustodyKey(did: string, keyId: string, privateKey: string): Promise<void> {
+    const method = await didService.getVerificationMethodAt(did, keyId);
+    if (!method) {
+      throw new NotFoundError('Verification method', keyId);
+    }
+
+    const suite = getSuiteForVerificationMethod(method);
+    if (!suite) {
+      throw new DIDError(`No crypto suite for ${method.type} keys`, 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const rawKey = privateKey.replace('0x', '');
+    const probe = `custody-import:${keyId}:${generateNonce()}`;
+    let signature: string;
+    try {
+      signature = suite.sign(probe, rawKey);
+    } catch {
+      throw new ValidationError(`Not a valid ${suite.keyType} private key`);
+    }
+    if (!verifyWithVerificationMethod(method, probe, signature)) {
+      throw new DIDError(`Private key does not match ${keyId}`, 'SIGNER_KEY_MISMATCH');
+    }
+
+    await keyCustodyService.replaceKey(did, method.id, {
+      id: method.id,
+      type: suite.keyType,
+      publicKey: suite.getPublicKey(rawKey),
+      privateKey: rawKey
+    });
+
+    logger.info('Key imported into custody', { did, keyId });
+  }
+
+  async unbindKey(did: string, keyId: string): Promise<void> {
+    const result = await query(
+      'DELETE FROM signer_bindings WHERE did = $1 AND key_id = $2',
+      [did, this.absoluteKeyId(did, keyId)]
+    );
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Signer binding', keyId);
+    }
+
+    logger.info('Signer unbound', { did, keyId });
+  }
+
+  // Keyed by DID too: relative IDs such as did:peer's #key-1 repeat across DIDs
+  async getBinding(did: string, keyId: string): Promise<SignerBinding | null> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM signer_bindings WHERE did = $1 AND key_id = $2',
+      [did, this.absoluteKeyId(did, keyId)]
+    );
+    return result.rows.length > 0 ? this.mapBindingFromDb(result.rows[0]) : null;
+  }
+
+  async listBindings(did: string): Promise<SignerBinding[]> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM signer_bindings WHERE did = $1 ORDER BY created_at',
+      [did]
+    );
+    return result.rows.map((row) => this.mapBindingFromDb(row));
+  }
+
+  // A key with a binding must never fall back to hub custody, so a binding that
+  // names the same key in another form fails closed rather than being skipped
+  private async findBinding(did: string, keyId: string): Promise<SignerBinding | null> {
+    const binding = await this.getBinding(did, keyId);
+    if (binding) {
+      return binding;
+    }
+
+    const fragment = keyId.slice(keyId.indexOf('#'));
+    const unmatched = (await this.listBindings(did)).find(
+      (candidate) => candidate.keyId.slice(candidate.keyId.indexOf('#')) === fragment
+    );
+    if (unmatched) {
+      throw new DIDError(
+        `Signer binding ${unmatched.keyId} cannot be matched to ${keyId}`,
+        'SIGNER_BINDING_MISMATCH'
+      );
+    }
+    return null;
+  }
+
+  // Bindings are stored under absolute IDs, the form SignerBindingSchema requires
+  private absoluteKeyId(did: string, keyId: string): string {
+    return keyId.startsWith('#') ? `${did}${keyId}` : keyId;
+  }
+
+  close(): void {
+    const pkcs11 = this.signers.get('pkcs11');
+    if (pkcs11 instanceof Pkcs11Signer) {
+      pkcs11.close();
+    }
+  }
+
+  private mapBindingFromDb(row: Record<string, unknown>): SignerBinding {
+    return {
+      keyId: row.key_id as string,
+      did: row.did as string,
+      backend: row.backend as SignerBackend,
+      keyRef: (row.key_ref as string) || undefined,
+      createdAt: new Date(row.created_at as Date)
+    };
+  }
+}
+
+export const signerRegistry = new SignerRegistry();
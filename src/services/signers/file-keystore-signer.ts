@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes, scryptSync } from 'crypto';
+import { createLogger } from '../../utils/logger';
+import { encrypt, decrypt } from '../../utils/crypto';
+import { SuiteKeyType, getSuite } from '../../utils/crypto-suites';
+import { DIDError } from '../../utils/errors';
+import { Signer, SignerKey } from './signer';
+
+const logger = createLogger('file-keystore-signer');
+
+interface KeystoreEntry {
+  version: 1;
+  keyRef: string;
+  keyType: SuiteKeyType;
+  publicKey: string;
+  salt: string;
+  encryptedPrivateKey: string;
+}
+
+export interface FileKeystoreOptions {
+  directory?: string;
+  passphrase?: string;
+}
+
+// One encrypted JSON file per key, each sealed with a passphrase-derived key
+export class FileKeystoreSigner implements Signer {
+  readonly backend = 'file' as const;
+  private directory: string;
+  private passphrase?: string;
+
+  constructor(options: FileKeystoreOptions = {}) {
+    this.directory = options.directory || process.env.KEYSTORE_DIR || './keystore';
+    this.passphrase = options.passphrase || process.env.KEYSTORE_PASSPHRASE;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.passphrase) || process.env.NODE_ENV !== 'production';
+  }
+
+  async importKey(
+    keyRef: string,
+    privateKey: string,
+    keyType: SuiteKeyType = 'secp256k1'
+  ): Promise<string> {
+    let publicKey: string;
+    try {
+      publicKey = getSuite(keyType).getPublicKey(privateKey);
+    } catch {
+      throw new DIDError(`Invalid ${keyType} private key`, 'INVALID_KEY');
+    }
+
+    const salt = randomBytes(16).toString('hex');
+    const entry: KeystoreEntry = {
+      version: 1,
+      keyRef,
+      keyType,
+      publicKey,
+      salt,
+      encryptedPrivateKey: encrypt(privateKey.replace('0x', ''), this.deriveKey(salt))
+    };
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await fs.writeFile(this.entryPath(keyRef), JSON.stringify(entry, null, 2), {
+      mode: 0o600,
+      flag: 'wx'
+    });
+
+    logger.info('Key imported into file keystore', { keyRef });
+
+    return entry.publicKey;
+  }
+
+  async hasKey(keyRef: string): Promise<boolean> {
+    try {
+      await fs.access(this.entryPath(keyRef));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getPublicKey(keyRef: string): Promise<string> {
+    const entry = await this.readEntry(keyRef);
+    return entry.publicKey;
+  }
+
+  async sign(key: SignerKey, data: string): Promise<string> {
+    if (!key.keyRef) {
+      throw new DIDError(`No keystore entry bound to ${key.keyId}`, 'SIGNER_KEY_NOT_FOUND');
+    }
+
+    const entry = await this.readEntry(key.keyRef);
+    if (entry.keyType !== key.suite.keyType) {
+      throw new DIDError(
+        `Keystore entry ${key.keyRef} holds a ${entry.keyType} key, not ${key.suite.keyType}`,
+        'SIGNER_KEY_MISMATCH'
+      );
+    }
+
+    const privateKey = decrypt(entry.encryptedPrivateKey, this.deriveKey(entry.salt));
+    return key.suite.sign(data, privateKey);
+  }
+
+  private async readEntry(keyRef: string): Promise<KeystoreEntry> {
+    const entryPath = this.entryPath(keyRef);
+    try {
+      const raw = await fs.readFile(entryPath, 'utf8');
+      return JSON.parse(raw) as KeystoreEntry;
+    } catch {
+      throw new DIDError(`Keystore entry not found: ${keyRef}`, 'SIGNER_KEY_NOT_FOUND');
+    }
+  }
+
+  private entryPath(keyRef: string): string {
+    // Entry names become file names, so keep them out of parent directories
+    if (!/^[A-Za-z0-9._-]+$/.test(keyRef) || keyRef.startsWith('.')) {
+      throw new DIDError(`Invalid keystore entry name: ${keyRef}`, 'INVALID_KEY_REF');
+    }
+    return path.join(this.directory, `${keyRef}.json`);
+  }
+
+  private deriveKey(salt: string): string {
+    if (!this.passphrase && process.env.NODE_ENV === 'production') {
+      throw new DIDError('KEYSTORE_PASSPHRASE is not configured', 'SIGNER_CONFIGURATION_ERROR');
+    }
+    const passphrase = this.passphrase || 'default-keystore-passphrase-change-in-production';
+    // 24 bytes encode to exactly the 32 characters the cipher key takes
+    return scryptSync(passphrase, Buffer.from(salt, 'hex'), 24).toString('base64');
+  }
+}
@@ -0,0 +1,23 @@
+import { keyCustodyService } from '../key-custody-service';
+import { DIDError } from '../../utils/errors';
+import { Signer, SignerKey } from './signer';
+
+// Keys held in hub custody, decrypted in process memory only for the signature
+export class InProcessSigner implements Signer {
+  readonly backend = 'in-process' as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async sign(key: SignerKey, data: string): Promise<string> {
+    const { signature, keyType } = await keyCustodyService.sign(key.did, data, key.keyId);
+    if (keyType !== key.suite.keyType) {
+      throw new DIDError(
+        `Custodied ${keyType} key does not match the ${key.suite.keyType} method ${key.keyId}`,
+        'SIGNER_KEY_MISMATCH'
+      );
+    }
+    return signature;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './signer';
+export * from './in-process-signer';
+export * from './file-keystore-signer';
+export * from './pkcs11-signer';
@@ -0,0 +1,164 @@
+import { createHash } from 'crypto';
+import * as pkcs11js from 'pkcs11js';
+import * as secp256k1 from 'secp256k1';
+import { createLogger } from '../../utils/logger';
+import { DIDError } from '../../utils/errors';
+import { Signer, SignerKey } from './signer';
+
+const logger = createLogger('pkcs11-signer');
+
+export interface Pkcs11SignerOptions {
+  modulePath?: string;
+  tokenLabel?: string;
+  slot?: number;
+  pin?: string;
+}
+
+// Signs with EC keys that never leave the token, e.g. an HSM or SoftHSM for local testing.
+// Keys are located by their CKA_LABEL, which is what a signer binding's keyRef holds.
+export class Pkcs11Signer implements Signer {
+  readonly backend = 'pkcs11' as const;
+  private options: Pkcs11SignerOptions;
+  private pkcs11?: pkcs11js.PKCS11;
+  private session?: pkcs11js.Handle;
+
+  constructor(options: Pkcs11SignerOptions = {}) {
+    this.options = {
+      modulePath: options.modulePath || process.env.PKCS11_MODULE,
+      tokenLabel: options.tokenLabel || process.env.PKCS11_TOKEN_LABEL,
+      slot: options.slot ?? parseInt(process.env.PKCS11_SLOT || '0', 10),
+      pin: options.pin || process.env.PKCS11_PIN
+    };
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.options.modulePath);
+  }
+
+  async sign(key: SignerKey, data: string): Promise<string> {
+    if (!key.keyRef) {
+      throw new DIDError(`No token key bound to ${key.keyId}`, 'SIGNER_KEY_NOT_FOUND');
+    }
+
+    // CKM_ECDSA covers both curves; EdDSA tokens are not supported yet
+    if (key.suite.keyType === 'Ed25519') {
+      throw new DIDError('PKCS#11 signing supports ECDSA keys only', 'UNSUPPORTED_KEY_TYPE');
+    }
+
+    const session = this.open();
+    const pkcs11 = this.pkcs11!;
+    const privateKey = this.findObject(session, pkcs11js.CKO_PRIVATE_KEY, key.keyRef);
+
+    const digest = createHash('sha256').update(data).digest();
+    pkcs11.C_SignInit(session, { mechanism: pkcs11js.CKM_ECDSA }, privateKey);
+    const signature = pkcs11.C_Sign(session, digest, Buffer.alloc(64));
+
+    // Tokens don't enforce low-S, which secp256k1 verification requires
+    return key.suite.keyType === 'secp256k1'
+      ? Buffer.from(secp256k1.signatureNormalize(Uint8Array.from(signature))).toString('hex')
+      : signature.toString('hex');
+  }
+
+  async getPublicKey(keyRef: string): Promise<string> {
+    const session = this.open();
+    const publicKey = this.findObject(session, pkcs11js.CKO_PUBLIC_KEY, keyRef);
+    const [attribute] = this.pkcs11!.C_GetAttributeValue(session, publicKey, [
+      { type: pkcs11js.CKA_EC_POINT }
+    ]);
+
+    // CKA_EC_POINT is the raw point wrapped in a DER OCTET STRING
+    const point = attribute.value as Buffer;
+    const raw = point[0] === 0x04 && point[1] === point.length - 2 ? point.subarray(2) : point;
+    return raw.toString('hex');
+  }
+
+  close(): void {
+    if (!this.pkcs11) {
+      return;
+    }
+
+    try {
+      if (this.session) {
+        this.pkcs11.C_Logout(this.session);
+        this.pkcs11.C_CloseSession(this.session);
+      }
+      this.pkcs11.C_Finalize();
+    } catch (error) {
+      logger.warn('Failed to close PKCS#11 session cleanly', { error });
+    } finally {
+      this.pkcs11.close();
+      this.pkcs11 = undefined;
+      this.session = undefined;
+    }
+  }
+
+  private open(): pkcs11js.Handle {
+    if (this.session) {
+      return this.session;
+    }
+    if (!this.options.modulePath) {
+      throw new DIDError('PKCS11_MODULE is not configured', 'SIGNER_CONFIGURATION_ERROR');
+    }
+
+    const pkcs11 = new pkcs11js.PKCS11();
+    pkcs11.load(this.options.modulePath);
+    pkcs11.C_Initialize();
+
+    try {
+      const slot = this.selectSlot(pkcs11);
+      const session = pkcs11.C_OpenSession(slot, pkcs11js.CKF_SERIAL_SESSION);
+      pkcs11.C_Login(session, pkcs11js.CKU_USER, this.options.pin);
+
+      this.pkcs11 = pkcs11;
+      this.session = session;
+      logger.info('PKCS#11 session opened', {
+        module: this.options.modulePath,
+        token: this.options.tokenLabel
+      });
+      return session;
+    } catch (error) {
+      pkcs11.C_Finalize();
+      pkcs11.close();
+      throw error;
+    }
+  }
+
+  private selectSlot(pkcs11: pkcs11js.PKCS11): pkcs11js.Handle {
+    const slots = pkcs11.C_GetSlotList(true);
+
+    // SoftHSM reassigns slot IDs on every token init, so prefer the label
+    const slot = this.options.tokenLabel
+      ? slots.find((s) => pkcs11.C_GetTokenInfo(s).label.trim() === this.options.tokenLabel)
+      : slots[this.options.slot || 0];
+
+    if (!slot) {
+      throw new DIDError(
+        `PKCS#11 token not found: ${this.options.tokenLabel || `slot ${this.options.slot}`}`,
+        'SIGNER_CONFIGURATION_ERROR'
+      );
+    }
+    return slot;
+  }
+
+  private findObject(
+    session: pkcs11js.Handle,
+    objectClass: number,
+    label: string
+  ): pkcs11js.Handle {
+    const pkcs11 = this.pkcs11!;
+    pkcs11.C_FindObjectsInit(session, [
+      { type: pkcs11js.CKA_CLASS, value: objectClass },
+      { type: pkcs11js.CKA_LABEL, value: label }
+    ]);
+
+    try {
+      const handle = pkcs11.C_FindObjects(session);
+      if (!handle) {
+        throw new DIDError(`Token key not found: ${label}`, 'SIGNER_KEY_NOT_FOUND');
+      }
+      return handle;
+    } finally {
+      pkcs11.C_FindObjectsFinal(session);
+    }
+  }
+}
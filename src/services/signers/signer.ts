@@ -0,0 +1,17 @@
+import { SignerBackend } from '../../models/identity';
+import { CryptoSuite } from '../../utils/crypto-suites';
+
+export interface SignerKey {
+  did: string;
+  keyId: string; // Fully qualified verification method ID
+  keyRef?: string;
+  suite: CryptoSuite; // Chosen from the verification method type
+}
+
+// A signing backend produces signatures in the suite's format, the same
+// format the suite's verify checks against the DID document
+export interface Signer {
+  readonly backend: SignerBackend;
+  sign(key: SignerKey, data: string): Promise<string>;
+  isAvailable(): boolean;
+}
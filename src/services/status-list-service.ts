@@ -0,0 +1,144 @@
+import type { PoolClient } from 'pg';
+import { createLogger } from '../utils/logger';
+import { query, transaction } from '../utils/db';
+import { credentialSigner } from './credential-signer';
+import {
+  BitstringStatusListEntry,
+  StatusListAllocation,
+  StatusPurpose,
+  VerifiableCredential
+} from '../models/credential';
+import { generateId } from '../utils/crypto';
+import { CREDENTIALS_V2_CONTEXT } from '../utils/credentials';
+import { STATUS_LIST_SIZE, encodeStatusList, statusListUrl, toByteaBitIndex } from '../utils/status-list';
+import { NotFoundError } from '../utils/errors';
+
+const logger = createLogger('status-list-service');
+
+// Each issuer gets its own lists, signed with its assertion key. Bits are
+// flipped in place and the list credential is re-signed on the next fetch.
+export class StatusListService {
+  // Reserves the next index in one of the issuer's lists, opening a new list once all are full
+  async allocate(
+    issuer: string,
+    purpose: StatusPurpose = 'revocation',
+    client?: PoolClient
+  ): Promise<StatusListAllocation> {
+    return this.run(client, async (db) => {
+      const reserved = await db.query(
+        `UPDATE status_lists SET next_index = next_index + 1
+         WHERE id = (
+           SELECT id FROM status_lists
+           WHERE issuer = $1 AND purpose = $2 AND next_index < size
+           ORDER BY created_at LIMIT 1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id, next_index - 1 AS index`,
+        [issuer, purpose]
+      );
+      if (reserved.rows.length > 0) {
+        return { listId: reserved.rows[0].id as string, index: reserved.rows[0].index as number };
+      }
+
+      const listId = generateId();
+      await db.query(
+        `INSERT INTO status_lists (id, issuer, purpose, size, next_index, bits)
+         VALUES ($1, $2, $3, $4, 1, $5)`,
+        [listId, issuer, purpose, STATUS_LIST_SIZE, Buffer.alloc(STATUS_LIST_SIZE / 8)]
+      );
+
+      logger.info('Status list created', { listId, issuer, purpose });
+
+      return { listId, index: 0 };
+    });
+  }
+
+  async setStatus(listId: string, index: number, value: boolean, client?: PoolClient): Promise<void> {
+    await this.run(client, async (db) => {
+      await db.query(
+        `UPDATE status_lists
+         SET bits = set_bit(bits, $2, $3), version = version + 1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [listId, toByteaBitIndex(index), value ? 1 : 0]
+      );
+    });
+
+    logger.debug('Status list bit set', { listId, index, value });
+  }
+
+  entryFor(listId: string, index: number, purpose: StatusPurpose = 'revocation'): BitstringStatusListEntry {
+    const statusListCredential = statusListUrl(listId);
+    return {
+      id: `${statusListCredential}#${index}`,
+      type: 'BitstringStatusListEntry',
+      statusPurpose: purpose,
+      statusListIndex: String(index),
+      statusListCredential
+    };
+  }
+
+  // Signed BitstringStatusListCredential for the list's current bits. A list whose
+  // issuer can no longer sign (e.g. after deactivation) keeps its last signed copy.
+  async getCredential(listId: string): Promise<VerifiableCredential> {
+    const result = await query<Record<string, unknown>>(
+      'SELECT * FROM status_lists WHERE id = $1',
+      [listId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Status list', listId);
+    }
+
+    const row = result.rows[0];
+    const signed = row.credential as VerifiableCredential | null;
+    if (signed && row.signed_version === row.version) {
+      return signed;
+    }
+
+    let credential: VerifiableCredential;
+    try {
+      credential = await this.signList(row);
+    } catch (error) {
+      if (!signed) {
+        throw error;
+      }
+      logger.warn('Serving stale status list', { listId, issuer: row.issuer, error });
+      return signed;
+    }
+
+    await query(
+      `UPDATE status_lists SET credential = $2, signed_version = $3
+       WHERE id = $1 AND (signed_version IS NULL OR signed_version < $3)`,
+      [listId, JSON.stringify(credential), row.version]
+    );
+
+    return credential;
+  }
+
+  private async signList(row: Record<string, unknown>): Promise<VerifiableCredential> {
+    const url = statusListUrl(row.id as string);
+
+    return credentialSigner.sign({
+      '@context': [CREDENTIALS_V2_CONTEXT],
+      id: url,
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: row.issuer as string,
+      validFrom: new Date().toISOString(),
+      credentialSubject: {
+        id: `${url}#list`,
+        type: 'BitstringStatusList',
+        statusPurpose: row.purpose as StatusPurpose,
+        encodedList: encodeStatusList(row.bits as Buffer)
+      }
+    });
+  }
+
+  // Joins the caller's transaction so the bit flips with the record it tracks
+  private async run<T>(
+    client: PoolClient | undefined,
+    callback: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    return client ? callback(client) : transaction(callback);
+  }
+}
+
+export const statusListService = new StatusListService();
@@ -0,0 +1,104 @@
+import {
+  Attestation,
+  AttestationClaim,
+  AttestationProof,
+  AttestationType
+} from '../models/attestation';
+import { CredentialSubject, DataIntegrityProof, VerifiableCredential } from '../models/credential';
+import { canonicalize, hashData } from './crypto';
+import { CryptoSuite } from './crypto-suites';
+
+export const CREDENTIALS_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+// Custom attestations carry only the base type
+const CREDENTIAL_TYPES: Record<AttestationType, string | undefined> = {
+  [AttestationType.IDENTITY_VERIFICATION]: 'IdentityVerificationCredential',
+  [AttestationType.CAPABILITY_AUTHORIZATION]: 'CapabilityAuthorizationCredential',
+  [AttestationType.BEHAVIOR_ASSERTION]: 'BehaviorAssertionCredential',
+  [AttestationType.TRUST_ASSERTION]: 'TrustAssertionCredential',
+  [AttestationType.COMPLETION_CERTIFICATE]: 'CompletionCertificateCredential',
+  [AttestationType.MEMBERSHIP]: 'MembershipCredential',
+  [AttestationType.CUSTOM]: undefined
+};
+
+export function credentialTypes(type: AttestationType): string[] {
+  const specific = CREDENTIAL_TYPES[type];
+  return specific ? ['VerifiableCredential', specific] : ['VerifiableCredential'];
+}
+
+export function attestationTypeOf(types: string[]): AttestationType {
+  const match = Object.entries(CREDENTIAL_TYPES).find(
+    ([, credentialType]) => credentialType && types.includes(credentialType)
+  );
+  return match ? (match[0] as AttestationType) : AttestationType.CUSTOM;
+}
+
+export function credentialIssuer(credential: VerifiableCredential): string {
+  return typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+}
+
+// Each claim becomes a subject property; repeated claim types collect into an array
+export function toCredential(attestation: Attestation): VerifiableCredential {
+  const credentialSubject: CredentialSubject = { id: attestation.subject };
+  for (const claim of attestation.claims) {
+    const existing = credentialSubject[claim.type];
+    credentialSubject[claim.type] = existing === undefined
+      ? claim.value
+      : [...(Array.isArray(existing) ? existing : [existing]), claim.value];
+  }
+
+  return {
+    '@context': [CREDENTIALS_V2_CONTEXT],
+    id: attestation.id,
+    type: credentialTypes(attestation.type),
+    issuer: attestation.issuer,
+    validFrom: attestation.issuedAt.toISOString(),
+    ...(attestation.expiresAt && { validUntil: attestation.expiresAt.toISOString() }),
+    credentialSubject,
+    ...(attestation.credentialStatus && { credentialStatus: attestation.credentialStatus })
+  };
+}
+
+export function claimsFromSubject(subject: CredentialSubject, issuer: string): AttestationClaim[] {
+  return Object.entries(subject)
+    .filter(([property]) => property !== 'id')
+    .map(([type, value]) => ({ type, value, issuer }));
+}
+
+export function toAttestation(
+  credential: VerifiableCredential,
+  id: string,
+  proof: AttestationProof
+): Attestation {
+  const issuer = credentialIssuer(credential);
+  return {
+    id,
+    type: attestationTypeOf(credential.type),
+    issuer,
+    subject: credential.credentialSubject.id,
+    claims: claimsFromSubject(credential.credentialSubject, issuer),
+    issuedAt: new Date(credential.validFrom || proof.created),
+    expiresAt: credential.validUntil ? new Date(credential.validUntil) : undefined,
+    proof
+  };
+}
+
+// DataIntegrityProof with the suite's cryptosuite, or the suite's own proof type
+// for keys no JCS cryptosuite covers
+export function credentialProofType(suite: CryptoSuite): Pick<DataIntegrityProof, 'type' | 'cryptosuite'> {
+  return suite.cryptosuite
+    ? { type: 'DataIntegrityProof', cryptosuite: suite.cryptosuite }
+    : { type: suite.proofType as DataIntegrityProof['type'] };
+}
+
+// The *-jcs cryptosuites' hashing step: sha256 of the canonical proof options
+// followed by sha256 of the canonical credential, passed hex-encoded to the
+// hub's signing suites
+export function proofSigningInput(
+  credential: VerifiableCredential,
+  proof: Omit<DataIntegrityProof, 'proofValue'>
+): string {
+  const { proof: _proof, ...unsecured } = credential;
+  const proofConfig = { ...proof, '@context': credential['@context'] };
+  return hashData(canonicalize(proofConfig)) + hashData(canonicalize(unsecured));
+}
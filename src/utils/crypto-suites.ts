@@ -0,0 +1,254 @@
+import {
+  ECDH,
+  createECDH,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  JsonWebKey
+} from 'crypto';
+import * as secp256k1 from 'secp256k1';
+import { VerificationMethod } from '../models/identity';
+import { generateKeyPair, generateEd25519KeyPair, signData, verifySignature } from './crypto';
+import { getPublicKeyHex } from './did-key';
+import {
+  MULTICODEC,
+  addMulticodecPrefix,
+  decodeMultibase,
+  encodeMultibase,
+  splitMulticodec
+} from './multibase';
+
+export type SuiteKeyType = 'secp256k1' | 'Ed25519' | 'P-256';
+
+export type JWSAlgorithm = 'ES256K' | 'EdDSA' | 'ES256';
+
+// Everything the hub needs to know to issue and check proofs for one key type.
+// Keys and signatures are hex; ECDSA suites sign sha256(data) as raw r||s.
+export interface CryptoSuite {
+  keyType: SuiteKeyType;
+  algorithm: JWSAlgorithm;
+  proofType: string;
+  // Data Integrity cryptosuite used for W3C credentials; unset for keys no
+  // standard JCS cryptosuite covers
+  cryptosuite?: string;
+  verificationMethodType: string;
+  verificationMethodTypes: string[]; // Every method type this suite can verify
+  context: string;
+  multicodec: number;
+  generateKeyPair(): { publicKey: string; privateKey: string };
+  getPublicKey(privateKey: string): string;
+  sign(data: string, privateKey: string): string;
+  verify(data: string, signature: string, publicKey: string): boolean;
+}
+
+// Fixed DER headers that wrap raw Ed25519 keys for node's crypto module
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function toBuffer(hex: string): Buffer {
+  return Buffer.from(hex.replace('0x', ''), 'hex');
+}
+
+function ed25519PrivateKey(privateKey: string) {
+  return createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, toBuffer(privateKey)]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+}
+
+function p256Jwk(publicKey: string, privateKey?: string): JsonWebKey {
+  const point = ECDH.convertKey(toBuffer(publicKey), 'prime256v1', undefined, undefined, 'uncompressed') as Buffer;
+  return {
+    kty: 'EC',
+    crv: 'P-256',
+    x: point.subarray(1, 33).toString('base64url'),
+    y: point.subarray(33).toString('base64url'),
+    ...(privateKey && { d: toBuffer(privateKey).toString('base64url') })
+  };
+}
+
+const secp256k1Suite: CryptoSuite = {
+  keyType: 'secp256k1',
+  algorithm: 'ES256K',
+  proofType: 'EcdsaSecp256k1Signature2019',
+  // ecdsa-jcs-2019 only covers P-256 and P-384; credentials carry proofType instead
+  verificationMethodType: 'EcdsaSecp256k1VerificationKey2019',
+  verificationMethodTypes: ['EcdsaSecp256k1VerificationKey2019', 'EcdsaSecp256k1RecoveryMethod2020'],
+  context: 'https://w3id.org/security/suites/secp256k1-2019/v1',
+  multicodec: MULTICODEC.SECP256K1_PUB,
+  generateKeyPair: () => generateKeyPair(),
+  getPublicKey: (privateKey) =>
+    Buffer.from(secp256k1.publicKeyCreate(toBuffer(privateKey))).toString('hex'),
+  sign: (data, privateKey) => signData(data, privateKey),
+  verify: (data, signature, publicKey) => verifySignature(data, signature, publicKey)
+};
+
+const ed25519Suite: CryptoSuite = {
+  keyType: 'Ed25519',
+  algorithm: 'EdDSA',
+  proofType: 'Ed25519Signature2020',
+  cryptosuite: 'eddsa-jcs-2022',
+  verificationMethodType: 'Ed25519VerificationKey2020',
+  verificationMethodTypes: ['Ed25519VerificationKey2020', 'Ed25519VerificationKey2018'],
+  context: 'https://w3id.org/security/suites/ed25519-2020/v1',
+  multicodec: MULTICODEC.ED25519_PUB,
+  generateKeyPair: () => generateEd25519KeyPair(),
+  getPublicKey: (privateKey) => {
+    const jwk = createPublicKey(ed25519PrivateKey(privateKey)).export({ format: 'jwk' });
+    return Buffer.from(jwk.x as string, 'base64url').toString('hex');
+  },
+  sign: (data, privateKey) =>
+    sign(null, Buffer.from(data), ed25519PrivateKey(privateKey)).toString('hex'),
+  verify: (data, signature, publicKey) => {
+    try {
+      const key = createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, toBuffer(publicKey)]),
+        format: 'der',
+        type: 'spki'
+      });
+      return verify(null, Buffer.from(data), key, toBuffer(signature));
+    } catch {
+      return false;
+    }
+  }
+};
+
+const p256Suite: CryptoSuite = {
+  keyType: 'P-256',
+  algorithm: 'ES256',
+  proofType: 'EcdsaSecp256r1Signature2019',
+  cryptosuite: 'ecdsa-jcs-2019',
+  verificationMethodType: 'Multikey',
+  verificationMethodTypes: ['EcdsaSecp256r1VerificationKey2019'],
+  context: 'https://w3id.org/security/multikey/v1',
+  multicodec: MULTICODEC.P256_PUB,
+  generateKeyPair: () => {
+    const ecdh = createECDH('prime256v1');
+    ecdh.generateKeys();
+    return {
+      privateKey: ecdh.getPrivateKey('hex').padStart(64, '0'),
+      publicKey: ecdh.getPublicKey('hex', 'compressed')
+    };
+  },
+  getPublicKey: (privateKey) => {
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(toBuffer(privateKey));
+    return ecdh.getPublicKey('hex', 'compressed');
+  },
+  sign: (data, privateKey) => {
+    const key = createPrivateKey({
+      key: p256Jwk(p256Suite.getPublicKey(privateKey), privateKey),
+      format: 'jwk'
+    });
+    return sign('sha256', Buffer.from(data), { key, dsaEncoding: 'ieee-p1363' }).toString('hex');
+  },
+  verify: (data, signature, publicKey) => {
+    try {
+      const key = createPublicKey({ key: p256Jwk(publicKey), format: 'jwk' });
+      return verify(
+        'sha256',
+        Buffer.from(data),
+        { key, dsaEncoding: 'ieee-p1363' },
+        toBuffer(signature)
+      );
+    } catch {
+      return false;
+    }
+  }
+};
+
+const SUITES: Record<SuiteKeyType, CryptoSuite> = {
+  secp256k1: secp256k1Suite,
+  Ed25519: ed25519Suite,
+  'P-256': p256Suite
+};
+
+const JWK_CURVES: Record<string, SuiteKeyType> = {
+  secp256k1: 'secp256k1',
+  Ed25519: 'Ed25519',
+  'P-256': 'P-256'
+};
+
+export function listSuites(): CryptoSuite[] {
+  return Object.values(SUITES);
+}
+
+export function getSuite(keyType: SuiteKeyType): CryptoSuite {
+  const suite = SUITES[keyType];
+  if (!suite) {
+    throw new Error(`Unsupported key type: ${keyType}`);
+  }
+  return suite;
+}
+
+export function getSuiteByProofType(proofType: string): CryptoSuite | undefined {
+  return listSuites().find((suite) => suite.proofType === proofType);
+}
+
+export function getSuiteByAlgorithm(algorithm: string): CryptoSuite | undefined {
+  return listSuites().find((suite) => suite.algorithm === algorithm);
+}
+
+// Picks the suite from the method type; generic types fall back to the key encoding
+export function getSuiteForVerificationMethod(method: VerificationMethod): CryptoSuite | undefined {
+  const byType = listSuites().find((suite) => suite.verificationMethodTypes.includes(method.type));
+  if (byType) {
+    return byType;
+  }
+
+  if (method.publicKeyMultibase) {
+    try {
+      const { code } = splitMulticodec(decodeMultibase(method.publicKeyMultibase));
+      return listSuites().find((suite) => suite.multicodec === code);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (method.publicKeyJwk?.crv) {
+    const keyType = JWK_CURVES[method.publicKeyJwk.crv];
+    return keyType ? SUITES[keyType] : undefined;
+  }
+
+  return undefined;
+}
+
+export function buildVerificationMethod(
+  suite: CryptoSuite,
+  id: string,
+  controller: string,
+  publicKey: string
+): VerificationMethod {
+  // secp256k1 methods keep the hex encoding the rest of the hub already reads
+  if (suite.keyType === 'secp256k1') {
+    return { id, type: suite.verificationMethodType, controller, publicKeyHex: publicKey.replace('0x', '') };
+  }
+
+  const keyBytes = suite.keyType === 'P-256'
+    ? (ECDH.convertKey(toBuffer(publicKey), 'prime256v1', undefined, undefined, 'compressed') as Buffer)
+    : toBuffer(publicKey);
+
+  return {
+    id,
+    type: suite.verificationMethodType,
+    controller,
+    publicKeyMultibase: encodeMultibase(addMulticodecPrefix(suite.multicodec, keyBytes))
+  };
+}
+
+// A proof type naming a different suite than the key's is rejected outright
+export function verifyWithVerificationMethod(
+  method: VerificationMethod,
+  data: string,
+  signature: string,
+  proofType?: string
+): boolean {
+  const suite = getSuiteForVerificationMethod(method);
+  const publicKey = getPublicKeyHex(method);
+  if (!suite || !publicKey || (proofType && proofType !== suite.proofType)) {
+    return false;
+  }
+  return suite.verify(data, signature.replace('0x', ''), publicKey);
+}
@@ -1,6 +1,13 @@
-import { createHash, randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import {
+  createHash,
+  randomBytes,
+  createCipheriv,
+  createDecipheriv,
+  generateKeyPairSync
+} from 'crypto';
 import { ethers } from 'ethers';
 import * as secp256k1 from 'secp256k1';
+import { createDIDKey } from './did-key';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
@@ -16,6 +23,28 @@ export function generateKeyPair(): { publicKey: string; privateKey: string } {
   };
 }
 
+export function generateEd25519KeyPair(): { publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk = privateKey.export({ format: 'jwk' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+
+  return {
+    privateKey: Buffer.from(jwk.d as string, 'base64url').toString('hex'),
+    publicKey: Buffer.from(publicJwk.x as string, 'base64url').toString('hex')
+  };
+}
+
+export function generateX25519KeyPair(): { publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = generateKeyPairSync('x25519');
+  const jwk = privateKey.export({ format: 'jwk' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+
+  return {
+    privateKey: Buffer.from(jwk.d as string, 'base64url').toString('hex'),
+    publicKey: Buffer.from(publicJwk.x as string, 'base64url').toString('hex')
+  };
+}
+
 export function generateEthereumWallet(): {
   address: string;
   publicKey: string;
@@ -91,8 +120,8 @@ export function decrypt(encryptedData: string, key: string): string {
 export function signData(data: string, privateKey: string): string {
   const messageHash = createHash('sha256').update(data).digest();
   const privateKeyBytes = Buffer.from(privateKey.replace('0x', ''), 'hex');
-  const signature = secp256k1.sign(messageHash, privateKeyBytes);
-  return Buffer.from(signature.signature).toString('hex');
+  const { signature } = secp256k1.ecdsaSign(messageHash, privateKeyBytes);
+  return Buffer.from(signature).toString('hex');
 }
 
 export function verifySignature(
@@ -104,7 +133,7 @@ export function verifySignature(
     const messageHash = createHash('sha256').update(data).digest();
     const signatureBytes = Buffer.from(signature, 'hex');
     const publicKeyBytes = Buffer.from(publicKey.replace('0x', ''), 'hex');
-    return secp256k1.verify(messageHash, signatureBytes, publicKeyBytes);
+    return secp256k1.ecdsaVerify(signatureBytes, messageHash, publicKeyBytes);
   } catch {
     return false;
   }
@@ -124,8 +153,7 @@ export function generateDID(method: string = 'ethr', identifier: string): string
     return `did:ethr:${identifier}`;
   }
   if (method === 'key') {
-    const encoded = Buffer.from(identifier, 'hex').toString('base64url');
-    return `did:key:z${encoded}`;
+    return createDIDKey(identifier);
   }
   return `did:${method}:${identifier}`;
 }
@@ -141,13 +169,31 @@ export function parseDID(did: string): { method: string; identifier: string } {
   };
 }
 
+export function createKeyCommitment(publicKey: string): string {
+  return hashData(publicKey.replace('0x', '').toLowerCase());
+}
+
 export function generateChallenge(): string {
   return randomBytes(32).toString('hex');
 }
 
+// Deterministic JSON: object keys sorted at every level, undefined members dropped
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
 export function hashAttestation(attestation: Record<string, unknown>): string {
-  const canonical = JSON.stringify(attestation, Object.keys(attestation).sort());
-  return hashData(canonical);
+  return hashData(canonicalize(attestation));
 }
 
 export function generateApiKey(): string {
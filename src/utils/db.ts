@@ -41,23 +41,50 @@ export async function query<T = unknown>(
   }
 }
 
+// Callbacks waiting on each open transaction's commit
+const commitCallbacks = new WeakMap<PoolClient, Array<() => void>>();
+
 export async function transaction<T>(
   callback: (client: PoolClient) => Promise<T>
 ): Promise<T> {
   const client = await pool.connect();
+  const callbacks: Array<() => void> = [];
+  commitCallbacks.set(client, callbacks);
   try {
     await client.query('BEGIN');
     const result = await callback(client);
     await client.query('COMMIT');
+    commitCallbacks.delete(client);
+    callbacks.forEach(runCommitCallback);
     return result;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
   } finally {
+    commitCallbacks.delete(client);
     client.release();
   }
 }
 
+// Runs the callback once the client's transaction commits and drops it on
+// rollback. Outside a transaction the work is already committed, so it runs now.
+export function afterCommit(client: PoolClient, callback: () => void): void {
+  const callbacks = commitCallbacks.get(client);
+  if (callbacks) {
+    callbacks.push(callback);
+  } else {
+    runCommitCallback(callback);
+  }
+}
+
+function runCommitCallback(callback: () => void): void {
+  try {
+    callback();
+  } catch (error) {
+    logger.error('Commit callback failed', { error });
+  }
+}
+
 export async function initDatabase(): Promise<void> {
   const client = await pool.connect();
   try {
@@ -93,18 +120,105 @@ export async function initDatabase(): Promise<void> {
         last_interaction_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
         interaction_count INTEGER DEFAULT 0,
         metadata JSONB DEFAULT '{}',
+        source_peer_did TEXT,
+        target_peer_did TEXT,
         UNIQUE(source_agent_id, target_agent_id, relationship_type)
       );
 
+      ALTER TABLE agent_relationships ADD COLUMN IF NOT EXISTS source_peer_did TEXT;
+      ALTER TABLE agent_relationships ADD COLUMN IF NOT EXISTS target_peer_did TEXT;
+
       CREATE TABLE IF NOT EXISTS identities (
         did VARCHAR(255) PRIMARY KEY,
         agent_id VARCHAR(32) REFERENCES agents(id) ON DELETE CASCADE,
         document JSONB NOT NULL,
         encrypted_private_key TEXT,
+        key_version INTEGER NOT NULL DEFAULT 0,
+        version_id INTEGER NOT NULL DEFAULT 1,
+        deactivated_at TIMESTAMP WITH TIME ZONE,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
       );
 
+      ALTER TABLE identities ADD COLUMN IF NOT EXISTS version_id INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE identities ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE identities ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+      CREATE TABLE IF NOT EXISTS did_update_policies (
+        did VARCHAR(255) PRIMARY KEY REFERENCES identities(did) ON DELETE CASCADE,
+        threshold INTEGER NOT NULL DEFAULT 1,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS did_pending_updates (
+        id VARCHAR(64) PRIMARY KEY,
+        did VARCHAR(255) NOT NULL REFERENCES identities(did) ON DELETE CASCADE,
+        operation JSONB NOT NULL,
+        base_version_id INTEGER NOT NULL,
+        signing_input TEXT NOT NULL,
+        approvals JSONB NOT NULL DEFAULT '[]',
+        threshold INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        applied_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE TABLE IF NOT EXISTS did_deactivations (
+        did VARCHAR(255) PRIMARY KEY,
+        deactivated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        deactivated_by VARCHAR(255) NOT NULL,
+        reason TEXT,
+        version_id INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS did_document_versions (
+        did VARCHAR(255) NOT NULL,
+        version_id INTEGER NOT NULL,
+        document JSONB NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (did, version_id)
+      );
+
+      -- Hashes of the transactions that anchored a version on its method's ledger
+      ALTER TABLE did_document_versions ADD COLUMN IF NOT EXISTS transaction_hashes JSONB;
+      ALTER TABLE did_document_versions ADD COLUMN IF NOT EXISTS pending_publication VARCHAR(20);
+      -- Ledger steps confirmed so far and the publisher's lease, so no row lock is
+      -- held while transactions are mined and a retry resumes where one stopped
+      ALTER TABLE did_document_versions ADD COLUMN IF NOT EXISTS published_steps JSONB;
+      ALTER TABLE did_document_versions ADD COLUMN IF NOT EXISTS publication_claimed_until TIMESTAMP WITH TIME ZONE;
+
+      CREATE TABLE IF NOT EXISTS did_challenges (
+        challenge VARCHAR(64) PRIMARY KEY,
+        did VARCHAR(255) NOT NULL,
+        audience VARCHAR(255) NOT NULL,
+        message TEXT NOT NULL,
+        issued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        consumed_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE TABLE IF NOT EXISTS agent_sessions (
+        id VARCHAR(32) PRIMARY KEY,
+        agent_id VARCHAR(32) REFERENCES agents(id) ON DELETE CASCADE,
+        did VARCHAR(255) NOT NULL,
+        key_id TEXT,
+        refresh_token_hash VARCHAR(64) UNIQUE NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        last_refreshed_at TIMESTAMP WITH TIME ZONE,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        revoked_reason TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS signer_bindings (
+        did VARCHAR(255) NOT NULL,
+        key_id TEXT NOT NULL,
+        backend VARCHAR(20) NOT NULL,
+        key_ref TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (did, key_id)
+      );
+
       CREATE TABLE IF NOT EXISTS capabilities (
         id VARCHAR(64) PRIMARY KEY,
         subject VARCHAR(255) NOT NULL,
@@ -130,7 +244,58 @@ export async function initDatabase(): Promise<void> {
         expires_at TIMESTAMP WITH TIME ZONE,
         revocation JSONB,
         proof JSONB NOT NULL,
-        metadata JSONB DEFAULT '{}'
+        metadata JSONB DEFAULT '{}',
+        issuer_deactivated_at TIMESTAMP WITH TIME ZONE
+      );
+
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS issuer_deactivated_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS jwt TEXT;
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS sd_jwt TEXT;
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS status_list_id VARCHAR(64);
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS status_list_index INTEGER;
+      ALTER TABLE capabilities ADD COLUMN IF NOT EXISTS status_list_id VARCHAR(64);
+      ALTER TABLE capabilities ADD COLUMN IF NOT EXISTS status_list_index INTEGER;
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS claim_schemas JSONB;
+      ALTER TABLE attestations ADD COLUMN IF NOT EXISTS imported_credential JSONB;
+
+      CREATE TABLE IF NOT EXISTS claim_schemas (
+        id VARCHAR(64) NOT NULL,
+        version INTEGER NOT NULL,
+        attestation_type VARCHAR(50) NOT NULL,
+        claim_type VARCHAR(255) NOT NULL,
+        schema JSONB NOT NULL,
+        description TEXT,
+        created_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (id, version),
+        UNIQUE (attestation_type, claim_type, version)
+      );
+
+      CREATE TABLE IF NOT EXISTS status_lists (
+        id VARCHAR(64) PRIMARY KEY,
+        issuer VARCHAR(255) NOT NULL,
+        purpose VARCHAR(20) NOT NULL,
+        size INTEGER NOT NULL,
+        next_index INTEGER NOT NULL DEFAULT 0,
+        bits BYTEA NOT NULL,
+        version INTEGER NOT NULL DEFAULT 0,
+        credential JSONB,
+        signed_version INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS presentation_requests (
+        id VARCHAR(64) PRIMARY KEY,
+        verifier VARCHAR(255) NOT NULL,
+        attestation_types JSONB NOT NULL,
+        trusted_issuers JSONB,
+        challenge VARCHAR(64) NOT NULL UNIQUE,
+        domain VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        fulfilled_at TIMESTAMP WITH TIME ZONE,
+        fulfilled_by VARCHAR(255)
       );
 
       CREATE TABLE IF NOT EXISTS agent_activities (
@@ -168,11 +333,20 @@ export async function initDatabase(): Promise<void> {
       CREATE INDEX IF NOT EXISTS idx_agents_type ON agents(type);
       CREATE INDEX IF NOT EXISTS idx_relationships_source ON agent_relationships(source_agent_id);
       CREATE INDEX IF NOT EXISTS idx_relationships_target ON agent_relationships(target_agent_id);
+      CREATE INDEX IF NOT EXISTS idx_identities_agent ON identities(agent_id);
+      CREATE INDEX IF NOT EXISTS idx_pending_updates_did ON did_pending_updates(did, status);
+      CREATE INDEX IF NOT EXISTS idx_did_versions_created ON did_document_versions(did, created_at);
+      CREATE INDEX IF NOT EXISTS idx_challenges_expires ON did_challenges(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_sessions_agent ON agent_sessions(agent_id);
+      CREATE INDEX IF NOT EXISTS idx_did_versions_unpublished ON did_document_versions(did, version_id)
+        WHERE pending_publication IS NOT NULL;
       CREATE INDEX IF NOT EXISTS idx_capabilities_subject ON capabilities(subject);
       CREATE INDEX IF NOT EXISTS idx_capabilities_status ON capabilities(status);
       CREATE INDEX IF NOT EXISTS idx_attestations_issuer ON attestations(issuer);
       CREATE INDEX IF NOT EXISTS idx_attestations_subject ON attestations(subject);
       CREATE INDEX IF NOT EXISTS idx_attestations_type ON attestations(type);
+      CREATE INDEX IF NOT EXISTS idx_presentation_requests_verifier ON presentation_requests(verifier);
+      CREATE INDEX IF NOT EXISTS idx_status_lists_issuer ON status_lists(issuer, purpose);
       CREATE INDEX IF NOT EXISTS idx_activities_agent ON agent_activities(agent_id);
       CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON agent_activities(timestamp);
       CREATE INDEX IF NOT EXISTS idx_anomalies_agent ON anomalies(agent_id);
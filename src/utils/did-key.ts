@@ -0,0 +1,139 @@
+import { ECDH } from 'crypto';
+import * as secp256k1 from 'secp256k1';
+import { DIDDocument, VerificationMethod } from '../models/identity';
+import {
+  MULTICODEC,
+  addMulticodecPrefix,
+  decodeMultibase,
+  encodeMultibase,
+  splitMulticodec
+} from './multibase';
+
+export type DIDKeyType = 'secp256k1' | 'Ed25519' | 'P-256';
+
+const KEY_TYPE_CODECS: Record<DIDKeyType, number> = {
+  secp256k1: MULTICODEC.SECP256K1_PUB,
+  Ed25519: MULTICODEC.ED25519_PUB,
+  'P-256': MULTICODEC.P256_PUB
+};
+
+const VERIFICATION_METHOD_TYPES: Record<DIDKeyType, string> = {
+  secp256k1: 'EcdsaSecp256k1VerificationKey2019',
+  Ed25519: 'Ed25519VerificationKey2020',
+  'P-256': 'Multikey'
+};
+
+const KEY_TYPE_CONTEXTS: Record<DIDKeyType, string> = {
+  secp256k1: 'https://w3id.org/security/suites/secp256k1-2019/v1',
+  Ed25519: 'https://w3id.org/security/suites/ed25519-2020/v1',
+  'P-256': 'https://w3id.org/security/multikey/v1'
+};
+
+// 33- and 65-byte points are ambiguous between curves; P-256 must be asked for explicitly
+export function inferKeyType(publicKeyHex: string): DIDKeyType {
+  const length = publicKeyHex.replace('0x', '').length / 2;
+  if (length === 32) return 'Ed25519';
+  if (length === 33 || length === 65) return 'secp256k1';
+  throw new Error(`Cannot infer key type from a ${length}-byte public key`);
+}
+
+export function createDIDKey(publicKeyHex: string, keyType?: DIDKeyType): string {
+  const type = keyType || inferKeyType(publicKeyHex);
+  let keyBytes: Uint8Array = Buffer.from(publicKeyHex.replace('0x', ''), 'hex');
+
+  if (type === 'secp256k1') {
+    // did:key always carries the 33-byte compressed point
+    keyBytes = secp256k1.publicKeyConvert(keyBytes, true);
+  } else if (type === 'P-256') {
+    keyBytes = ECDH.convertKey(Buffer.from(keyBytes), 'prime256v1', undefined, undefined, 'compressed') as Buffer;
+  } else if (keyBytes.length !== 32) {
+    throw new Error('Ed25519 public keys must be 32 bytes');
+  }
+
+  return `did:key:${encodeMultibase(addMulticodecPrefix(KEY_TYPE_CODECS[type], keyBytes))}`;
+}
+
+export function parseDIDKey(did: string): {
+  keyType: DIDKeyType;
+  publicKeyHex: string;
+  publicKeyMultibase: string;
+} {
+  const [, method, multibaseValue] = did.split('#')[0].split(':');
+  if (method !== 'key' || !multibaseValue) {
+    throw new Error('Invalid did:key identifier');
+  }
+
+  const { code, data } = splitMulticodec(decodeMultibase(multibaseValue));
+  const keyType = (Object.keys(KEY_TYPE_CODECS) as DIDKeyType[]).find(
+    (type) => KEY_TYPE_CODECS[type] === code
+  );
+
+  if (!keyType) {
+    throw new Error(`Unsupported did:key multicodec: 0x${code.toString(16)}`);
+  }
+  if (keyType === 'secp256k1' && !secp256k1.publicKeyVerify(data)) {
+    throw new Error('Invalid secp256k1 public key in did:key');
+  }
+  if (keyType === 'Ed25519' && data.length !== 32) {
+    throw new Error('Invalid Ed25519 public key in did:key');
+  }
+  if (keyType === 'P-256' && !isValidP256Point(data)) {
+    throw new Error('Invalid P-256 public key in did:key');
+  }
+
+  return {
+    keyType,
+    publicKeyHex: Buffer.from(data).toString('hex'),
+    publicKeyMultibase: multibaseValue
+  };
+}
+
+function isValidP256Point(data: Uint8Array): boolean {
+  try {
+    ECDH.convertKey(Buffer.from(data), 'prime256v1');
+    return data.length === 33;
+  } catch {
+    return false;
+  }
+}
+
+export function expandDIDKey(did: string): DIDDocument {
+  const { keyType, publicKeyMultibase } = parseDIDKey(did);
+  const keyId = `${did}#${publicKeyMultibase}`;
+
+  const verificationMethod: VerificationMethod = {
+    id: keyId,
+    type: VERIFICATION_METHOD_TYPES[keyType],
+    controller: did,
+    publicKeyMultibase
+  };
+
+  return {
+    id: did,
+    '@context': ['https://www.w3.org/ns/did/v1', KEY_TYPE_CONTEXTS[keyType]],
+    verificationMethod: [verificationMethod],
+    authentication: [keyId],
+    assertionMethod: [keyId],
+    capabilityInvocation: [keyId],
+    capabilityDelegation: [keyId]
+  };
+}
+
+export function getPublicKeyHex(method: VerificationMethod): string | undefined {
+  if (method.publicKeyHex) {
+    return method.publicKeyHex;
+  }
+  if (method.publicKeyMultibase) {
+    // Multibase key values always carry a multicodec header
+    const { data } = splitMulticodec(decodeMultibase(method.publicKeyMultibase));
+    return Buffer.from(data).toString('hex');
+  }
+  if (method.publicKeyJwk?.x) {
+    const x = Buffer.from(method.publicKeyJwk.x, 'base64url');
+    // EC keys become an uncompressed point; OKP keys are just x
+    return method.publicKeyJwk.y
+      ? Buffer.concat([Buffer.from([0x04]), x, Buffer.from(method.publicKeyJwk.y, 'base64url')]).toString('hex')
+      : x.toString('hex');
+  }
+  return undefined;
+}
@@ -0,0 +1,115 @@
+import { DIDDocument, ServiceEndpoint, VerificationMethod } from '../models/identity';
+import { MULTICODEC, addMulticodecPrefix, encodeMultibase } from './multibase';
+
+// Purpose codes from the did:peer numalgo 2 spec
+const PURPOSE_CODES = {
+  A: 'assertionMethod',
+  E: 'keyAgreement',
+  V: 'authentication',
+  I: 'capabilityInvocation',
+  D: 'capabilityDelegation'
+} as const;
+
+type PurposeCode = keyof typeof PURPOSE_CODES;
+
+const SERVICE_ABBREVIATIONS: Record<string, string> = {
+  type: 't',
+  serviceEndpoint: 's',
+  routingKeys: 'r',
+  accept: 'a',
+  DIDCommMessaging: 'dm'
+};
+
+export interface PeerDIDKeys {
+  authentication: string[]; // Ed25519 public keys as hex
+  keyAgreement?: string[]; // X25519 public keys as hex
+}
+
+export function createPeerDID(keys: PeerDIDKeys, services: ServiceEndpoint[] = []): string {
+  const elements: string[] = [];
+
+  for (const key of keys.keyAgreement || []) {
+    elements.push(`E${encodeMultibase(addMulticodecPrefix(MULTICODEC.X25519_PUB, Buffer.from(key, 'hex')))}`);
+  }
+
+  for (const key of keys.authentication) {
+    elements.push(`V${encodeMultibase(addMulticodecPrefix(MULTICODEC.ED25519_PUB, Buffer.from(key, 'hex')))}`);
+  }
+
+  for (const service of services) {
+    elements.push(`S${encodeService(service)}`);
+  }
+
+  return `did:peer:2.${elements.join('.')}`;
+}
+
+export function expandPeerDID(did: string): DIDDocument {
+  if (!did.startsWith('did:peer:2.')) {
+    throw new Error('Only did:peer numalgo 2 identifiers are supported');
+  }
+
+  const document: DIDDocument = {
+    id: did,
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+    verificationMethod: []
+  };
+
+  let keyIndex = 0;
+  let serviceIndex = 0;
+
+  for (const element of did.slice('did:peer:2.'.length).split('.')) {
+    const code = element[0];
+    const value = element.slice(1);
+
+    if (code === 'S') {
+      const service = decodeService(value);
+      document.service = [
+        ...(document.service || []),
+        { ...service, id: service.id || (serviceIndex === 0 ? '#service' : `#service-${serviceIndex}`) }
+      ];
+      serviceIndex++;
+      continue;
+    }
+
+    const purpose = PURPOSE_CODES[code as PurposeCode];
+    if (!purpose || !value.startsWith('z')) {
+      throw new Error(`Invalid did:peer element: ${element}`);
+    }
+
+    keyIndex++;
+    const method: VerificationMethod = {
+      id: `#key-${keyIndex}`,
+      type: 'Multikey',
+      controller: did,
+      publicKeyMultibase: value
+    };
+
+    document.verificationMethod.push(method);
+    document[purpose] = [...(document[purpose] || []), method.id];
+  }
+
+  return document;
+}
+
+function encodeService(service: ServiceEndpoint): string {
+  const abbreviated: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(service)) {
+    abbreviated[SERVICE_ABBREVIATIONS[key] || key] =
+      key === 'type' && typeof value === 'string' ? SERVICE_ABBREVIATIONS[value] || value : value;
+  }
+  return Buffer.from(JSON.stringify(abbreviated)).toString('base64url');
+}
+
+function decodeService(encoded: string): ServiceEndpoint {
+  const expansions = Object.fromEntries(
+    Object.entries(SERVICE_ABBREVIATIONS).map(([full, short]) => [short, full])
+  );
+  const abbreviated = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as Record<string, unknown>;
+
+  const service: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(abbreviated)) {
+    const fullKey = expansions[key] || key;
+    service[fullKey] = fullKey === 'type' && typeof value === 'string' ? expansions[value] || value : value;
+  }
+  return service as unknown as ServiceEndpoint;
+}
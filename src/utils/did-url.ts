@@ -0,0 +1,35 @@
+// did:<method>:<method-specific-id>, per DID Core section 3.1
+const DID_SYNTAX = /^did:[a-z0-9]+:(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2}|:)*(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})$/;
+
+const DID_URL_PARTS = /^(did:[^/?#]+)([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/;
+
+export interface ParsedDIDUrl {
+  did: string;
+  path?: string;
+  query: Record<string, string>;
+  fragment?: string;
+}
+
+export function isValidDID(did: string): boolean {
+  return DID_SYNTAX.test(did);
+}
+
+export function parseDIDUrl(didUrl: string): ParsedDIDUrl {
+  const match = DID_URL_PARTS.exec(didUrl);
+  if (!match || !isValidDID(match[1])) {
+    throw new Error('Invalid DID URL');
+  }
+
+  const [, did, path, queryString, fragment] = match;
+  return {
+    did,
+    ...(path && { path }),
+    query: Object.fromEntries(new URLSearchParams(queryString || '')),
+    ...(fragment !== undefined && { fragment })
+  };
+}
+
+// Matches both relative ("#keys-1") and absolute ("did:...#keys-1") ids
+export function matchesFragment(id: string, did: string, fragment: string): boolean {
+  return id === `#${fragment}` || id === `${did}#${fragment}`;
+}
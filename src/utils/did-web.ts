@@ -0,0 +1,28 @@
+export function getHubDomain(): string {
+  if (process.env.DID_WEB_DOMAIN) {
+    return process.env.DID_WEB_DOMAIN;
+  }
+  return new URL(process.env.API_URL || 'http://localhost:3000').host;
+}
+
+export function createDIDWeb(domain: string, path: string[] = []): string {
+  // Ports must be percent-encoded so they don't read as path separators
+  const encodedDomain = encodeURIComponent(domain);
+  return ['did', 'web', encodedDomain, ...path.map(encodeURIComponent)].join(':');
+}
+
+export function didWebToUrl(did: string): string {
+  const [scheme, method, domain, ...path] = did.split('#')[0].split('?')[0].split(':');
+  if (scheme !== 'did' || method !== 'web' || !domain) {
+    throw new Error('Invalid did:web identifier');
+  }
+
+  const host = decodeURIComponent(domain);
+  const protocol = /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(host) ? 'http' : 'https';
+  const segments = path.map(decodeURIComponent);
+  const location = segments.length > 0
+    ? `/${segments.join('/')}/did.json`
+    : '/.well-known/did.json';
+
+  return `${protocol}://${host}${location}`;
+}
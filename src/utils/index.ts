@@ -1,4 +1,10 @@
 export * from './crypto';
+export * from './crypto-suites';
+export * from './multibase';
+export * from './did-key';
+export * from './did-url';
+export * from './did-web';
+export * from './did-peer';
 export * from './logger';
 export * from './validation';
 export * from './errors';
@@ -0,0 +1,53 @@
+// Compact JWS (RFC 7515) encoding. Signatures cross this boundary as hex so
+// they plug straight into the crypto suites and signer backends.
+
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  cty?: string;
+  kid?: string;
+  [parameter: string]: unknown;
+}
+
+export interface DecodedJws {
+  header: JwsHeader;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: string;
+}
+
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+}
+
+export function jwsSigningInput(header: JwsHeader, payload: Record<string, unknown>): string {
+  return `${encodeSegment(header)}.${encodeSegment(payload)}`;
+}
+
+export function compactJws(signingInput: string, signature: string): string {
+  return `${signingInput}.${Buffer.from(signature, 'hex').toString('base64url')}`;
+}
+
+export function decodeJws(token: string): DecodedJws {
+  const segments = token.split('.');
+  if (segments.length !== 3 || segments.some((segment) => !/^[A-Za-z0-9_-]+$/.test(segment))) {
+    throw new Error('Not a compact JWS');
+  }
+
+  const header = decodeSegment<JwsHeader>(segments[0]);
+  const payload = decodeSegment<Record<string, unknown>>(segments[1]);
+  if (typeof header?.alg !== 'string' || !payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new Error('JWS header or payload is malformed');
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: `${segments[0]}.${segments[1]}`,
+    signature: Buffer.from(segments[2], 'base64url').toString('hex')
+  };
+}
@@ -0,0 +1,116 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export const MULTICODEC = {
+  SECP256K1_PUB: 0xe7,
+  ED25519_PUB: 0xed,
+  X25519_PUB: 0xec,
+  P256_PUB: 0x1200
+} as const;
+
+export function encodeBase58(bytes: Uint8Array): string {
+  // Little-endian base58 digits of the big-endian input
+  const digits: number[] = [];
+
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let result = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += BASE58_ALPHABET[0];
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+
+  return result;
+}
+
+export function decodeBase58(str: string): Uint8Array {
+  // Little-endian bytes of the decoded value
+  const bytes: number[] = [];
+
+  for (const char of str) {
+    const value = BASE58_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+
+    let carry = value;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  let leadingZeros = 0;
+  while (leadingZeros < str.length && str[leadingZeros] === BASE58_ALPHABET[0]) {
+    leadingZeros++;
+  }
+
+  return Uint8Array.from([...new Array<number>(leadingZeros).fill(0), ...bytes.reverse()]);
+}
+
+export function encodeMultibase(bytes: Uint8Array): string {
+  return `z${encodeBase58(bytes)}`;
+}
+
+export function decodeMultibase(value: string): Uint8Array {
+  if (!value.startsWith('z')) {
+    throw new Error('Only base58btc multibase values are supported');
+  }
+  return decodeBase58(value.slice(1));
+}
+
+export function encodeVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining >>>= 7;
+  }
+  bytes.push(remaining);
+  return Uint8Array.from(bytes);
+}
+
+export function decodeVarint(bytes: Uint8Array): { value: number; length: number } {
+  let value = 0;
+  let shift = 0;
+
+  for (let i = 0; i < bytes.length && i < 4; i++) {
+    value |= (bytes[i] & 0x7f) << shift;
+    if ((bytes[i] & 0x80) === 0) {
+      return { value, length: i + 1 };
+    }
+    shift += 7;
+  }
+
+  throw new Error('Invalid varint');
+}
+
+export function addMulticodecPrefix(code: number, bytes: Uint8Array): Uint8Array {
+  const prefix = encodeVarint(code);
+  const result = new Uint8Array(prefix.length + bytes.length);
+  result.set(prefix);
+  result.set(bytes, prefix.length);
+  return result;
+}
+
+export function splitMulticodec(bytes: Uint8Array): { code: number; data: Uint8Array } {
+  const { value, length } = decodeVarint(bytes);
+  return { code: value, data: bytes.slice(length) };
+}
@@ -0,0 +1,54 @@
+import { createHash, randomBytes } from 'crypto';
+
+// SD-JWT (RFC 9901) framing: <issuer-jwt>~<disclosure>~...~<key-binding-jwt>.
+// Only array-element disclosures are used, one per attestation claim, so claims
+// sharing a type stay separately disclosable.
+
+export const SD_ALG = 'sha-256';
+
+export interface SdJwtParts {
+  jwt: string;
+  disclosures: string[];
+  keyBinding?: string;
+}
+
+export function digestOf(disclosure: string): string {
+  return createHash('sha256').update(disclosure, 'ascii').digest('base64url');
+}
+
+export function createDisclosure(value: unknown): { disclosure: string; digest: string } {
+  const salt = randomBytes(16).toString('base64url');
+  const disclosure = Buffer.from(JSON.stringify([salt, value])).toString('base64url');
+  return { disclosure, digest: digestOf(disclosure) };
+}
+
+export function decodeDisclosure(disclosure: string): unknown {
+  const decoded = JSON.parse(Buffer.from(disclosure, 'base64url').toString('utf8')) as unknown;
+  if (!Array.isArray(decoded) || decoded.length !== 2 || typeof decoded[0] !== 'string') {
+    throw new Error('Disclosure is not an array element disclosure');
+  }
+  return decoded[1];
+}
+
+export function splitSdJwt(token: string): SdJwtParts {
+  const parts = token.split('~');
+  if (parts.length < 2 || !parts[0]) {
+    throw new Error('Not an SD-JWT');
+  }
+  return {
+    jwt: parts[0],
+    disclosures: parts.slice(1, -1),
+    keyBinding: parts[parts.length - 1] || undefined
+  };
+}
+
+export function joinSdJwt({ jwt, disclosures, keyBinding }: SdJwtParts): string {
+  return `${[jwt, ...disclosures].join('~')}~${keyBinding ?? ''}`;
+}
+
+// sd_hash binds a key-binding JWT to the exact issuer JWT and disclosures presented
+export function sdHash(presentation: string): string {
+  return createHash('sha256')
+    .update(presentation.slice(0, presentation.lastIndexOf('~') + 1), 'ascii')
+    .digest('base64url');
+}
@@ -0,0 +1,20 @@
+import { gzipSync } from 'zlib';
+
+// W3C Bitstring Status List: index 0 is the most significant bit of the first
+// byte, and the published list is gzipped and multibase base64url encoded.
+
+// The spec's minimum length, so one entry cannot be singled out by list size
+export const STATUS_LIST_SIZE = 131072;
+
+export function statusListUrl(listId: string): string {
+  return `${process.env.API_URL || 'http://localhost:3000'}/api/v1/status-lists/${listId}`;
+}
+
+export function encodeStatusList(bits: Buffer): string {
+  return `u${gzipSync(bits).toString('base64url')}`;
+}
+
+// Postgres set_bit/get_bit count from the least significant bit of each byte
+export function toByteaBitIndex(index: number): number {
+  return (index & ~7) + (7 - (index & 7));
+}
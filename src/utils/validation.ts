@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { Request, Response, NextFunction } from 'express';
+import { CREDENTIALS_V2_CONTEXT } from './credentials';
 
 export const CreateAgentSchema = z.object({
   name: z.string().min(1).max(100),
@@ -12,6 +13,8 @@ export const CreateAgentSchema = z.object({
     'specialist',
     'user_proxy'
   ]),
+  method: z.string().regex(/^[a-z0-9]+$/, 'Must be a DID method name').optional(),
+  keyType: z.enum(['secp256k1', 'Ed25519', 'P-256']).optional(),
   capabilities: z.array(z.string()).optional(),
   metadata: z.record(z.unknown()).optional()
 });
@@ -24,6 +27,141 @@ export const UpdateAgentSchema = z.object({
   metadata: z.record(z.unknown()).optional()
 });
 
+const KeyRotationRequestSchema = z.object({
+  publicKey: z.string().regex(/^(0x)?([a-fA-F0-9]{64}|[a-fA-F0-9]{66}|[a-fA-F0-9]{130})$/, 'Must be a hex public key').optional(),
+  nextKeyCommitment: z.string().regex(/^[a-f0-9]{64}$/, 'Must be a sha256 hex digest').optional()
+});
+
+export const OwnershipProofSchema = z.object({
+  challenge: z.string().regex(/^[a-f0-9]{64}$/, 'Must be a challenge issued by the hub'),
+  signature: z.string().regex(/^(0x)?[a-fA-F0-9]+$/, 'Must be a hex signature'),
+  keyId: z.string().optional(),
+  audience: z.string().optional()
+});
+
+export const DIDAuthChallengeSchema = z.object({
+  did: z.string().regex(/^did:/, 'Must be a valid DID')
+});
+
+export const DIDAuthLoginSchema = OwnershipProofSchema.extend({
+  did: z.string().regex(/^did:/, 'Must be a valid DID')
+});
+
+export const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export const SignerBindingSchema = z.object({
+  keyId: z.string().regex(/^did:[^#]+#.+$/, 'Must be a fully qualified verification method ID'),
+  backend: z.enum(['in-process', 'file', 'pkcs11']),
+  keyRef: z.string().min(1).max(255).optional()
+});
+
+export const ImportCustodyKeySchema = z.object({
+  keyId: z.string().regex(/^did:[^#]+#.+$/, 'Must be a fully qualified verification method ID'),
+  privateKey: z.string().regex(/^(0x)?[a-fA-F0-9]{64}$/, 'Must be a 32-byte hex private key')
+});
+
+
+export const ControllerProofSchema = z.object({
+  keyId: z.string().regex(/^did:[^#]+#.+$/, 'Must be a fully qualified verification method ID'),
+  signature: z.string().regex(/^(0x)?[a-fA-F0-9]+$/, 'Must be a hex signature')
+});
+
+const ServiceEndpointSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  serviceEndpoint: z.union([z.string().url(), z.array(z.string().url()).min(1)])
+});
+
+const ServiceEndpointChangesSchema = ServiceEndpointSchema.omit({ id: true }).partial().refine(
+  (changes) => Object.keys(changes).length > 0,
+  'At least one service field must change'
+);
+
+export const VerificationRelationshipSchema = z.enum([
+  'authentication',
+  'assertionMethod',
+  'keyAgreement',
+  'capabilityInvocation',
+  'capabilityDelegation'
+]);
+
+const NewVerificationMethodSchema = z.object({
+  type: z.string().min(1),
+  publicKeyHex: z.string().regex(/^(0x)?[a-fA-F0-9]+$/).optional(),
+  publicKeyBase58: z.string().optional(),
+  publicKeyMultibase: z.string().regex(/^z/).optional()
+}).refine(
+  (method) => Boolean(method.publicKeyHex || method.publicKeyBase58 || method.publicKeyMultibase),
+  'A public key is required'
+);
+
+export const DIDUpdateOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('update'),
+    changes: z.object({
+      controller: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+      service: z.array(ServiceEndpointSchema).optional()
+    }).strict()
+  }),
+  z.object({ type: z.literal('addVerificationMethod'), method: NewVerificationMethodSchema }),
+  z.object({ type: z.literal('removeVerificationMethod'), keyId: z.string().min(1) }),
+  z.object({
+    type: z.literal('addRelationship'),
+    relationship: VerificationRelationshipSchema,
+    keyId: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal('removeRelationship'),
+    relationship: VerificationRelationshipSchema,
+    keyId: z.string().min(1)
+  }),
+  z.object({ type: z.literal('addService'), service: ServiceEndpointSchema }),
+  z.object({
+    type: z.literal('updateService'),
+    serviceId: z.string().min(1),
+    changes: ServiceEndpointChangesSchema
+  }),
+  z.object({ type: z.literal('removeService'), serviceId: z.string().min(1) }),
+  z.object({ type: z.literal('setThreshold'), threshold: z.number().int().min(1) }),
+  KeyRotationRequestSchema.extend({ type: z.literal('rotateKey') }),
+  z.object({ type: z.literal('deactivate'), reason: z.string().max(500).optional() })
+]);
+
+// Proposals need at least one controller signature, supplied or made by the hub
+// with the caller's custodied key
+export const ApproveDIDUpdateSchema = z.object({
+  proofs: z.array(ControllerProofSchema).default([]),
+  signWithCustody: z.boolean().optional()
+});
+
+export const RotateKeySchema = KeyRotationRequestSchema.merge(ApproveDIDUpdateSchema);
+
+export const DeactivateDIDSchema = ApproveDIDUpdateSchema.extend({
+  reason: z.string().max(500).optional()
+});
+
+export const SubmitDIDUpdateSchema = ApproveDIDUpdateSchema.extend({
+  operation: DIDUpdateOperationSchema
+});
+
+export const AddVerificationMethodSchema = NewVerificationMethodSchema.and(ApproveDIDUpdateSchema);
+
+export const AddServiceSchema = ServiceEndpointSchema.merge(ApproveDIDUpdateSchema);
+
+export const UpdateServiceSchema = ServiceEndpointSchema.omit({ id: true })
+  .partial()
+  .merge(ApproveDIDUpdateSchema);
+
+export const RelationshipParamsSchema = z.object({
+  relationship: VerificationRelationshipSchema
+});
+
+export const AssignRelationshipSchema = ApproveDIDUpdateSchema.extend({
+  keyId: z.string().min(1)
+});
+
 export const CreateCapabilitySchema = z.object({
   subject: z.string().regex(/^did:/, 'Must be a valid DID'),
   actions: z.array(z.string()).min(1),
@@ -48,16 +186,18 @@ export const CreateCapabilitySchema = z.object({
   expiresInHours: z.number().int().positive().max(8760).optional()
 });
 
+const AttestationTypeSchema = z.enum([
+  'identity_verification',
+  'capability_authorization',
+  'behavior_assertion',
+  'trust_assertion',
+  'completion_certificate',
+  'membership',
+  'custom'
+]);
+
 export const CreateAttestationSchema = z.object({
-  type: z.enum([
-    'identity_verification',
-    'capability_authorization',
-    'behavior_assertion',
-    'trust_assertion',
-    'completion_certificate',
-    'membership',
-    'custom'
-  ]),
+  type: AttestationTypeSchema,
   subject: z.string().regex(/^did:/, 'Must be a valid DID'),
   claims: z.array(
     z.object({
@@ -66,7 +206,116 @@ export const CreateAttestationSchema = z.object({
     })
   ).min(1),
   expiresInHours: z.number().int().positive().max(8760).optional(),
-  metadata: z.record(z.unknown()).optional()
+  metadata: z.record(z.unknown()).optional(),
+  format: z.enum(['json-ld', 'jwt', 'sd-jwt']).default('json-ld')
+});
+
+export const RegisterClaimSchemaSchema = z.object({
+  attestationType: AttestationTypeSchema,
+  claimType: z.string().min(1).max(255),
+  schema: z.record(z.unknown()),
+  description: z.string().max(1000).optional()
+});
+
+export const ClaimSchemaFilterSchema = z.object({
+  attestationType: AttestationTypeSchema.optional(),
+  claimType: z.string().min(1).max(255).optional()
+});
+
+export const ClaimSchemaVersionParamsSchema = z.object({
+  id: z.string(),
+  version: z.string().regex(/^[1-9]\d*$/, 'Must be a positive integer')
+});
+
+export const CredentialFormatSchema = z.object({
+  format: z.enum(['attestation', 'vc']).optional()
+});
+
+// Members outside the schema are kept: they are covered by the proof
+const DataIntegrityProofSchema = z.object({
+  type: z.enum(['DataIntegrityProof', 'EcdsaSecp256k1Signature2019']),
+  cryptosuite: z.string().optional(),
+  created: z.string().datetime({ offset: true }),
+  verificationMethod: z.string(),
+  proofPurpose: z.string(),
+  proofValue: z.string().startsWith('z', 'Must be a base58btc multibase value'),
+  challenge: z.string().optional(),
+  domain: z.string().optional()
+}).passthrough().refine(
+  (proof) => proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== undefined,
+  { message: 'DataIntegrityProof requires a cryptosuite', path: ['cryptosuite'] }
+);
+
+export const VerifiableCredentialSchema = z.object({
+  '@context': z.array(z.union([z.string(), z.record(z.unknown())])).refine(
+    (contexts) => contexts[0] === CREDENTIALS_V2_CONTEXT,
+    `The first context must be ${CREDENTIALS_V2_CONTEXT}`
+  ),
+  id: z.string().optional(),
+  type: z.array(z.string()).refine(
+    (types) => types.includes('VerifiableCredential'),
+    'Must include VerifiableCredential'
+  ),
+  issuer: z.union([
+    z.string().regex(/^did:/, 'Must be a valid DID'),
+    z.object({ id: z.string().regex(/^did:/, 'Must be a valid DID') }).passthrough()
+  ]),
+  validFrom: z.string().datetime({ offset: true }).optional(),
+  validUntil: z.string().datetime({ offset: true }).optional(),
+  credentialSubject: z.object({
+    id: z.string().regex(/^did:/, 'Must be a valid DID')
+  }).passthrough(),
+  proof: DataIntegrityProofSchema
+}).passthrough();
+
+export const ImportCredentialSchema = z.object({
+  credential: VerifiableCredentialSchema
+});
+
+export const VerifyJwtSchema = z.object({
+  jwt: z.string().regex(/^[\w-]+\.[\w-]+\.[\w-]+$/, 'Must be a compact JWS')
+});
+
+export const PresentSdJwtSchema = z.object({
+  disclose: z.array(z.string()).min(1),
+  audience: z.string().optional(),
+  nonce: z.string().optional()
+});
+
+export const VerifySdJwtSchema = z.object({
+  sdJwt: z.string().regex(/^[\w-]+\.[\w-]+\.[\w-]+~[\w.~-]*$/, 'Must be an SD-JWT'),
+  audience: z.string().optional(),
+  nonce: z.string().optional()
+});
+
+export const CreatePresentationRequestSchema = z.object({
+  attestationTypes: z.array(AttestationTypeSchema).min(1),
+  trustedIssuers: z.array(z.string().regex(/^did:/, 'Must be a valid DID')).min(1).optional(),
+  domain: z.string().min(1).max(255).optional(),
+  expiresInMinutes: z.number().int().positive().max(1440).optional()
+});
+
+export const CreatePresentationSchema = z.object({
+  requestId: z.string(),
+  attestationIds: z.array(z.string()).min(1).optional()
+});
+
+export const VerifyPresentationSchema = z.object({
+  presentation: z.object({
+    id: z.string(),
+    holder: z.string().regex(/^did:/, 'Must be a valid DID'),
+    requestId: z.string(),
+    attestations: z.array(z.object({ id: z.string() }).passthrough()),
+    proof: z.object({
+      type: z.string(),
+      created: z.string(),
+      proofPurpose: z.string(),
+      verificationMethod: z.string(),
+      proofValue: z.string(),
+      challenge: z.string().optional(),
+      domain: z.string().optional()
+    })
+  })
 });
 
 export const VerifyCapabilitySchema = z.object({
@@ -0,0 +1,60 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { transaction } = require("../src/utils/db");
+const { identityManager } = require("../src/services/identity-manager");
+const { didService } = require("../src/services/did-service");
+const { AgentStatus } = require("../src/models/agent");
+
+const DID = "did:key:z6MkAgent";
+
+describe("agent deletion", () => {
+  let client;
+
+  beforeEach(() => {
+    client = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    transaction.mockReset().mockImplementation(async (callback) => callback(client));
+    jest.spyOn(didService, "publishPending").mockResolvedValue(undefined);
+    jest.spyOn(identityManager, "deactivateIdentity").mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function withAgent(status) {
+    jest.spyOn(identityManager, "getAgent").mockResolvedValue({ id: "agent-1", did: DID, status });
+  }
+
+  it("deactivates the DID of a revoked agent that has no tombstone yet", async () => {
+    withAgent(AgentStatus.REVOKED);
+    jest.spyOn(didService, "getDeactivationRecord").mockResolvedValue(null);
+
+    await identityManager.deleteAgent("agent-1", "admin");
+
+    expect(identityManager.deactivateIdentity).toHaveBeenCalledWith(
+      DID,
+      { deactivatedBy: "admin", reason: "Agent deleted" },
+      client
+    );
+    expect(client.query).toHaveBeenCalledWith("DELETE FROM agents WHERE id = $1", ["agent-1"]);
+  });
+
+  it("keeps the existing tombstone of an already deactivated DID", async () => {
+    withAgent(AgentStatus.ACTIVE);
+    jest.spyOn(didService, "getDeactivationRecord").mockResolvedValue({
+      did: DID,
+      deactivatedAt: new Date().toISOString(),
+      deactivatedBy: "admin",
+      versionId: 2
+    });
+
+    await identityManager.deleteAgent("agent-1");
+
+    expect(identityManager.deactivateIdentity).not.toHaveBeenCalled();
+    expect(client.query).toHaveBeenCalledWith("UPDATE identities SET agent_id = NULL WHERE agent_id = $1", ["agent-1"]);
+  });
+});
@@ -0,0 +1,128 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { attestationService } = require("../src/services/attestation-service");
+const { identityManager } = require("../src/services/identity-manager");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createDIDKey } = require("../src/utils/did-key");
+const { hashAttestation } = require("../src/utils/crypto");
+
+const suite = getSuite("Ed25519");
+const issuerKeys = suite.generateKeyPair();
+const ISSUER = createDIDKey(issuerKeys.publicKey, "Ed25519");
+const ISSUER_KEY = `${ISSUER}#${ISSUER.split(":")[2]}`;
+const SUBJECT = "did:example:subject";
+const ISSUED_AT = new Date(Date.now() - 60000);
+
+// The fields the issuer signs, canonicalized with dates as ISO strings
+function signedHash(attestation) {
+  return hashAttestation({
+    id: attestation.id,
+    type: attestation.type,
+    issuer: attestation.issuer,
+    subject: attestation.subject,
+    claims: attestation.claims,
+    issuedAt: new Date(attestation.issuedAt).toISOString()
+  });
+}
+
+function issuedRow(overrides = {}) {
+  const attestation = {
+    id: "urn:attest:tamper-test",
+    type: "capability",
+    issuer: ISSUER,
+    subject: SUBJECT,
+    claims: [{ type: "clearance", value: 3 }],
+    issuedAt: ISSUED_AT
+  };
+  return {
+    id: attestation.id,
+    type: attestation.type,
+    issuer: attestation.issuer,
+    subject: attestation.subject,
+    claims: attestation.claims,
+    issued_at: attestation.issuedAt,
+    proof: {
+      type: suite.proofType,
+      created: ISSUED_AT.toISOString(),
+      proofPurpose: "assertionMethod",
+      verificationMethod: ISSUER_KEY,
+      proofValue: suite.sign(signedHash(attestation), issuerKeys.privateKey)
+    },
+    metadata: {},
+    ...overrides
+  };
+}
+
+describe("attestation proofs", () => {
+  let row;
+
+  beforeEach(() => {
+    row = issuedRow();
+    query.mockReset().mockImplementation(async (sql) =>
+      sql.includes("FROM attestations") ? { rows: [row] } : { rows: [] }
+    );
+    jest.spyOn(identityManager, "getAgentByDID").mockResolvedValue({ status: "active" });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("accepts an attestation signed by the issuer's assertion key", async () => {
+    const result = await attestationService.verifyAttestation(row.id);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a stored attestation whose claim was changed after signing", async () => {
+    row = { ...row, claims: [{ type: "clearance", value: 5 }] };
+
+    const result = await attestationService.verifyAttestation(row.id);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["Attestation signature is invalid"]);
+  });
+
+  it("rejects a proof from a key the issuer does not list", async () => {
+    const other = createDIDKey(suite.generateKeyPair().publicKey, "Ed25519");
+    row = { ...row, proof: { ...row.proof, verificationMethod: `${other}#${other.split(":")[2]}` } };
+
+    const result = await attestationService.verifyAttestation(row.id);
+
+    expect(result.errors).toEqual(["Proof key was not an assertion key of the issuer at issuance time"]);
+  });
+
+  it("rejects an attestation without a proof", async () => {
+    row = { ...row, proof: null };
+
+    const result = await attestationService.verifyAttestation(row.id);
+
+    expect(result.errors).toEqual(["Attestation has no proof"]);
+  });
+
+  it("rejects a presented attestation that differs from the issued one", async () => {
+    const presented = {
+      id: row.id,
+      type: row.type,
+      issuer: row.issuer,
+      subject: row.subject,
+      claims: [{ type: "clearance", value: 5 }],
+      issuedAt: ISSUED_AT.toISOString(),
+      proof: row.proof
+    };
+
+    const result = await attestationService.verifyPresentedAttestation(presented);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      "Attestation signature is invalid",
+      "Presented attestation differs from the issued one"
+    ]);
+  });
+});
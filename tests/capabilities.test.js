@@ -0,0 +1,106 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { capabilityIssuer } = require("../src/services/capability-issuer");
+const { identityManager } = require("../src/services/identity-manager");
+const { signerRegistry } = require("../src/services/signer-registry");
+const { statusListService } = require("../src/services/status-list-service");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createDIDKey } = require("../src/utils/did-key");
+
+const suite = getSuite("Ed25519");
+const issuerKeys = suite.generateKeyPair();
+const ISSUER = createDIDKey(issuerKeys.publicKey, "Ed25519");
+const SUBJECT = "did:example:subject";
+
+// JSONB keeps no key order, so stored objects come back with keys sorted differently
+function reorderKeys(value) {
+  if (Array.isArray(value)) {
+    return value.map(reorderKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .reverse()
+        .map((key) => [key, reorderKeys(value[key])])
+    );
+  }
+  return value;
+}
+
+describe("capability proofs", () => {
+  let stored;
+
+  beforeEach(() => {
+    stored = undefined;
+    query.mockReset().mockImplementation(async (sql, params) => {
+      if (sql.includes("INSERT INTO capabilities")) {
+        stored = {
+          id: params[0],
+          subject: params[1],
+          issuer: params[2],
+          actions: JSON.parse(params[3]),
+          resources: JSON.parse(params[4]),
+          conditions: JSON.parse(params[5]),
+          not_before: params[6],
+          expiration: params[7],
+          proof: JSON.parse(params[8]),
+          issued_at: params[9],
+          status: params[10]
+        };
+        return { rows: [] };
+      }
+      if (sql.includes("FROM capabilities")) {
+        return { rows: stored ? [{ ...stored, conditions: reorderKeys(stored.conditions) }] : [] };
+      }
+      return { rows: [] };
+    });
+
+    jest.spyOn(identityManager, "getAgentByDID").mockResolvedValue({ id: "agent-1", name: "Agent", status: "active" });
+    jest.spyOn(identityManager, "logActivity").mockResolvedValue(undefined);
+    jest.spyOn(statusListService, "allocate").mockResolvedValue({ listId: "list-1", index: 0 });
+    jest.spyOn(signerRegistry, "sign").mockImplementation(async (did, method, data) => ({
+      signature: suite.sign(data, issuerKeys.privateKey),
+      keyId: method.id,
+      backend: "in-process",
+      proofType: suite.proofType,
+      algorithm: suite.algorithm
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("verifies a capability with conditions after its stored keys are reordered", async () => {
+    const { token } = await capabilityIssuer.issueCapability(ISSUER, {
+      subject: SUBJECT,
+      actions: ["read"],
+      resources: ["agents"],
+      conditions: [{ type: "context", parameter: "region", operator: "equals", value: { zone: "eu", tier: 1 } }]
+    });
+
+    const result = await capabilityIssuer.verifyCapability({ token, action: "read", resource: "agents" });
+
+    expect(result.errors).toBeUndefined();
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a capability whose stored conditions were changed", async () => {
+    const { token } = await capabilityIssuer.issueCapability(ISSUER, {
+      subject: SUBJECT,
+      actions: ["read"],
+      resources: ["agents"],
+      conditions: [{ type: "context", parameter: "region", operator: "equals", value: "eu" }]
+    });
+    stored.conditions = [{ type: "context", parameter: "region", operator: "equals", value: "us" }];
+
+    const result = await capabilityIssuer.verifyCapability({ token, action: "read", resource: "agents" });
+
+    expect(result).toEqual({ valid: false, errors: ["Invalid capability proof"] });
+  });
+});
@@ -0,0 +1,127 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { challengeService } = require("../src/services/challenge-service");
+const { didService } = require("../src/services/did-service");
+const { resolutionCache } = require("../src/services/resolution-cache");
+const { KeyMethodDriver } = require("../src/services/did-methods/key-method-driver");
+const { getSuite } = require("../src/utils/crypto-suites");
+
+const suite = getSuite("Ed25519");
+
+// The did_challenges table, with the single-use UPDATE applied as Postgres would
+function challengeTable() {
+  const rows = new Map();
+  return async (sql, params = []) => {
+    if (sql.includes("INSERT INTO did_challenges")) {
+      const [challenge, did, audience, message, issuedAt, expiresAt] = params;
+      rows.set(challenge, { challenge, did, audience, message, issued_at: issuedAt, expires_at: expiresAt });
+      return { rows: [] };
+    }
+    if (sql.includes("UPDATE did_challenges")) {
+      const row = rows.get(params[0]);
+      if (!row || row.consumed_at) {
+        return { rows: [] };
+      }
+      row.consumed_at = new Date();
+      return { rows: [row] };
+    }
+    if (sql.includes("FROM did_challenges")) {
+      return { rows: rows.has(params[0]) ? [{ challenge: params[0] }] : [] };
+    }
+    return { rows: [] };
+  };
+}
+
+describe("DID ownership challenges", () => {
+  let did;
+  let keyId;
+  let privateKey;
+
+  beforeEach(async () => {
+    resolutionCache.flush();
+    query.mockReset().mockImplementation(challengeTable());
+    const created = await new KeyMethodDriver().create({ keyType: "Ed25519" });
+    did = created.did;
+    keyId = created.keys[0].id;
+    privateKey = created.keys[0].privateKey;
+  });
+
+  function prove(challenge, overrides = {}) {
+    const signature = suite.sign(challenge.message, privateKey);
+    return { challenge: challenge.challenge, signature, keyId, ...overrides };
+  }
+
+  it("binds the DID, audience and expiry into the signed message", async () => {
+    const challenge = await challengeService.issueChallenge(did, "rp.example", 60);
+
+    expect(JSON.parse(challenge.message)).toEqual({
+      aud: "rp.example",
+      did,
+      nonce: challenge.challenge,
+      exp: Math.floor(new Date(challenge.expiresAt).getTime() / 1000)
+    });
+  });
+
+  it("verifies a signed challenge once and rejects its replay", async () => {
+    const challenge = await challengeService.issueChallenge(did, "rp.example");
+    const proof = prove(challenge);
+
+    await expect(didService.verifyDIDOwnership(did, proof, "rp.example")).resolves.toMatchObject({
+      valid: true,
+      keyId
+    });
+    await expect(didService.verifyDIDOwnership(did, proof, "rp.example")).resolves.toMatchObject({
+      valid: false,
+      reason: "challenge_already_used"
+    });
+  });
+
+  it("rejects a proof presented to a relying party it was not issued for", async () => {
+    const challenge = await challengeService.issueChallenge(did, "rp.example");
+
+    await expect(didService.verifyDIDOwnership(did, prove(challenge), "other.example")).resolves.toMatchObject({
+      valid: false,
+      reason: "audience_mismatch"
+    });
+  });
+
+  it("rejects a proof that claims a different audience than the one verifying", async () => {
+    const challenge = await challengeService.issueChallenge(did, "rp.example");
+
+    const proof = prove(challenge, { audience: "other.example" });
+
+    const result = await didService.verifyDIDOwnership(did, proof, "rp.example");
+    expect(result.reason).toBe("audience_mismatch");
+  });
+
+  it("consumes the challenge even when the proof fails", async () => {
+    const challenge = await challengeService.issueChallenge(did, "rp.example");
+    const forged = prove(challenge, { signature: suite.sign("something else", privateKey) });
+
+    await expect(didService.verifyDIDOwnership(did, forged, "rp.example")).resolves.toMatchObject({
+      reason: "invalid_signature"
+    });
+    await expect(didService.verifyDIDOwnership(did, prove(challenge), "rp.example")).resolves.toMatchObject({
+      reason: "challenge_already_used"
+    });
+  });
+
+  it("rejects expired, unknown and misdirected challenges", async () => {
+    const expired = await challengeService.issueChallenge(did, "rp.example", -1);
+    const other = await challengeService.issueChallenge("did:key:z6MkOther", "rp.example");
+
+    const verify = async (challenge) => {
+      const result = await didService.verifyDIDOwnership(did, prove(challenge), "rp.example");
+      return result.reason;
+    };
+
+    expect(await verify(expired)).toBe("challenge_expired");
+    expect(await verify(other)).toBe("did_mismatch");
+    expect((await challengeService.consumeChallenge("unknown")).reason).toBe("challenge_not_found");
+  });
+});
@@ -0,0 +1,105 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { ClaimSchemaService } = require("../src/services/claim-schema-service");
+
+function schemaRow(claimType, schema, version = 1) {
+  return {
+    id: `urn:claim-schema:${claimType}`,
+    version,
+    attestation_type: "identity",
+    claim_type: claimType,
+    schema,
+    description: null,
+    created_by: "did:example:admin",
+    created_at: new Date()
+  };
+}
+
+const EMAIL_SCHEMA = { type: "string", format: "email" };
+const AGE_SCHEMA = {
+  type: "object",
+  properties: { years: { type: "integer", minimum: 0 } },
+  required: ["years"],
+  additionalProperties: false
+};
+
+describe("claim schema validation", () => {
+  let service;
+
+  beforeEach(() => {
+    query.mockReset();
+    service = new ClaimSchemaService();
+  });
+
+  it("leaves attestation types without schemas free-form", async () => {
+    query.mockResolvedValueOnce({ rows: [] });
+
+    await expect(service.validateClaims("identity", [{ type: "anything", value: 42 }])).resolves.toEqual([]);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining("WHERE attestation_type = $1"), ["identity"]);
+  });
+
+  it("returns the schema version each claim was checked against", async () => {
+    query.mockResolvedValueOnce({ rows: [schemaRow("email", EMAIL_SCHEMA, 3), schemaRow("age", AGE_SCHEMA)] });
+
+    const references = await service.validateClaims("identity", [
+      { type: "email", value: "alice@example.com" },
+      { type: "age", value: { years: 30 } }
+    ]);
+
+    expect(references).toEqual([
+      { claimType: "email", id: "urn:claim-schema:email", version: 3 },
+      { claimType: "age", id: "urn:claim-schema:age", version: 1 }
+    ]);
+  });
+
+  it("rejects claim types without a schema once the attestation type has any", async () => {
+    query.mockResolvedValueOnce({ rows: [schemaRow("email", EMAIL_SCHEMA)] });
+
+    await expect(
+      service.validateClaims("identity", [{ type: "nickname", value: "al" }])
+    ).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+      details: { claims: [{ claimType: "nickname", errors: ["No schema registered for identity claims"] }] }
+    });
+  });
+
+  it("reports every claim that fails its schema", async () => {
+    query.mockResolvedValueOnce({ rows: [schemaRow("email", EMAIL_SCHEMA), schemaRow("age", AGE_SCHEMA)] });
+
+    const error = await service
+      .validateClaims("identity", [
+        { type: "email", value: "not-an-email" },
+        { type: "age", value: { years: -1, extra: true } }
+      ])
+      .catch((caught) => caught);
+
+    expect(error.details.claims).toEqual([
+      {
+        claimType: "email",
+        schemaId: "urn:claim-schema:email",
+        version: 1,
+        errors: ['/ must match format "email"']
+      },
+      {
+        claimType: "age",
+        schemaId: "urn:claim-schema:age",
+        version: 1,
+        errors: expect.arrayContaining(["/ must NOT have additional properties", "/years must be >= 0"])
+      }
+    ]);
+  });
+
+  it("refuses to register an invalid JSON Schema", async () => {
+    await expect(
+      service.register(
+        { attestationType: "identity", claimType: "email", schema: { type: "no-such-type" } },
+        "did:example:admin"
+      )
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR", message: "Invalid JSON Schema" });
+  });
+});
@@ -0,0 +1,70 @@
+const {
+  buildVerificationMethod,
+  getSuite,
+  getSuiteForVerificationMethod,
+  listSuites,
+  verifyWithVerificationMethod
+} = require("../src/utils/crypto-suites");
+const { credentialProofType } = require("../src/utils/credentials");
+
+describe("crypto suites", () => {
+  it.each(listSuites().map((suite) => [suite.keyType, suite]))("%s signs and verifies", (_keyType, suite) => {
+    const { publicKey, privateKey } = suite.generateKeyPair();
+    const other = suite.generateKeyPair();
+    const signature = suite.sign("payload", privateKey);
+
+    expect(suite.getPublicKey(privateKey)).toBe(publicKey);
+    expect(suite.verify("payload", signature, publicKey)).toBe(true);
+    expect(suite.verify("payload!", signature, publicKey)).toBe(false);
+    expect(suite.verify("payload", signature, other.publicKey)).toBe(false);
+    expect(suite.verify("payload", "00", publicKey)).toBe(false);
+  });
+
+  it.each(listSuites().map((suite) => [suite.keyType, suite]))(
+    "%s verifies through its verification method",
+    (_keyType, suite) => {
+      const { publicKey, privateKey } = suite.generateKeyPair();
+      const method = buildVerificationMethod(suite, "did:example:123#keys-1", "did:example:123", publicKey);
+      const signature = suite.sign("payload", privateKey);
+
+      expect(getSuiteForVerificationMethod(method)).toBe(suite);
+      expect(verifyWithVerificationMethod(method, "payload", signature)).toBe(true);
+      expect(verifyWithVerificationMethod(method, "payload", signature, suite.proofType)).toBe(true);
+    }
+  );
+
+  it("rejects a proof type naming another suite", () => {
+    const suite = getSuite("Ed25519");
+    const { publicKey, privateKey } = suite.generateKeyPair();
+    const method = buildVerificationMethod(suite, "did:example:123#keys-1", "did:example:123", publicKey);
+
+    expect(
+      verifyWithVerificationMethod(method, "payload", suite.sign("payload", privateKey), "EcdsaSecp256k1Signature2019")
+    ).toBe(false);
+  });
+
+  // RFC 8032 section 7.1, test 1
+  it("matches the Ed25519 RFC 8032 vector", () => {
+    const suite = getSuite("Ed25519");
+    const privateKey = "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60";
+
+    expect(suite.getPublicKey(privateKey)).toBe(
+      "d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a"
+    );
+    expect(suite.sign("", privateKey)).toBe(
+      "e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b"
+    );
+  });
+
+  it("labels credential proofs with a cryptosuite only where one covers the key", () => {
+    expect(credentialProofType(getSuite("Ed25519"))).toEqual({
+      type: "DataIntegrityProof",
+      cryptosuite: "eddsa-jcs-2022"
+    });
+    expect(credentialProofType(getSuite("P-256"))).toEqual({
+      type: "DataIntegrityProof",
+      cryptosuite: "ecdsa-jcs-2019"
+    });
+    expect(credentialProofType(getSuite("secp256k1"))).toEqual({ type: "EcdsaSecp256k1Signature2019" });
+  });
+});
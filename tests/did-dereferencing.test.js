@@ -0,0 +1,107 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { didService } = require("../src/services/did-service");
+const { WebMethodDriver } = require("../src/services/did-methods/web-method-driver");
+const { KeyMethodDriver } = require("../src/services/did-methods/key-method-driver");
+const { parseDIDUrl } = require("../src/utils/did-url");
+
+const DID = "did:web:hub.example:agents:agent-1";
+
+describe("DID URL parsing", () => {
+  it("splits a DID URL into its parts", () => {
+    expect(parseDIDUrl(`${DID}/profile?service=files&relativeRef=%2Fa#top`)).toEqual({
+      did: DID,
+      path: "/profile",
+      query: { service: "files", relativeRef: "/a" },
+      fragment: "top"
+    });
+    expect(() => parseDIDUrl("not-a-did#keys-1")).toThrow("Invalid DID URL");
+  });
+});
+
+describe("DID URL dereferencing", () => {
+  let document;
+
+  beforeAll(async () => {
+    const previousDomain = process.env.DID_WEB_DOMAIN;
+    process.env.DID_WEB_DOMAIN = "hub.example";
+    ({ document } = await new WebMethodDriver().create({
+      agentId: "agent-1",
+      keyType: "Ed25519",
+      services: [
+        {
+          id: "#files",
+          type: "LinkedDomains",
+          serviceEndpoint: ["https://files.example/base/", "https://mirror.example/base/"]
+        }
+      ]
+    }));
+    if (previousDomain === undefined) {
+      delete process.env.DID_WEB_DOMAIN;
+    } else {
+      process.env.DID_WEB_DOMAIN = previousDomain;
+    }
+  });
+
+  beforeEach(() => {
+    jest.spyOn(didService, "resolveDID").mockImplementation(async (did) => {
+      if (did === DID) {
+        return { didResolutionMetadata: {}, didDocument: document, didDocumentMetadata: { versionId: "1" } };
+      }
+      return { didResolutionMetadata: { error: "notFound" }, didDocument: null, didDocumentMetadata: {} };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns the verification method a fragment names", async () => {
+    const result = await didService.dereference(`${DID}#keys-1`);
+
+    expect(result.dereferencingMetadata.contentType).toBe("application/did+json");
+    expect(result.contentStream).toEqual(document.verificationMethod[0]);
+    expect(result.contentMetadata).toEqual({ versionId: "1" });
+  });
+
+  it("builds a URL for every endpoint of the selected service", async () => {
+    const result = await didService.dereference(`${DID}?service=files&relativeRef=docs%2Fa.json#part`);
+
+    expect(result.dereferencingMetadata.contentType).toBe("text/uri-list");
+    expect(result.contentStream).toBe(
+      "https://files.example/base/docs/a.json#part\nhttps://mirror.example/base/docs/a.json#part"
+    );
+  });
+
+  it("maps did:web paths onto the DID's web location", async () => {
+    const result = await didService.dereference(`${DID}/profile.json`);
+
+    expect(result.contentStream).toBe("https://hub.example/agents/agent-1/profile.json");
+  });
+
+  it("passes version parameters on to resolution", async () => {
+    await didService.dereference(`${DID}?versionId=1#keys-1`);
+
+    expect(didService.resolveDID).toHaveBeenCalledWith(DID, { versionId: "1", versionTime: undefined });
+  });
+
+  it("reports unknown fragments, services and paths", async () => {
+    const keyDid = (await new KeyMethodDriver().create({ keyType: "Ed25519" })).did;
+    didService.resolveDID.mockResolvedValueOnce({
+      didResolutionMetadata: {},
+      didDocument: { id: keyDid, verificationMethod: [] },
+      didDocumentMetadata: {}
+    });
+    const error = async (didUrl) => (await didService.dereference(didUrl)).dereferencingMetadata.error;
+
+    expect(await error(`${keyDid}/path`)).toBe("methodNotSupported");
+    expect(await error(`${DID}#missing`)).toBe("notFound");
+    expect(await error(`${DID}?service=missing`)).toBe("notFound");
+    expect(await error("did:web:other.example#keys-1")).toBe("notFound");
+    expect(await error("nonsense")).toBe("invalidDidUrl");
+  });
+});
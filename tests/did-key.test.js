@@ -0,0 +1,100 @@
+const {
+  MULTICODEC,
+  addMulticodecPrefix,
+  decodeBase58,
+  decodeMultibase,
+  encodeBase58,
+  encodeMultibase,
+  splitMulticodec
+} = require("../src/utils/multibase");
+const { createDIDKey, expandDIDKey, parseDIDKey } = require("../src/utils/did-key");
+const { getSuite } = require("../src/utils/crypto-suites");
+const secp256k1 = require("secp256k1");
+
+describe("multibase", () => {
+  it("round-trips bytes through base58btc, keeping leading zeros", () => {
+    const bytes = Uint8Array.from([0, 0, 1, 2, 254, 255]);
+
+    expect(encodeBase58(bytes).startsWith("11")).toBe(true);
+    expect(Array.from(decodeBase58(encodeBase58(bytes)))).toEqual(Array.from(bytes));
+    expect(Array.from(decodeMultibase(encodeMultibase(bytes)))).toEqual(Array.from(bytes));
+  });
+
+  it("only accepts base58btc multibase values", () => {
+    expect(() => decodeMultibase("mAQID")).toThrow("base58btc");
+  });
+
+  it("round-trips two-byte multicodec varints", () => {
+    const key = Uint8Array.from([1, 2, 3]);
+    const prefixed = addMulticodecPrefix(MULTICODEC.P256_PUB, key);
+
+    expect(Array.from(prefixed.slice(0, 2))).toEqual([0x80, 0x24]);
+    expect(splitMulticodec(prefixed)).toEqual({ code: MULTICODEC.P256_PUB, data: key });
+  });
+});
+
+describe("did:key", () => {
+  // did:key method specification test vector
+  const ED25519_DID = "did:key:z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp";
+  const ED25519_KEY = Buffer.from(decodeBase58("4zvwRjXUKGfvwnParsHAS3HuSVzV5cA4McphgmoCtajS")).toString("hex");
+
+  it("encodes the Ed25519 spec vector", () => {
+    expect(createDIDKey(ED25519_KEY, "Ed25519")).toBe(ED25519_DID);
+    expect(parseDIDKey(ED25519_DID)).toEqual({
+      keyType: "Ed25519",
+      publicKeyHex: ED25519_KEY,
+      publicKeyMultibase: ED25519_DID.split(":")[2]
+    });
+  });
+
+  it.each([
+    ["Ed25519", "z6Mk"],
+    ["secp256k1", "zQ3s"],
+    ["P-256", "zDn"]
+  ])("round-trips generated %s keys", (keyType, prefix) => {
+    const { publicKey } = getSuite(keyType).generateKeyPair();
+    const did = createDIDKey(publicKey, keyType);
+
+    expect(did.startsWith(`did:key:${prefix}`)).toBe(true);
+    expect(parseDIDKey(did).keyType).toBe(keyType);
+    expect(createDIDKey(parseDIDKey(did).publicKeyHex, keyType)).toBe(did);
+  });
+
+  it("carries secp256k1 keys as compressed points", () => {
+    const { publicKey } = getSuite("secp256k1").generateKeyPair();
+    const uncompressed = Buffer.from(secp256k1.publicKeyConvert(Buffer.from(publicKey, "hex"), false));
+
+    expect(createDIDKey(uncompressed.toString("hex"), "secp256k1")).toBe(createDIDKey(publicKey, "secp256k1"));
+    expect(parseDIDKey(createDIDKey(publicKey, "secp256k1")).publicKeyHex).toBe(publicKey);
+  });
+
+  it("rejects keys that are not on their curve", () => {
+    const bogus = `did:key:${encodeMultibase(
+      addMulticodecPrefix(MULTICODEC.SECP256K1_PUB, Buffer.alloc(33, 7))
+    )}`;
+
+    expect(() => parseDIDKey(bogus)).toThrow("Invalid secp256k1 public key");
+  });
+
+  it("rejects unknown multicodecs", () => {
+    const x25519 = `did:key:${encodeMultibase(addMulticodecPrefix(0xec, Buffer.alloc(32, 1)))}`;
+
+    expect(() => parseDIDKey(x25519)).toThrow("Unsupported did:key multicodec: 0xec");
+  });
+
+  it("expands to a single key used for every relationship", () => {
+    const document = expandDIDKey(ED25519_DID);
+    const keyId = `${ED25519_DID}#${ED25519_DID.split(":")[2]}`;
+
+    expect(document.verificationMethod).toEqual([
+      {
+        id: keyId,
+        type: "Ed25519VerificationKey2020",
+        controller: ED25519_DID,
+        publicKeyMultibase: ED25519_DID.split(":")[2]
+      }
+    ]);
+    expect(document.authentication).toEqual([keyId]);
+    expect(document.assertionMethod).toEqual([keyId]);
+  });
+});
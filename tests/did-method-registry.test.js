@@ -0,0 +1,100 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { DIDMethodRegistry } = require("../src/services/did-method-registry");
+const { DIDService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { resolutionCache } = require("../src/services/resolution-cache");
+const { KeyMethodDriver } = require("../src/services/did-methods/key-method-driver");
+
+// An in-house method plugged in without touching DIDService
+function inHouseDriver() {
+  return {
+    method: "acme",
+    keyTypes: ["Ed25519"],
+    deterministic: true,
+    supportsServices: false,
+    create: jest.fn(async () => ({
+      did: "did:acme:123",
+      document: { id: "did:acme:123", verificationMethod: [], authentication: [] },
+      keys: [{ id: "did:acme:123#key-1", type: "Ed25519", publicKey: "pub", privateKey: "priv" }]
+    })),
+    resolve: jest.fn(async (did) => ({
+      didResolutionMetadata: { contentType: "application/did+json" },
+      didDocument: { id: did, verificationMethod: [] },
+      didDocumentMetadata: {}
+    }))
+  };
+}
+
+describe("DID method registry", () => {
+  it("registers drivers by method name and finds them from a DID", () => {
+    const registry = new DIDMethodRegistry([new KeyMethodDriver()]);
+    const acme = inHouseDriver();
+    registry.register(acme);
+
+    expect(registry.has("acme")).toBe(true);
+    expect(registry.forDID("did:acme:123")).toBe(acme);
+    expect(registry.forDID("did:ethr:0x1")).toBeUndefined();
+    expect(() => registry.get("ethr")).toThrow(expect.objectContaining({ code: "METHOD_NOT_SUPPORTED" }));
+  });
+
+  it("lists each method with the operations it supports", () => {
+    const registry = new DIDMethodRegistry();
+
+    expect(registry.listMethods().map((info) => info.method)).toEqual(["key", "peer", "web", "ethr"]);
+    expect(registry.listMethods().find((info) => info.method === "key")).toMatchObject({
+      deterministic: true,
+      operations: ["create", "resolve", "deactivate"]
+    });
+    expect(registry.listMethods().find((info) => info.method === "web").operations).toContain("update");
+  });
+});
+
+describe("DID service with plugged-in drivers", () => {
+  let acme;
+  let service;
+
+  beforeEach(() => {
+    resolutionCache.flush();
+    query.mockReset().mockResolvedValue({ rows: [] });
+    acme = inHouseDriver();
+    service = new DIDService({ methods: new DIDMethodRegistry([new KeyMethodDriver(), acme]) });
+    jest.spyOn(didDocumentStore, "create").mockResolvedValue(undefined);
+    jest.spyOn(keyCustodyService, "storeKeys").mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("creates DIDs through the registered driver and keeps its keys in custody", async () => {
+    const { did } = await service.createDID("acme", undefined, undefined, { keyType: "Ed25519" });
+
+    expect(did).toBe("did:acme:123");
+    expect(didDocumentStore.create).toHaveBeenCalledWith("did:acme:123", expect.any(Object), undefined);
+    expect(keyCustodyService.storeKeys).toHaveBeenCalledWith("did:acme:123", expect.any(Array), undefined);
+  });
+
+  it("rejects key types and methods the registry does not offer", async () => {
+    await expect(service.createDID("acme", undefined, undefined, { keyType: "secp256k1" })).rejects.toThrow(
+      "did:acme does not support secp256k1 keys"
+    );
+    await expect(service.createDID("web")).rejects.toMatchObject({ code: "METHOD_NOT_SUPPORTED" });
+    expect(service.supportsMethod("web")).toBe(false);
+  });
+
+  it("resolves through the driver that owns the method", async () => {
+    const { didDocument } = await service.resolveDID("did:acme:456");
+    expect(didDocument.id).toBe("did:acme:456");
+    expect(acme.resolve).toHaveBeenCalledWith("did:acme:456");
+
+    const unknown = await service.resolveDID("did:example:456");
+    expect(unknown.didResolutionMetadata.error).toBe("methodNotSupported");
+  });
+});
@@ -0,0 +1,110 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { transaction } = require("../src/utils/db");
+const { computeAddress } = require("ethers");
+const { DIDService } = require("../src/services/did-service");
+const { DIDMethodRegistry } = require("../src/services/did-method-registry");
+const { EthrMethodDriver } = require("../src/services/did-methods/ethr-method-driver");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { buildVerificationMethod, getSuite } = require("../src/utils/crypto-suites");
+
+const suite = getSuite("secp256k1");
+
+describe("did:ethr publication", () => {
+  let service;
+  let driver;
+  let did;
+  let previous;
+  let version;
+  let steps;
+  let sent;
+  let failNextSet;
+
+  beforeEach(async () => {
+    driver = new EthrMethodDriver();
+    const ownerKey = suite.generateKeyPair();
+    const extraKey = suite.generateKeyPair();
+    ({ did, document: previous } = await driver.create({ publicKey: ownerKey.publicKey }));
+    previous.verificationMethod.push(buildVerificationMethod(suite, `${did}#keys-2`, did, extraKey.publicKey));
+    previous.assertionMethod.push(`${did}#keys-2`);
+
+    // keys-2 moves from assertion to authentication: one revoke, then one set
+    const document = { ...structuredClone(previous), authentication: [`${did}#keys-1`, `${did}#keys-2`] };
+    version = { did, versionId: 2, document, pendingPublication: "update" };
+
+    sent = [];
+    failNextSet = true;
+    let count = 0;
+    driver.registry = {
+      identityOwner: jest.fn(async () => computeAddress(`0x${ownerKey.publicKey}`)),
+      revokeAttribute: jest.fn(async (identity, name) => {
+        sent.push(["revoke", name]);
+        return `0xtx${++count}`;
+      }),
+      setAttribute: jest.fn(async (identity, name) => {
+        if (failNextSet) {
+          failNextSet = false;
+          throw new Error("nonce too low");
+        }
+        sent.push(["set", name]);
+        return `0xtx${++count}`;
+      })
+    };
+    service = new DIDService({ methods: new DIDMethodRegistry([driver]) });
+
+    // The version row's saved steps, as the store would persist them
+    steps = [];
+    jest.spyOn(didDocumentStore, "listUnpublished").mockImplementation(async () => [version]);
+    jest.spyOn(didDocumentStore, "getVersion").mockResolvedValue({ did, versionId: 1, document: previous });
+    jest.spyOn(didDocumentStore, "getCurrent").mockResolvedValue({ did, versionId: 2, document });
+    jest.spyOn(didDocumentStore, "claimUnpublished").mockImplementation(async () => [...steps]);
+    jest.spyOn(didDocumentStore, "recordPublishedStep").mockImplementation(async (d, v, step) => {
+      steps.push(step);
+    });
+    jest.spyOn(didDocumentStore, "releaseClaim").mockResolvedValue(undefined);
+    jest.spyOn(didDocumentStore, "recordTransactions").mockResolvedValue(undefined);
+    jest.spyOn(keyCustodyService, "signDigest").mockResolvedValue("0xsignature");
+    jest.spyOn(keyCustodyService, "retainKeys").mockResolvedValue(undefined);
+    transaction.mockReset().mockImplementation(async (callback) => callback({ query: jest.fn() }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("keeps the confirmed steps and releases the version when a publish fails partway", async () => {
+    await service.publishPending(did);
+
+    expect(sent).toEqual([["revoke", "did/pub/Secp256k1/veriKey/hex"]]);
+    expect(steps).toEqual([{ step: expect.stringMatching(/^revoke:/), transactionHash: "0xtx1" }]);
+    expect(didDocumentStore.releaseClaim).toHaveBeenCalledWith(did, 2);
+    expect(didDocumentStore.recordTransactions).not.toHaveBeenCalled();
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it("sends only the remaining steps on the next attempt", async () => {
+    await service.publishPending(did);
+    await service.publishPending(did);
+
+    expect(sent).toEqual([
+      ["revoke", "did/pub/Secp256k1/veriKey/hex"],
+      ["set", "did/pub/Secp256k1/sigAuth/hex"]
+    ]);
+    expect(didDocumentStore.recordTransactions).toHaveBeenCalledWith(did, 2, ["0xtx1", "0xtx2"], expect.anything());
+    expect(keyCustodyService.retainKeys).toHaveBeenCalled();
+  });
+
+  it("leaves a version alone while another publisher holds its lease", async () => {
+    didDocumentStore.claimUnpublished.mockResolvedValue(null);
+
+    await service.publishPending(did);
+
+    expect(driver.registry.identityOwner).not.toHaveBeenCalled();
+    expect(didDocumentStore.recordTransactions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query, transaction } = require("../src/utils/db");
+const { DIDUpdateService } = require("../src/services/did-update-service");
+const { didService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { buildVerificationMethod, getSuite } = require("../src/utils/crypto-suites");
+
+const SUBJECT = "did:example:subject";
+const ALICE = "did:example:alice";
+const BOB = "did:example:bob";
+const CAROL = "did:example:carol";
+
+const suite = getSuite("secp256k1");
+const keys = {
+  [`${ALICE}#keys-1`]: suite.generateKeyPair(),
+  [`${ALICE}#keys-2`]: suite.generateKeyPair(),
+  [`${BOB}#keys-1`]: suite.generateKeyPair(),
+  [`${CAROL}#keys-1`]: suite.generateKeyPair()
+};
+
+function invocationMethods(did) {
+  return Object.entries(keys)
+    .filter(([keyId]) => keyId.startsWith(`${did}#`))
+    .map(([keyId, { publicKey }]) => buildVerificationMethod(suite, keyId, did, publicKey));
+}
+
+function prove(keyId, signingInput) {
+  return { keyId, signature: suite.sign(signingInput, keys[keyId].privateKey) };
+}
+
+const OPERATION = {
+  type: "addService",
+  service: { id: "#messaging", type: "DIDCommMessaging", serviceEndpoint: "https://example.com/didcomm" }
+};
+
+describe("threshold DID updates", () => {
+  let service;
+  let client;
+  let versionId;
+  let threshold;
+
+  beforeEach(() => {
+    service = new DIDUpdateService();
+    versionId = 4;
+    threshold = 2;
+
+    query.mockReset().mockImplementation(async (sql) =>
+      sql.includes("FROM did_update_policies") ? { rows: [{ threshold }] } : { rows: [] }
+    );
+    client = {
+      query: jest.fn(async (sql) => {
+        if (sql.includes("FROM identities")) {
+          return { rows: [{ version_id: versionId, document: { id: SUBJECT, controller: [ALICE, BOB] } }] };
+        }
+        if (sql.includes("FROM did_pending_updates")) {
+          return { rows: [{ status: "pending" }] };
+        }
+        return { rows: [] };
+      })
+    };
+    transaction.mockReset().mockImplementation((callback) => callback(client));
+
+    jest.spyOn(didService, "assertMutable").mockImplementation(() => undefined);
+    jest.spyOn(didDocumentStore, "getCurrent").mockImplementation(async () => ({
+      did: SUBJECT,
+      versionId,
+      document: { id: SUBJECT, controller: [ALICE, BOB] }
+    }));
+    jest.spyOn(didService, "getInvocationMethods").mockImplementation(async (did) => invocationMethods(did));
+    jest.spyOn(didService, "addServiceEndpoint").mockResolvedValue({ id: SUBJECT, controller: [ALICE, BOB] });
+    jest.spyOn(didService, "publishPending").mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function signingInput() {
+    return service.buildSigningInput(SUBJECT, versionId, OPERATION);
+  }
+
+  it("keeps an update pending until the threshold is met", async () => {
+    const result = await service.submitUpdate(SUBJECT, OPERATION, [prove(`${ALICE}#keys-1`, signingInput())]);
+
+    expect(result.status).toBe("pending");
+    expect(result.update).toMatchObject({ threshold: 2, baseVersionId: 4 });
+    expect(result.update.approvals.map((approval) => approval.controller)).toEqual([ALICE]);
+    expect(didService.addServiceEndpoint).not.toHaveBeenCalled();
+    expect(didService.publishPending).not.toHaveBeenCalled();
+  });
+
+  it("applies the update once enough controllers have signed", async () => {
+    const input = signingInput();
+    const result = await service.submitUpdate(SUBJECT, OPERATION, [
+      prove(`${ALICE}#keys-1`, input),
+      prove(`${BOB}#keys-1`, input)
+    ]);
+
+    expect(result.status).toBe("applied");
+    expect(didService.addServiceEndpoint).toHaveBeenCalledWith(SUBJECT, OPERATION.service, client);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining("UPDATE did_pending_updates SET status"), [
+      "superseded",
+      SUBJECT,
+      "pending",
+      result.update.id
+    ]);
+    expect(didService.publishPending).toHaveBeenCalledWith(SUBJECT);
+  });
+
+  it("counts each controller once, whichever of its keys signed", async () => {
+    const input = signingInput();
+    const result = await service.submitUpdate(SUBJECT, OPERATION, [
+      prove(`${ALICE}#keys-1`, input),
+      prove(`${ALICE}#keys-2`, input)
+    ]);
+
+    expect(result.status).toBe("pending");
+    expect(result.update.approvals).toHaveLength(1);
+  });
+
+  it("requires at least one controller proof", async () => {
+    await expect(service.submitUpdate(SUBJECT, OPERATION, [])).rejects.toMatchObject({
+      code: "AUTHORIZATION_ERROR",
+      message: "At least one controller must sign a proposed update"
+    });
+    expect(transaction).not.toHaveBeenCalled();
+  });
+
+  it("rejects proofs from keys outside the controller set", async () => {
+    await expect(
+      service.submitUpdate(SUBJECT, OPERATION, [prove(`${CAROL}#keys-1`, signingInput())])
+    ).rejects.toMatchObject({ code: "AUTHORIZATION_ERROR" });
+  });
+
+  it("rejects signatures over another version of the document", async () => {
+    const stale = service.buildSigningInput(SUBJECT, versionId - 1, OPERATION);
+
+    await expect(
+      service.submitUpdate(SUBJECT, OPERATION, [prove(`${ALICE}#keys-1`, stale)])
+    ).rejects.toMatchObject({ code: "AUTHORIZATION_ERROR", message: `Invalid controller signature from ${ALICE}#keys-1` });
+  });
+
+  it("does not allow a threshold above the number of controllers", async () => {
+    const operation = { type: "setThreshold", threshold: 3 };
+    const input = service.buildSigningInput(SUBJECT, versionId, operation);
+
+    await expect(
+      service.submitUpdate(SUBJECT, operation, [prove(`${ALICE}#keys-1`, input)])
+    ).rejects.toMatchObject({ code: "VALIDATION_ERROR" });
+  });
+
+  it("applies on the approval that reaches the threshold", async () => {
+    const pending = (await service.submitUpdate(SUBJECT, OPERATION, [prove(`${ALICE}#keys-1`, signingInput())]))
+      .update;
+    jest.spyOn(service, "getPendingUpdate").mockResolvedValue(pending);
+
+    const result = await service.approveUpdate(SUBJECT, pending.id, [prove(`${BOB}#keys-1`, pending.signingInput)]);
+
+    expect(result.status).toBe("applied");
+    expect(result.update.approvals.map((approval) => approval.controller)).toEqual([ALICE, BOB]);
+    expect(didService.addServiceEndpoint).toHaveBeenCalledTimes(1);
+  });
+
+  it("supersedes an update whose base version has moved on", async () => {
+    const pending = (await service.submitUpdate(SUBJECT, OPERATION, [prove(`${ALICE}#keys-1`, signingInput())]))
+      .update;
+    jest.spyOn(service, "getPendingUpdate").mockResolvedValue(pending);
+    versionId = 5;
+
+    const result = await service.approveUpdate(SUBJECT, pending.id, [prove(`${BOB}#keys-1`, pending.signingInput)]);
+
+    expect(result.status).toBe("superseded");
+    expect(didService.addServiceEndpoint).not.toHaveBeenCalled();
+    expect(didService.publishPending).not.toHaveBeenCalled();
+  });
+
+  it("does not reapply an update that is no longer pending", async () => {
+    const pending = (await service.submitUpdate(SUBJECT, OPERATION, [prove(`${ALICE}#keys-1`, signingInput())]))
+      .update;
+    jest.spyOn(service, "getPendingUpdate").mockResolvedValue({ ...pending, status: "applied" });
+
+    await expect(
+      service.approveUpdate(SUBJECT, pending.id, [prove(`${BOB}#keys-1`, pending.signingInput)])
+    ).rejects.toMatchObject({ code: "CONFLICT" });
+  });
+});
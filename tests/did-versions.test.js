@@ -0,0 +1,102 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { didService } = require("../src/services/did-service");
+const { resolutionCache } = require("../src/services/resolution-cache");
+
+const DID = "did:web:example.com:agents:alice";
+
+function documentWith(service) {
+  return { "@context": ["https://www.w3.org/ns/did/v1"], id: DID, verificationMethod: [], service };
+}
+
+// Three stored versions a day apart, answered the way Postgres would
+const versions = [
+  { did: DID, version_id: 1, document: documentWith([]), created_at: new Date("2026-01-01T00:00:00Z") },
+  {
+    did: DID,
+    version_id: 2,
+    document: documentWith([{ id: "#a", type: "Messaging", serviceEndpoint: "https://a.example" }]),
+    created_at: new Date("2026-01-02T00:00:00Z")
+  },
+  {
+    did: DID,
+    version_id: 3,
+    document: documentWith([{ id: "#b", type: "Messaging", serviceEndpoint: "https://b.example" }]),
+    created_at: new Date("2026-01-03T00:00:00Z")
+  }
+];
+
+function answer(sql, params) {
+  if (sql.includes("FROM identities i")) {
+    const latest = versions[versions.length - 1];
+    return { rows: [{ ...latest, deactivated_at: null }] };
+  }
+  if (sql.includes("MIN(version_id)")) {
+    const next = versions.find((v) => v.version_id > params[1]);
+    return { rows: [{ next: next ? next.version_id : null }] };
+  }
+  if (sql.includes("created_at <= $2")) {
+    const at = versions.filter((v) => v.created_at <= params[1]);
+    return { rows: at.slice(-1) };
+  }
+  if (sql.includes("version_id = $2")) {
+    return { rows: versions.filter((v) => v.version_id === params[1]) };
+  }
+  return { rows: [] };
+}
+
+describe("DID version history resolution", () => {
+  beforeEach(() => {
+    resolutionCache.flush();
+    query.mockReset().mockImplementation(async (sql, params) => answer(sql, params));
+  });
+
+  it("resolves the current version by default", async () => {
+    const { didDocument, didDocumentMetadata } = await didService.resolveDID(DID);
+
+    expect(didDocument.service[0].id).toBe("#b");
+    expect(didDocumentMetadata.versionId).toBe("3");
+    expect(didDocumentMetadata.nextVersionId).toBeUndefined();
+  });
+
+  it("resolves an earlier version by versionId and links to the next one", async () => {
+    const { didDocument, didDocumentMetadata } = await didService.resolveDID(`${DID}?versionId=1`);
+
+    expect(didDocument.service).toEqual([]);
+    expect(didDocumentMetadata).toMatchObject({
+      versionId: "1",
+      nextVersionId: "2",
+      updated: "2026-01-01T00:00:00.000Z"
+    });
+  });
+
+  it("resolves the version that was current at a versionTime", async () => {
+    const { didDocument, didDocumentMetadata } = await didService.resolveDID(DID, {
+      versionTime: "2026-01-02T12:00:00Z"
+    });
+
+    expect(didDocument.service[0].id).toBe("#a");
+    expect(didDocumentMetadata.versionId).toBe("2");
+  });
+
+  it("reports notFound for a version that does not exist", async () => {
+    for (const options of [{ versionId: "9" }, { versionId: "latest" }, { versionTime: "2025-12-31T00:00:00Z" }]) {
+      const result = await didService.resolveDID(DID, options);
+      expect(result.didDocument).toBeNull();
+      expect(result.didResolutionMetadata.error).toBe("notFound");
+    }
+  });
+
+  it("caches each version under its own key", async () => {
+    await didService.resolveDID(`${DID}?versionId=1`);
+    const current = await didService.resolveDID(DID);
+
+    expect(current.didDocumentMetadata.versionId).toBe("3");
+    expect(resolutionCache.listEntries().map((entry) => entry.key).sort()).toEqual([DID, `${DID}?versionId=1`]);
+  });
+});
@@ -0,0 +1,113 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const express = require("express");
+const { query } = require("../src/utils/db");
+const didWebRoutes = require("../src/routes/did-web").default;
+const { didService } = require("../src/services/did-service");
+const { WebMethodDriver, isPrivateAddress } = require("../src/services/did-methods/web-method-driver");
+const { createDIDWeb, didWebToUrl } = require("../src/utils/did-web");
+
+const AGENT_DID = "did:web:hub.example%3A8443:agents:agent-1";
+
+// Assigning undefined to process.env would store the string "undefined"
+function restoreDomain(value) {
+  if (value === undefined) {
+    delete process.env.DID_WEB_DOMAIN;
+  } else {
+    process.env.DID_WEB_DOMAIN = value;
+  }
+}
+
+describe("did:web identifiers", () => {
+  it("percent-encodes the port and maps paths to did.json locations", () => {
+    expect(createDIDWeb("hub.example:8443", ["agents", "agent-1"])).toBe(AGENT_DID);
+    expect(didWebToUrl(AGENT_DID)).toBe("https://hub.example:8443/agents/agent-1/did.json");
+    expect(didWebToUrl("did:web:hub.example#keys-1")).toBe("https://hub.example/.well-known/did.json");
+    expect(didWebToUrl("did:web:localhost%3A3000")).toBe("http://localhost:3000/.well-known/did.json");
+  });
+
+  it("refuses to fetch from private addresses", () => {
+    expect(isPrivateAddress("10.1.2.3")).toBe(true);
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("fe80::1")).toBe(true);
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+  });
+});
+
+describe("did:web method driver", () => {
+  const previousDomain = process.env.DID_WEB_DOMAIN;
+
+  beforeAll(() => {
+    process.env.DID_WEB_DOMAIN = "hub.example:8443";
+  });
+
+  afterAll(() => {
+    restoreDomain(previousDomain);
+  });
+
+  it("creates agent identities under the hub's /agents path", async () => {
+    const { did, document, keys } = await new WebMethodDriver().create({ agentId: "agent-1", keyType: "Ed25519" });
+
+    expect(did).toBe(AGENT_DID);
+    expect(document.verificationMethod[0].id).toBe(`${AGENT_DID}#keys-1`);
+    expect(keys).toHaveLength(1);
+  });
+
+  it("rejects a fetched document published for another DID", async () => {
+    const driver = new WebMethodDriver(async () => ({ id: "did:web:other.example" }));
+
+    await expect(driver.resolve("did:web:foreign.example")).rejects.toMatchObject({ code: "DID_ERROR" });
+  });
+
+  it("reports notFound when nothing is published", async () => {
+    const driver = new WebMethodDriver(async () => null);
+
+    const result = await driver.resolve("did:web:foreign.example");
+    expect(result.didResolutionMetadata.error).toBe("notFound");
+  });
+});
+
+describe("did:web document routes", () => {
+  const previousDomain = process.env.DID_WEB_DOMAIN;
+  const document = { "@context": ["https://www.w3.org/ns/did/v1"], id: AGENT_DID, verificationMethod: [] };
+  let server;
+  let baseUrl;
+
+  beforeAll(async () => {
+    process.env.DID_WEB_DOMAIN = "hub.example:8443";
+    const app = express();
+    app.use(didWebRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterAll(async () => {
+    restoreDomain(previousDomain);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    query.mockReset().mockImplementation(async (sql, params) =>
+      sql.includes("FROM identities i") && params[0] === AGENT_DID
+        ? { rows: [{ did: AGENT_DID, version_id: 1, document, created_at: new Date() }] }
+        : { rows: [] }
+    );
+  });
+
+  it("serves an agent's stored document at /agents/:id/did.json", async () => {
+    const response = await fetch(`${baseUrl}/agents/agent-1/did.json`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(document);
+  });
+
+  it("looks agent documents up by the hub's own did:web identifier", async () => {
+    await expect(didService.getAgentWebDocument("agent-2")).rejects.toMatchObject({ statusCode: 404 });
+    expect(query.mock.calls[0][1]).toEqual(["did:web:hub.example%3A8443:agents:agent-2"]);
+  });
+});
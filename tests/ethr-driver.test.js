@@ -0,0 +1,194 @@
+const { ZeroAddress, computeAddress, hexlify, toUtf8Bytes } = require("ethers");
+const { EthrMethodDriver } = require("../src/services/did-methods/ethr-method-driver");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { buildVerificationMethod, getSuite } = require("../src/utils/crypto-suites");
+
+const suite = getSuite("secp256k1");
+
+// Stands in for the ERC-1056 registry contract, recording each call in order
+function fakeRegistry(initialOwner) {
+  let owner = initialOwner;
+  const calls = [];
+  let count = 0;
+  const record = (call) => {
+    calls.push(call);
+    return `0xtx${++count}`;
+  };
+  return {
+    calls,
+    identityOwner: jest.fn(async () => owner),
+    setAttribute: jest.fn(async (identity, name, value, sign) => {
+      await sign("0xdigest");
+      return record(["set", name, value]);
+    }),
+    revokeAttribute: jest.fn(async (identity, name, value, sign) => {
+      await sign("0xdigest");
+      return record(["revoke", name, value]);
+    }),
+    changeOwner: jest.fn(async (identity, newOwner, sign) => {
+      await sign("0xdigest");
+      owner = newOwner;
+      return record(["changeOwner", newOwner]);
+    })
+  };
+}
+
+// What the publisher passes in: steps an earlier attempt confirmed, saved as they land
+function freshProgress(completed = []) {
+  return { completed: [...completed], record: jest.fn().mockResolvedValue(undefined) };
+}
+
+function keyHex(publicKey) {
+  return `0x${publicKey}`;
+}
+
+describe("did:ethr registry updates", () => {
+  let driver;
+  let did;
+  let ownerKey;
+  let extraKey;
+  let previous;
+
+  beforeEach(async () => {
+    driver = new EthrMethodDriver();
+    ownerKey = suite.generateKeyPair();
+    extraKey = suite.generateKeyPair();
+    ({ did, document: previous } = await driver.create({ publicKey: ownerKey.publicKey }));
+    previous.verificationMethod.push(buildVerificationMethod(suite, `${did}#keys-2`, did, extraKey.publicKey));
+    previous.assertionMethod.push(`${did}#keys-2`);
+
+    driver.registry = fakeRegistry(computeAddress(keyHex(ownerKey.publicKey)));
+    jest.spyOn(keyCustodyService, "signDigest").mockResolvedValue("0xsignature");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function withChanges(changes) {
+    return { ...structuredClone(previous), ...changes };
+  }
+
+  it("publishes nothing when the document is unchanged", async () => {
+    await expect(driver.update(did, structuredClone(previous), previous, freshProgress())).resolves.toEqual([]);
+    expect(driver.registry.calls).toEqual([]);
+  });
+
+  it("moves a key from veriKey to sigAuth when it starts authenticating", async () => {
+    const document = withChanges({ authentication: [`${did}#keys-1`, `${did}#keys-2`] });
+
+    const hashes = await driver.update(did, document, previous, freshProgress());
+
+    expect(driver.registry.calls).toEqual([
+      ["revoke", "did/pub/Secp256k1/veriKey/hex", keyHex(extraKey.publicKey)],
+      ["set", "did/pub/Secp256k1/sigAuth/hex", keyHex(extraKey.publicKey)]
+    ]);
+    expect(hashes).toEqual(["0xtx1", "0xtx2"]);
+  });
+
+  it("signs with the custodied key that owns the identity", async () => {
+    const added = suite.generateKeyPair();
+    const document = withChanges({});
+    document.verificationMethod.push(buildVerificationMethod(suite, `${did}#keys-3`, did, added.publicKey));
+
+    await driver.update(did, document, previous, freshProgress());
+
+    expect(driver.registry.calls).toEqual([["set", "did/pub/Secp256k1/veriKey/hex", keyHex(added.publicKey)]]);
+    expect(keyCustodyService.signDigest).toHaveBeenCalledWith(did, "0xdigest", `${did}#keys-1`);
+  });
+
+  it("republishes a service whose endpoint changed", async () => {
+    previous.service = [{ id: `${did}#hub`, type: "LinkedDomains", serviceEndpoint: "https://old.example.com" }];
+    const document = withChanges({
+      service: [{ id: `${did}#hub`, type: "LinkedDomains", serviceEndpoint: "https://new.example.com" }]
+    });
+
+    await driver.update(did, document, previous, freshProgress());
+
+    expect(driver.registry.calls).toEqual([
+      ["revoke", "did/svc/LinkedDomains", hexlify(toUtf8Bytes("https://old.example.com"))],
+      ["set", "did/svc/LinkedDomains", hexlify(toUtf8Bytes("https://new.example.com"))]
+    ]);
+  });
+
+  it("hands ownership to the next authentication key after the owner key is revoked", async () => {
+    const document = withChanges({ authentication: [`${did}#keys-2`] });
+    document.verificationMethod[0] = { ...document.verificationMethod[0], revoked: new Date().toISOString() };
+
+    await driver.update(did, document, previous, freshProgress());
+
+    expect(driver.registry.calls).toEqual([
+      ["revoke", "did/pub/Secp256k1/veriKey/hex", keyHex(extraKey.publicKey)],
+      ["set", "did/pub/Secp256k1/sigAuth/hex", keyHex(extraKey.publicKey)],
+      ["changeOwner", computeAddress(keyHex(extraKey.publicKey))]
+    ]);
+    expect(keyCustodyService.signDigest).toHaveBeenCalledTimes(3);
+    expect(keyCustodyService.signDigest).toHaveBeenLastCalledWith(did, "0xdigest", `${did}#keys-1`);
+  });
+
+  it("refuses to sign when no key in the document owns the identity", async () => {
+    driver.registry = fakeRegistry(computeAddress(keyHex(suite.generateKeyPair().publicKey)));
+
+    await expect(driver.update(did, withChanges({}), previous, freshProgress())).rejects.toMatchObject({
+      code: "ETHR_OWNER_UNKNOWN"
+    });
+  });
+
+  it("deactivates by handing ownership to the zero address", async () => {
+    await expect(driver.deactivate(did, previous, freshProgress())).resolves.toEqual(["0xtx1"]);
+    expect(driver.registry.calls).toEqual([["changeOwner", ZeroAddress]]);
+  });
+
+  it("records each transaction as soon as it is confirmed", async () => {
+    const progress = freshProgress();
+    const document = withChanges({ authentication: [`${did}#keys-1`, `${did}#keys-2`] });
+
+    await driver.update(did, document, previous, progress);
+
+    expect(progress.record.mock.calls).toEqual([
+      [{ step: `revoke:did/pub/Secp256k1/veriKey/hex:${keyHex(extraKey.publicKey)}`, transactionHash: "0xtx1" }],
+      [{ step: `set:did/pub/Secp256k1/sigAuth/hex:${keyHex(extraKey.publicKey)}`, transactionHash: "0xtx2" }]
+    ]);
+  });
+
+  it("resumes after the steps an earlier attempt confirmed", async () => {
+    const document = withChanges({ authentication: [`${did}#keys-1`, `${did}#keys-2`] });
+    const progress = freshProgress([
+      { step: `revoke:did/pub/Secp256k1/veriKey/hex:${keyHex(extraKey.publicKey)}`, transactionHash: "0xearlier" }
+    ]);
+
+    const hashes = await driver.update(did, document, previous, progress);
+
+    expect(driver.registry.calls).toEqual([["set", "did/pub/Secp256k1/sigAuth/hex", keyHex(extraKey.publicKey)]]);
+    expect(hashes).toEqual(["0xearlier", "0xtx1"]);
+  });
+
+  it("signs with the new owner when an ownership change landed before it was recorded", async () => {
+    const document = withChanges({ authentication: [`${did}#keys-2`] });
+    document.verificationMethod[0] = { ...document.verificationMethod[0], revoked: new Date().toISOString() };
+    const steps = [
+      { step: `revoke:did/pub/Secp256k1/veriKey/hex:${keyHex(extraKey.publicKey)}`, transactionHash: "0xa" },
+      { step: `set:did/pub/Secp256k1/sigAuth/hex:${keyHex(extraKey.publicKey)}`, transactionHash: "0xb" }
+    ];
+    driver.registry = fakeRegistry(computeAddress(keyHex(extraKey.publicKey)));
+
+    const hashes = await driver.update(did, document, previous, freshProgress(steps));
+
+    expect(driver.registry.calls).toEqual([]);
+    expect(hashes).toEqual(["0xa", "0xb"]);
+  });
+
+  it("does not deactivate twice when the first attempt was mined but not recorded", async () => {
+    driver.registry = fakeRegistry(ZeroAddress);
+
+    await expect(driver.deactivate(did, previous, freshProgress())).resolves.toEqual([]);
+    expect(driver.registry.calls).toEqual([]);
+  });
+
+  it("stays hub-local without a relayer", async () => {
+    driver.registry = undefined;
+
+    await expect(driver.update(did, withChanges({ service: [] }), previous, freshProgress())).resolves.toEqual([]);
+    await expect(driver.deactivate(did, previous, freshProgress())).resolves.toEqual([]);
+  });
+});
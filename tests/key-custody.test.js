@@ -0,0 +1,151 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const secp256k1 = require("secp256k1");
+const { query } = require("../src/utils/db");
+const { KeyCustodyService } = require("../src/services/key-custody-service");
+const { getSuite } = require("../src/utils/crypto-suites");
+
+const DID = "did:web:hub.example:agents:custody";
+const ed25519 = getSuite("Ed25519");
+const secp = getSuite("secp256k1");
+
+const ENV_KEYS = [
+  "KEY_CUSTODY_MASTER_KEY",
+  "KEY_CUSTODY_MASTER_KEY_VERSION",
+  "KEY_CUSTODY_MASTER_KEY_V1",
+  "NODE_ENV"
+];
+
+// The identities row's custody columns
+function identityRow() {
+  const row = { encrypted_private_key: null, key_version: 0 };
+  const handler = async (sql, params) => {
+    if (sql.includes("SET encrypted_private_key = $1")) {
+      row.encrypted_private_key = params[0];
+      row.key_version++;
+      return { rows: [{ key_version: row.key_version }] };
+    }
+    if (sql.includes("SET encrypted_private_key = NULL")) {
+      row.encrypted_private_key = null;
+      row.key_version++;
+      return { rows: [] };
+    }
+    return { rows: [{ ...row }] };
+  };
+  return { row, handler };
+}
+
+function custodied(id, suite, type) {
+  return { id, type, ...suite.generateKeyPair() };
+}
+
+describe("key custody", () => {
+  const savedEnv = {};
+  let identity;
+  let service;
+
+  beforeEach(() => {
+    for (const name of ENV_KEYS) {
+      savedEnv[name] = process.env[name];
+    }
+    process.env.KEY_CUSTODY_MASTER_KEY = "master-key-one";
+    delete process.env.KEY_CUSTODY_MASTER_KEY_VERSION;
+
+    identity = identityRow();
+    query.mockReset().mockImplementation(identity.handler);
+    service = new KeyCustodyService();
+  });
+
+  afterEach(() => {
+    for (const name of ENV_KEYS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  it("stores keys encrypted and signs with them", async () => {
+    const key = custodied(`${DID}#keys-1`, ed25519, "Ed25519");
+
+    await expect(service.storeKeys(DID, [key])).resolves.toBe(1);
+
+    expect(identity.row.encrypted_private_key).not.toContain(key.privateKey);
+    expect(JSON.parse(identity.row.encrypted_private_key).masterKeyVersion).toBe(1);
+    const { signature, keyId } = await service.sign(DID, "payload", `${DID}#keys-1`);
+    expect(keyId).toBe(key.id);
+    expect(ed25519.verify("payload", signature, key.publicKey)).toBe(true);
+  });
+
+  it("replaces one key and leaves the others in the envelope", async () => {
+    const signing = custodied("#keys-1", secp, "secp256k1");
+    const agreement = { id: "#key-agreement-1", type: "X25519", publicKey: "00", privateKey: "00" };
+    await service.storeKeys(DID, [signing, agreement]);
+
+    const next = custodied("#keys-2", secp, "secp256k1");
+    await service.replaceKey(DID, `${DID}#keys-1`, next);
+
+    expect(await service.listKeyIds(DID)).toEqual(["#key-agreement-1", "#keys-2"]);
+    await expect(service.sign(DID, "payload", `${DID}#keys-1`)).rejects.toMatchObject({
+      code: "KEY_NOT_IN_CUSTODY"
+    });
+    await expect(service.sign(DID, "payload", "#key-agreement-1")).rejects.toMatchObject({
+      code: "UNSUPPORTED_KEY_TYPE"
+    });
+  });
+
+  it("releases the envelope once no retained key is left", async () => {
+    await service.storeKeys(DID, [
+      custodied("#keys-1", secp, "secp256k1"),
+      custodied("#keys-2", secp, "secp256k1")
+    ]);
+
+    await service.retainKeys(DID, [`${DID}#keys-2`]);
+    expect(await service.listKeyIds(DID)).toEqual(["#keys-2"]);
+
+    await service.retainKeys(DID, []);
+    expect(identity.row.encrypted_private_key).toBeNull();
+    await expect(service.hasKeys(DID)).resolves.toBe(false);
+  });
+
+  it("signs raw digests recoverably for ledger meta-transactions", async () => {
+    const key = custodied("#keys-1", secp, "secp256k1");
+    await service.storeKeys(DID, [key]);
+    const digest = "0x" + "ab".repeat(32);
+
+    const { signature, recovery } = await service.signDigest(DID, digest, `${DID}#keys-1`);
+
+    const message = Buffer.from(digest.slice(2), "hex");
+    const recovered = secp256k1.ecdsaRecover(Buffer.from(signature, "hex"), recovery, message);
+    expect(Buffer.from(recovered).toString("hex")).toBe(key.publicKey);
+  });
+
+  it("rewraps envelopes under a new master key version", async () => {
+    await service.storeKeys(DID, [custodied("#keys-1", ed25519, "Ed25519")]);
+
+    process.env.KEY_CUSTODY_MASTER_KEY_V1 = "master-key-one";
+    process.env.KEY_CUSTODY_MASTER_KEY = "master-key-two";
+    process.env.KEY_CUSTODY_MASTER_KEY_VERSION = "2";
+    const rotated = new KeyCustodyService();
+    await rotated.rewrap(DID);
+
+    expect(JSON.parse(identity.row.encrypted_private_key).masterKeyVersion).toBe(2);
+    delete process.env.KEY_CUSTODY_MASTER_KEY_V1;
+    await expect(rotated.listKeyIds(DID)).resolves.toEqual(["#keys-1"]);
+  });
+
+  it("refuses to fall back to the development master key in production", async () => {
+    process.env.NODE_ENV = "production";
+    delete process.env.KEY_CUSTODY_MASTER_KEY;
+
+    await expect(service.storeKeys(DID, [custodied("#keys-1", ed25519, "Ed25519")])).rejects.toMatchObject({
+      code: "CUSTODY_CONFIGURATION_ERROR"
+    });
+    expect(identity.row.encrypted_private_key).toBeNull();
+  });
+});
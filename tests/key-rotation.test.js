@@ -0,0 +1,94 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { transaction } = require("../src/utils/db");
+const { didService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { WebMethodDriver } = require("../src/services/did-methods/web-method-driver");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createKeyCommitment } = require("../src/utils/crypto");
+
+const suite = getSuite("Ed25519");
+
+describe("key rotation", () => {
+  let did;
+  let document;
+  let saved;
+  let client;
+
+  beforeEach(async () => {
+    ({ did, document } = await new WebMethodDriver().create({ agentId: "rotating", keyType: "Ed25519" }));
+    saved = [];
+    client = { query: jest.fn() };
+
+    jest.spyOn(didDocumentStore, "getCurrent").mockImplementation(async () => ({
+      did,
+      versionId: saved.length + 1,
+      document: saved.length > 0 ? saved[saved.length - 1] : document,
+      createdAt: new Date()
+    }));
+    jest.spyOn(didDocumentStore, "update").mockImplementation(async (d, next) => {
+      saved.push(next);
+      return { did, versionId: saved.length + 1, document: next, createdAt: new Date() };
+    });
+    jest.spyOn(keyCustodyService, "replaceKey").mockResolvedValue(undefined);
+    jest.spyOn(didService, "publishPending").mockResolvedValue(undefined);
+    transaction.mockReset().mockImplementation(async (callback) => callback(client));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("revokes the old key and moves its relationships to a hub-generated key", async () => {
+    const result = await didService.rotateKey(did);
+
+    expect(result).toMatchObject({ keyId: `${did}#keys-2`, previousKeyId: `${did}#keys-1` });
+    const [rotated] = saved;
+    expect(rotated.verificationMethod.find((vm) => vm.id === `${did}#keys-1`).revoked).toBe(result.rotatedAt);
+    expect(rotated.authentication).toEqual([`${did}#keys-2`]);
+    expect(rotated.assertionMethod).toEqual([`${did}#keys-2`]);
+    expect(keyCustodyService.replaceKey).toHaveBeenCalledWith(
+      did,
+      `${did}#keys-1`,
+      expect.objectContaining({ id: `${did}#keys-2`, type: "Ed25519", publicKey: result.publicKey }),
+      client
+    );
+  });
+
+  it("takes a caller-supplied key out of hub custody", async () => {
+    const { publicKey } = suite.generateKeyPair();
+
+    const result = await didService.rotateKey(did, { publicKey });
+
+    expect(result.publicKey).toBe(publicKey);
+    expect(keyCustodyService.replaceKey).toHaveBeenCalledWith(did, `${did}#keys-1`, undefined, client);
+  });
+
+  it("only accepts the committed key once a pre-rotation commitment is set", async () => {
+    const next = suite.generateKeyPair();
+    await didService.rotateKey(did, { nextKeyCommitment: createKeyCommitment(next.publicKey) });
+    expect(saved[0].nextKeyCommitment).toBe(createKeyCommitment(next.publicKey));
+
+    await expect(didService.rotateKey(did)).rejects.toMatchObject({ statusCode: 400 });
+    const uncommitted = suite.generateKeyPair().publicKey;
+    await expect(didService.rotateKey(did, { publicKey: uncommitted })).rejects.toMatchObject({
+      code: "KEY_COMMITMENT_MISMATCH"
+    });
+
+    const result = await didService.rotateKey(did, { publicKey: next.publicKey });
+    expect(result.keyId).toBe(`${did}#keys-3`);
+    expect(saved[1].nextKeyCommitment).toBeUndefined();
+  });
+
+  it("refuses to rotate keys of immutable DID methods", async () => {
+    const keyDid = "did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK";
+
+    await expect(didService.rotateKey(keyDid)).rejects.toMatchObject({ code: "DID_ERROR" });
+    expect(saved).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query, transaction } = require("../src/utils/db");
+const { identityManager } = require("../src/services/identity-manager");
+const { didService } = require("../src/services/did-service");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { resolutionCache } = require("../src/services/resolution-cache");
+
+function relationshipRow(overrides = {}) {
+  return {
+    id: "rel-1",
+    source_agent_id: "alice",
+    target_agent_id: "bob",
+    relationship_type: "peer",
+    trust_level: "0.5",
+    permissions: [],
+    established_at: new Date(),
+    last_interaction_at: new Date(),
+    interaction_count: 0,
+    metadata: {},
+    ...overrides
+  };
+}
+
+describe("pairwise DIDs", () => {
+  let client;
+  let existing;
+
+  beforeEach(() => {
+    existing = relationshipRow();
+    client = {
+      query: jest.fn(async (sql) =>
+        sql.includes("INSERT INTO agent_relationships") ? { rows: [existing] } : { rows: [] }
+      )
+    };
+    transaction.mockReset().mockImplementation(async (callback) => callback(client));
+    jest.spyOn(identityManager, "getAgent").mockImplementation(async (id) => ({ id }));
+    jest.spyOn(keyCustodyService, "storeKeys").mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function statements(fragment) {
+    return client.query.mock.calls.filter(([sql]) => sql.includes(fragment));
+  }
+
+  it("mints a separate did:peer for each side and assigns it to that agent", async () => {
+    const relationship = await identityManager.createRelationship("alice", "bob", "peer", [], { pairwise: true });
+
+    expect(relationship.sourcePeerDid).toMatch(/^did:peer:/);
+    expect(relationship.targetPeerDid).toMatch(/^did:peer:/);
+    expect(relationship.sourcePeerDid).not.toBe(relationship.targetPeerDid);
+
+    expect(statements("INSERT INTO identities")).toHaveLength(2);
+    expect(keyCustodyService.storeKeys).toHaveBeenCalledTimes(2);
+    expect(statements("UPDATE identities SET agent_id").map(([, params]) => params)).toEqual([
+      ["alice", relationship.sourcePeerDid],
+      ["bob", relationship.targetPeerDid]
+    ]);
+    expect(statements("SET source_peer_did")[0][1]).toEqual([
+      relationship.sourcePeerDid,
+      relationship.targetPeerDid,
+      "rel-1"
+    ]);
+  });
+
+  it("reuses the pairwise DIDs of an existing relationship", async () => {
+    existing = relationshipRow({ source_peer_did: "did:peer:2.Vzalice", target_peer_did: "did:peer:2.Vzbob" });
+
+    const relationship = await identityManager.createRelationship("alice", "bob", "peer", [], { pairwise: true });
+
+    expect(relationship.sourcePeerDid).toBe("did:peer:2.Vzalice");
+    expect(statements("INSERT INTO identities")).toHaveLength(0);
+    expect(statements("SET source_peer_did")).toHaveLength(0);
+  });
+
+  it("mints nothing unless pairwise DIDs are asked for", async () => {
+    const relationship = await identityManager.createRelationship("alice", "bob", "peer");
+
+    expect(relationship.sourcePeerDid).toBeUndefined();
+    expect(statements("INSERT INTO identities")).toHaveLength(0);
+  });
+
+  it("resolves a minted DID locally from the identifier", async () => {
+    resolutionCache.flush();
+    query.mockReset().mockResolvedValue({ rows: [] });
+    const relationship = await identityManager.createRelationship("alice", "bob", "peer", [], { pairwise: true });
+
+    const { didDocument, didResolutionMetadata } = await didService.resolveDID(relationship.sourcePeerDid);
+
+    expect(didResolutionMetadata.error).toBeUndefined();
+    expect(didDocument.id).toBe(relationship.sourcePeerDid);
+    expect(didDocument.verificationMethod.length).toBeGreaterThan(0);
+  });
+
+  it("finds the agent and permissions behind a pairwise DID", async () => {
+    query.mockReset().mockResolvedValue({
+      rows: [
+        relationshipRow({
+          source_peer_did: "did:peer:2.Vzalice",
+          target_peer_did: "did:peer:2.Vzbob",
+          permissions: ["read"]
+        })
+      ]
+    });
+
+    await expect(identityManager.getRelationshipByPeerDID("did:peer:2.Vzbob")).resolves.toMatchObject({
+      agentId: "bob",
+      permissions: ["read"]
+    });
+  });
+});
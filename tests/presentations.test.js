@@ -0,0 +1,179 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { presentationService } = require("../src/services/presentation-service");
+const { attestationService } = require("../src/services/attestation-service");
+const { signerRegistry } = require("../src/services/signer-registry");
+const { resolutionCache } = require("../src/services/resolution-cache");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createDIDKey } = require("../src/utils/did-key");
+
+const suite = getSuite("Ed25519");
+const holderKeys = suite.generateKeyPair();
+const HOLDER = createDIDKey(holderKeys.publicKey, "Ed25519");
+const ISSUER = "did:example:issuer";
+const VERIFIER = "did:example:verifier";
+
+function attestation(id, type, overrides = {}) {
+  return {
+    id,
+    type,
+    issuer: ISSUER,
+    subject: HOLDER,
+    claims: [{ type: "level", value: 1 }],
+    issuedAt: new Date("2026-01-01T00:00:00Z"),
+    proof: { type: "Ed25519Signature2020", proofValue: "issuer-signature" },
+    ...overrides
+  };
+}
+
+// The presentation_requests table, including the single-use fulfilment update
+function requestTable() {
+  const rows = new Map();
+  const handler = async (sql, params) => {
+    if (sql.includes("INSERT INTO presentation_requests")) {
+      const [id, verifier, types, issuers, challenge, domain, createdAt, expiresAt] = params;
+      rows.set(id, {
+        id,
+        verifier,
+        attestation_types: JSON.parse(types),
+        trusted_issuers: issuers && JSON.parse(issuers),
+        challenge,
+        domain,
+        created_at: createdAt,
+        expires_at: expiresAt
+      });
+      return { rows: [], rowCount: 1 };
+    }
+    if (sql.includes("SET fulfilled_at")) {
+      const row = rows.get(params[0]);
+      if (!row || row.fulfilled_at) {
+        return { rows: [], rowCount: 0 };
+      }
+      Object.assign(row, { fulfilled_at: new Date(), fulfilled_by: params[1] });
+      return { rows: [], rowCount: 1 };
+    }
+    if (sql.includes("FROM presentation_requests")) {
+      return { rows: rows.has(params[0]) ? [rows.get(params[0])] : [] };
+    }
+    return { rows: [] };
+  };
+  return Object.assign(handler, { rows });
+}
+
+describe("verifiable presentations", () => {
+  let held;
+  let requests;
+
+  beforeEach(() => {
+    resolutionCache.flush();
+    requests = requestTable();
+    query.mockReset().mockImplementation(requests);
+    held = {
+      "urn:attest:id": attestation("urn:attest:id", "identity_verification"),
+      "urn:attest:member": attestation("urn:attest:member", "membership")
+    };
+    jest.spyOn(attestationService, "getAttestation").mockImplementation(async (id) => held[id]);
+    jest.spyOn(attestationService, "verifyPresentedAttestation").mockResolvedValue({ valid: true });
+    // The holder's did:key signs through the registry, as its custodied key would
+    jest.spyOn(signerRegistry, "sign").mockImplementation(async (did, method, data) => ({
+      signature: suite.sign(data, holderKeys.privateKey),
+      keyId: method.id
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function present(input = {}, ids = ["urn:attest:id", "urn:attest:member"]) {
+    const request = await presentationService.createRequest(VERIFIER, {
+      attestationTypes: ["identity_verification", "membership"],
+      domain: "verifier.example",
+      ...input
+    });
+    return { request, presentation: await presentationService.createPresentation(HOLDER, request.id, ids) };
+  }
+
+  it("verifies a presentation bound to the request's challenge and domain, once", async () => {
+    const { request, presentation } = await present();
+
+    expect(presentation.proof).toMatchObject({
+      proofPurpose: "authentication",
+      challenge: request.challenge,
+      domain: "verifier.example"
+    });
+    await expect(presentationService.verifyPresentation(presentation)).resolves.toMatchObject({ valid: true });
+
+    const replay = await presentationService.verifyPresentation(presentation);
+    expect(replay.valid).toBe(false);
+    expect(replay.errors).toContain("Presentation request has already been fulfilled");
+  });
+
+  it("rejects a presentation replayed against another request", async () => {
+    const { presentation } = await present();
+    const { request: other } = await present({ domain: "other.example" });
+
+    const result = await presentationService.verifyPresentation({ ...presentation, requestId: other.id });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        "Proof is not bound to the request challenge",
+        "Proof is not bound to the request domain",
+        "Holder signature is invalid"
+      ])
+    );
+  });
+
+  it("rejects a presentation whose attestations were changed after signing", async () => {
+    const { presentation } = await present();
+    const stripped = { ...presentation, attestations: presentation.attestations.slice(0, 1) };
+
+    const result = await presentationService.verifyPresentation(stripped);
+
+    expect(result.errors).toContain("Holder signature is invalid");
+    expect(result.unmetTypes).toEqual(["membership"]);
+  });
+
+  it("only counts valid attestations about the holder from trusted issuers", async () => {
+    const { presentation } = await present({ trustedIssuers: [ISSUER] });
+    attestationService.verifyPresentedAttestation.mockImplementation(async (presented) =>
+      presented.id === "urn:attest:member"
+        ? { valid: false, errors: ["Attestation has been revoked"] }
+        : { valid: true }
+    );
+
+    const result = await presentationService.verifyPresentation(presentation);
+
+    expect(result.valid).toBe(false);
+    expect(result.attestations["urn:attest:member"].errors).toEqual(["Attestation has been revoked"]);
+    expect(result.unmetTypes).toEqual(["membership"]);
+  });
+
+  it("lets the holder present only attestations about itself", async () => {
+    held["urn:attest:member"] = attestation("urn:attest:member", "membership", { subject: "did:example:someone" });
+
+    await expect(present()).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("refuses requests the holder cannot satisfy from trusted issuers", async () => {
+    await expect(present({ trustedIssuers: ["did:example:other-issuer"] })).rejects.toMatchObject({
+      code: "VALIDATION_ERROR",
+      details: { unmetTypes: ["identity_verification", "membership"] }
+    });
+  });
+
+  it("rejects presentations for expired requests", async () => {
+    const { request, presentation } = await present();
+    requests.rows.get(request.id).expires_at = new Date(Date.now() - 1000);
+
+    const result = await presentationService.verifyPresentation(presentation);
+
+    expect(result.errors).toContain("Presentation request has expired");
+  });
+});
@@ -0,0 +1,163 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query, afterCommit } = require("../src/utils/db");
+const { ResolutionCache, resolutionCache } = require("../src/services/resolution-cache");
+const { didService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+
+const DID = "did:web:hub.example:agents:cached";
+
+function resolved(id = DID) {
+  return {
+    didResolutionMetadata: { contentType: "application/did+json" },
+    didDocument: { id, verificationMethod: [] },
+    didDocumentMetadata: {}
+  };
+}
+
+function failed(error) {
+  return { didResolutionMetadata: { error }, didDocument: null, didDocumentMetadata: {} };
+}
+
+const ENV_KEYS = ["DID_CACHE_TTL", "DID_CACHE_NEGATIVE_TTL", "DID_CACHE_MAX_ENTRIES", "DID_CACHE_TTL_KEY"];
+
+describe("resolution cache", () => {
+  const savedEnv = {};
+  let now;
+
+  beforeEach(() => {
+    for (const name of ENV_KEYS) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    for (const name of ENV_KEYS) {
+      if (savedEnv[name] !== undefined) {
+        process.env[name] = savedEnv[name];
+      }
+    }
+    jest.restoreAllMocks();
+  });
+
+  it("serves entries until their TTL runs out", () => {
+    process.env.DID_CACHE_TTL = "1m";
+    const cache = new ResolutionCache();
+    cache.set(DID, DID, resolved());
+
+    now += 59_000;
+    expect(cache.get(DID).didDocument.id).toBe(DID);
+    now += 2_000;
+    expect(cache.get(DID)).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, size: 0 });
+  });
+
+  it("caches notFound for the shorter negative TTL and never caches failures", () => {
+    process.env.DID_CACHE_NEGATIVE_TTL = "10s";
+    const cache = new ResolutionCache();
+    cache.set(DID, DID, failed("notFound"));
+    cache.set("did:example:broken", "did:example:broken", failed("internalError"));
+
+    expect(cache.get(DID).didResolutionMetadata.error).toBe("notFound");
+    expect(cache.get("did:example:broken")).toBeUndefined();
+    now += 11_000;
+    expect(cache.get(DID)).toBeUndefined();
+    expect(cache.getStats().negativeHits).toBe(1);
+  });
+
+  it("applies per-method TTLs, where zero disables caching", () => {
+    process.env.DID_CACHE_TTL_KEY = "0ms";
+    const cache = new ResolutionCache();
+    cache.set("did:key:z6Mk", "did:key:z6Mk", resolved("did:key:z6Mk"));
+    cache.set(DID, DID, resolved());
+
+    expect(cache.get("did:key:z6Mk")).toBeUndefined();
+    expect(cache.get(DID)).toBeDefined();
+  });
+
+  it("evicts the oldest entry when full", () => {
+    process.env.DID_CACHE_MAX_ENTRIES = "2";
+    const cache = new ResolutionCache();
+    for (const id of ["did:web:a", "did:web:b", "did:web:c"]) {
+      cache.set(id, id, resolved(id));
+    }
+
+    expect(cache.listEntries().map((entry) => entry.key)).toEqual(["did:web:b", "did:web:c"]);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it("hands out copies, so callers cannot change cached results", () => {
+    const cache = new ResolutionCache();
+    cache.set(DID, DID, resolved());
+
+    cache.get(DID).didDocument.id = "changed";
+
+    expect(cache.get(DID).didDocument.id).toBe(DID);
+  });
+
+  it("drops every cached version of a DID on invalidation", () => {
+    const cache = new ResolutionCache();
+    cache.set(DID, DID, resolved());
+    cache.set(DID, `${DID}?versionId=1`, resolved());
+    cache.set("did:web:other", "did:web:other", resolved("did:web:other"));
+
+    expect(cache.invalidate(DID)).toBe(2);
+    expect(cache.listEntries().map((entry) => entry.did)).toEqual(["did:web:other"]);
+  });
+});
+
+describe("cached resolution", () => {
+  beforeEach(() => {
+    resolutionCache.flush();
+    afterCommit.mockReset();
+    const row = { did: DID, version_id: 1, document: { id: DID, verificationMethod: [] }, created_at: new Date() };
+    query.mockReset().mockImplementation(async (sql) =>
+      sql.includes("FROM identities i") ? { rows: [row] } : { rows: [] }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function storeLookups() {
+    return query.mock.calls.filter(([sql]) => sql.includes("FROM identities i")).length;
+  }
+
+  it("answers repeat resolutions from the cache and records timing metadata", async () => {
+    const first = await didService.resolveDID(DID);
+    const second = await didService.resolveDID(DID);
+
+    expect(storeLookups()).toBe(1);
+    expect(second.didDocument).toEqual(first.didDocument);
+    expect(first.didResolutionMetadata.retrieved).toEqual(expect.any(String));
+    expect(second.didResolutionMetadata.duration).toEqual(expect.any(Number));
+  });
+
+  it("bypasses the cache when asked to", async () => {
+    await didService.resolveDID(DID);
+    await didService.resolveDID(DID, { noCache: true });
+
+    expect(storeLookups()).toBe(2);
+  });
+
+  it("invalidates a DID only once the write that changed it commits", async () => {
+    await didService.resolveDID(DID);
+    const client = { query: jest.fn().mockResolvedValue({ rows: [{ version_id: 1 }] }) };
+
+    await didDocumentStore.update(DID, { id: DID, verificationMethod: [] }, client);
+
+    expect(resolutionCache.listEntries()).toHaveLength(1);
+    const [[committedClient, onCommit]] = afterCommit.mock.calls;
+    expect(committedClient).toBe(client);
+    onCommit();
+    expect(resolutionCache.listEntries()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,151 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { attestationService } = require("../src/services/attestation-service");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createDIDKey } = require("../src/utils/did-key");
+const { compactJws, jwsSigningInput } = require("../src/utils/jose");
+const { SD_ALG, createDisclosure, joinSdJwt, sdHash, splitSdJwt } = require("../src/utils/sd-jwt");
+
+const suite = getSuite("Ed25519");
+
+function didKeyFor(keyPair) {
+  const did = createDIDKey(keyPair.publicKey, "Ed25519");
+  return { did, kid: `${did}#${did.split(":")[2]}`, ...keyPair };
+}
+
+function signJwt(signer, typ, payload) {
+  const input = jwsSigningInput({ alg: suite.algorithm, typ, kid: signer.kid }, payload);
+  return compactJws(input, suite.sign(input, signer.privateKey));
+}
+
+const issuer = didKeyFor(suite.generateKeyPair());
+const holder = didKeyFor(suite.generateKeyPair());
+const CLAIMS = [
+  { type: "membership", value: "gold" },
+  { type: "clearance", value: 3 }
+];
+
+function issue() {
+  const disclosures = CLAIMS.map((claim) => createDisclosure(claim));
+  const jwt = signJwt(issuer, "dc+sd-jwt", {
+    iss: issuer.did,
+    sub: holder.did,
+    jti: "urn:attest:sd-jwt-test",
+    iat: Math.floor(Date.now() / 1000) - 60,
+    vct: "MembershipCredential",
+    _sd_alg: SD_ALG,
+    claims: disclosures.map(({ digest }) => ({ "...": digest })),
+    cnf: { kid: holder.did }
+  });
+  return { jwt, disclosures: disclosures.map(({ disclosure }) => disclosure) };
+}
+
+function present({ jwt, disclosures }, binding = {}, signer = holder) {
+  const presentation = joinSdJwt({ jwt, disclosures });
+  const keyBinding = signJwt(signer, "kb+jwt", {
+    iat: Math.floor(Date.now() / 1000),
+    aud: "did:example:verifier",
+    nonce: "nonce-1",
+    sd_hash: sdHash(presentation),
+    ...binding
+  });
+  return joinSdJwt({ jwt, disclosures, keyBinding });
+}
+
+const OPTIONS = { audience: "did:example:verifier", nonce: "nonce-1" };
+
+describe("SD-JWT verification", () => {
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue({ rows: [] });
+  });
+
+  it("accepts a holder-bound presentation and returns only the disclosed claims", async () => {
+    const issued = issue();
+    const result = await attestationService.verifySdJwt(
+      present({ ...issued, disclosures: [issued.disclosures[1]] }),
+      OPTIONS
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(result.attestation).toMatchObject({
+      id: "urn:attest:sd-jwt-test",
+      issuer: issuer.did,
+      subject: holder.did,
+      claims: [{ type: "clearance", value: 3, issuer: issuer.did }]
+    });
+  });
+
+  it("rejects a disclosure whose value was changed", async () => {
+    const issued = issue();
+    const [salt] = JSON.parse(Buffer.from(issued.disclosures[0], "base64url").toString("utf8"));
+    const tampered = Buffer.from(JSON.stringify([salt, { type: "membership", value: "platinum" }])).toString(
+      "base64url"
+    );
+
+    const result = await attestationService.verifySdJwt(present({ ...issued, disclosures: [tampered] }), OPTIONS);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["Disclosure does not match a signed digest"]);
+    expect(result.attestation.claims).toEqual([]);
+  });
+
+  it("rejects a disclosure presented twice", async () => {
+    const issued = issue();
+    const result = await attestationService.verifySdJwt(
+      present({ ...issued, disclosures: [issued.disclosures[0], issued.disclosures[0]] }),
+      OPTIONS
+    );
+
+    expect(result.errors).toEqual(["Disclosure does not match a signed digest"]);
+    expect(result.attestation.claims).toHaveLength(1);
+  });
+
+  it("rejects disclosures added after the key binding JWT was signed", async () => {
+    const issued = issue();
+    const bound = splitSdJwt(present({ ...issued, disclosures: [issued.disclosures[0]] }));
+    const token = joinSdJwt({ ...bound, disclosures: issued.disclosures });
+
+    const result = await attestationService.verifySdJwt(token, OPTIONS);
+
+    expect(result.errors).toEqual(["Key binding JWT does not cover the presented disclosures"]);
+  });
+
+  it("requires a key binding JWT when the credential is holder-bound", async () => {
+    const result = await attestationService.verifySdJwt(joinSdJwt(issue()), OPTIONS);
+
+    expect(result.errors).toEqual(["Presentation has no key binding JWT"]);
+  });
+
+  it("checks the key binding audience", async () => {
+    const result = await attestationService.verifySdJwt(present(issue(), { aud: "did:example:other" }), OPTIONS);
+
+    expect(result.errors).toEqual(["Key binding JWT was made for a different audience"]);
+  });
+
+  it("checks the key binding nonce", async () => {
+    const result = await attestationService.verifySdJwt(present(issue(), { nonce: "nonce-0" }), OPTIONS);
+
+    expect(result.errors).toEqual(["Key binding JWT nonce does not match"]);
+  });
+
+  it("rejects a stale key binding JWT", async () => {
+    const result = await attestationService.verifySdJwt(
+      present(issue(), { iat: Math.floor(Date.now() / 1000) - 3600 }),
+      OPTIONS
+    );
+
+    expect(result.errors).toEqual(["Key binding JWT is not fresh"]);
+  });
+
+  it("rejects a key binding JWT signed by someone other than the holder", async () => {
+    const result = await attestationService.verifySdJwt(present(issue(), {}, issuer), OPTIONS);
+
+    expect(result.errors).toEqual([`JWT signing key does not belong to ${holder.did}`]);
+  });
+});
@@ -0,0 +1,169 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { sessionService } = require("../src/services/session-service");
+const { identityManager } = require("../src/services/identity-manager");
+const { didService } = require("../src/services/did-service");
+const { AgentStatus } = require("../src/models/agent");
+const { hashData } = require("../src/utils/crypto");
+const { getHubDomain } = require("../src/utils/did-web");
+
+const DID = "did:key:z6MkSession";
+
+function sessionRow(overrides = {}) {
+  return {
+    id: "session-1",
+    agent_id: "agent-1",
+    did: DID,
+    key_id: `${DID}#key-1`,
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + 60000),
+    ...overrides
+  };
+}
+
+describe("session sign-in", () => {
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue({ rows: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("opens a session for an active agent that proves control of its DID", async () => {
+    jest.spyOn(didService, "verifyDIDOwnership").mockResolvedValue({ valid: true, did: DID, keyId: `${DID}#key-1` });
+    jest.spyOn(identityManager, "getAgentByDID").mockResolvedValue({ id: "agent-1", status: AgentStatus.ACTIVE });
+
+    const tokens = await sessionService.signIn(DID, { challenge: "c", signature: "s" });
+
+    expect(tokens.tokenType).toBe("Bearer");
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("INSERT INTO agent_sessions");
+    expect(params.slice(0, 5)).toEqual([
+      tokens.sessionId,
+      "agent-1",
+      DID,
+      `${DID}#key-1`,
+      hashData(tokens.refreshToken)
+    ]);
+  });
+
+  it("only accepts proofs addressed to the hub", async () => {
+    jest.spyOn(didService, "verifyDIDOwnership").mockResolvedValue({
+      valid: false,
+      did: DID,
+      reason: "audience_mismatch"
+    });
+
+    await expect(sessionService.signIn(DID, { challenge: "c", signature: "s" })).rejects.toMatchObject({
+      statusCode: 401
+    });
+    expect(didService.verifyDIDOwnership.mock.calls[0][2]).toBe(getHubDomain());
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("refuses agents that are not active", async () => {
+    jest.spyOn(didService, "verifyDIDOwnership").mockResolvedValue({ valid: true, did: DID, keyId: `${DID}#key-1` });
+    jest.spyOn(identityManager, "getAgentByDID").mockResolvedValue({ id: "agent-1", status: AgentStatus.REVOKED });
+
+    await expect(sessionService.signIn(DID, { challenge: "c", signature: "s" })).rejects.toMatchObject({
+      statusCode: 403
+    });
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe("session refresh", () => {
+  beforeEach(() => {
+    query.mockReset().mockImplementation(async (sql) =>
+      sql.includes("SET refresh_token_hash") ? { rows: [sessionRow()] } : { rows: [], rowCount: 2 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rotates the refresh token of an active agent", async () => {
+    jest.spyOn(identityManager, "getAgent").mockResolvedValue({ id: "agent-1", did: DID, status: AgentStatus.ACTIVE });
+
+    const tokens = await sessionService.refresh("old-token");
+
+    expect(tokens.sessionId).toBe("session-1");
+    expect(tokens.refreshToken).not.toBe("old-token");
+    const [, params] = query.mock.calls[0];
+    expect(params).toEqual([hashData(tokens.refreshToken), hashData("old-token")]);
+  });
+
+  it("rejects an unknown, expired or already used refresh token", async () => {
+    query.mockResolvedValue({ rows: [] });
+
+    await expect(sessionService.refresh("old-token")).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("rejects a suspended agent and revokes all of its sessions", async () => {
+    jest.spyOn(identityManager, "getAgent").mockResolvedValue({
+      id: "agent-1",
+      did: DID,
+      status: AgentStatus.SUSPENDED
+    });
+
+    await expect(sessionService.refresh("old-token")).rejects.toMatchObject({
+      code: "AUTHORIZATION_ERROR",
+      statusCode: 403
+    });
+    expect(query).toHaveBeenCalledWith(expect.stringContaining("WHERE agent_id = $2 AND revoked_at IS NULL"), [
+      "agent_inactive",
+      "agent-1"
+    ]);
+  });
+});
+
+describe("session revocation", () => {
+  let revoked;
+
+  beforeEach(() => {
+    revoked = false;
+    query.mockReset().mockImplementation(async (sql) => {
+      if (sql.includes("SET revoked_at")) {
+        revoked = true;
+        return { rows: [], rowCount: 1 };
+      }
+      return { rows: [sessionRow({ revoked_at: revoked ? new Date() : null })] };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function accessToken() {
+    jest.spyOn(didService, "verifyDIDOwnership").mockResolvedValue({ valid: true, did: DID, keyId: `${DID}#key-1` });
+    jest.spyOn(identityManager, "getAgentByDID").mockResolvedValue({ id: "agent-1", status: AgentStatus.ACTIVE });
+    return (await sessionService.signIn(DID, { challenge: "c", signature: "s" })).accessToken;
+  }
+
+  it("stops accepting access tokens once their session is revoked", async () => {
+    const token = await accessToken();
+    await expect(sessionService.verifyAccessToken(token)).resolves.toMatchObject({ sub: DID, agentId: "agent-1" });
+
+    await sessionService.revokeSession("session-1", { agentId: "agent-1" });
+
+    await expect(sessionService.verifyAccessToken(token)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it("only lets the owning agent or an admin revoke a session", async () => {
+    await expect(sessionService.revokeSession("session-1", { agentId: "agent-2" })).rejects.toMatchObject({
+      statusCode: 403
+    });
+    expect(revoked).toBe(false);
+
+    await sessionService.revokeSession("session-1", { agentId: "agent-2", isAdmin: true });
+    expect(revoked).toBe(true);
+  });
+});
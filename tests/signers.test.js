@@ -0,0 +1,258 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { mkdtempSync, rmSync } = require("fs");
+const { tmpdir } = require("os");
+const path = require("path");
+const { query } = require("../src/utils/db");
+const { FileKeystoreSigner, Pkcs11Signer } = require("../src/services/signers");
+const { SignerRegistry } = require("../src/services/signer-registry");
+const { didService } = require("../src/services/did-service");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { DIDError } = require("../src/utils/errors");
+const { buildVerificationMethod, getSuite } = require("../src/utils/crypto-suites");
+
+const DID = "did:example:signer";
+
+describe("file keystore signer", () => {
+  let directory;
+  let signer;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "keystore-"));
+    signer = new FileKeystoreSigner({ directory, passphrase: "test-passphrase" });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it.each(["secp256k1", "Ed25519", "P-256"])("signs with an imported %s key", async (keyType) => {
+    const suite = getSuite(keyType);
+    const { publicKey, privateKey } = suite.generateKeyPair();
+
+    await expect(signer.importKey("issuer-key", privateKey, keyType)).resolves.toBe(publicKey);
+    const signature = await signer.sign({ did: DID, keyId: `${DID}#keys-1`, keyRef: "issuer-key", suite }, "payload");
+
+    expect(suite.verify("payload", signature, publicKey)).toBe(true);
+  });
+
+  it("refuses to overwrite an entry", async () => {
+    const { privateKey } = getSuite("secp256k1").generateKeyPair();
+    await signer.importKey("issuer-key", privateKey);
+
+    await expect(signer.importKey("issuer-key", privateKey)).rejects.toThrow();
+  });
+
+  it("refuses an entry of another key type", async () => {
+    const { privateKey } = getSuite("secp256k1").generateKeyPair();
+    await signer.importKey("issuer-key", privateKey);
+
+    await expect(
+      signer.sign({ did: DID, keyId: `${DID}#keys-1`, keyRef: "issuer-key", suite: getSuite("Ed25519") }, "payload")
+    ).rejects.toMatchObject({ code: "SIGNER_KEY_MISMATCH" });
+  });
+
+  it("keeps entry names inside the keystore directory", async () => {
+    const { privateKey } = getSuite("secp256k1").generateKeyPair();
+
+    await expect(signer.importKey("../escape", privateKey)).rejects.toMatchObject({ code: "INVALID_KEY_REF" });
+    await expect(signer.hasKey("../escape")).resolves.toBe(false);
+  });
+
+  it("cannot read entries under a different passphrase", async () => {
+    const { privateKey } = getSuite("secp256k1").generateKeyPair();
+    await signer.importKey("issuer-key", privateKey);
+    const other = new FileKeystoreSigner({ directory, passphrase: "another-passphrase" });
+
+    await expect(
+      other.sign({ did: DID, keyId: `${DID}#keys-1`, keyRef: "issuer-key", suite: getSuite("secp256k1") }, "payload")
+    ).rejects.toThrow();
+  });
+});
+
+describe("PKCS#11 signer", () => {
+  it("only signs ECDSA keys", async () => {
+    const signer = new Pkcs11Signer({ modulePath: "/nonexistent/libsofthsm2.so" });
+
+    await expect(
+      signer.sign({ did: DID, keyId: `${DID}#keys-1`, keyRef: "token-key", suite: getSuite("Ed25519") }, "payload")
+    ).rejects.toMatchObject({ code: "UNSUPPORTED_KEY_TYPE" });
+  });
+
+  it("needs a bound token key", async () => {
+    const signer = new Pkcs11Signer({ modulePath: "/nonexistent/libsofthsm2.so" });
+
+    await expect(
+      signer.sign({ did: DID, keyId: `${DID}#keys-1`, suite: getSuite("P-256") }, "payload")
+    ).rejects.toMatchObject({ code: "SIGNER_KEY_NOT_FOUND" });
+  });
+
+  // Runs against a provisioned token, e.g. SoftHSM: PKCS11_MODULE, PKCS11_PIN and
+  // PKCS11_TEST_KEY (the CKA_LABEL of a P-256 key pair) must be set
+  const withToken = process.env.PKCS11_MODULE && process.env.PKCS11_TEST_KEY ? it : it.skip;
+
+  withToken("signs with a token key that verifies against its public key", async () => {
+    const signer = new Pkcs11Signer();
+    const suite = getSuite("P-256");
+    try {
+      const publicKey = await signer.getPublicKey(process.env.PKCS11_TEST_KEY);
+      const signature = await signer.sign(
+        { did: DID, keyId: `${DID}#keys-1`, keyRef: process.env.PKCS11_TEST_KEY, suite },
+        "payload"
+      );
+
+      expect(suite.verify("payload", signature, publicKey)).toBe(true);
+    } finally {
+      signer.close();
+    }
+  });
+});
+
+describe("signer registry", () => {
+  let directory;
+  let keystore;
+  let registry;
+  let custodySign;
+
+  beforeEach(() => {
+    query.mockReset();
+    directory = mkdtempSync(path.join(tmpdir(), "keystore-"));
+    keystore = new FileKeystoreSigner({ directory, passphrase: "test-passphrase" });
+    custodySign = jest.fn().mockResolvedValue("custody-signature");
+    registry = new SignerRegistry([
+      { backend: "in-process", isAvailable: () => true, sign: custodySign },
+      keystore
+    ]);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("looks bindings up by DID and key ID", async () => {
+    const { publicKey } = getSuite("secp256k1").generateKeyPair();
+    const method = buildVerificationMethod(getSuite("secp256k1"), "#key-1", DID, publicKey);
+    query.mockResolvedValue({ rows: [] });
+
+    const result = await registry.sign(DID, method, "payload");
+
+    expect(query).toHaveBeenCalledWith(expect.stringContaining("WHERE did = $1 AND key_id = $2"), [
+      DID,
+      `${DID}#key-1`
+    ]);
+    expect(custodySign).toHaveBeenCalledWith(expect.objectContaining({ did: DID, keyId: "#key-1" }), "payload");
+    expect(result).toMatchObject({ signature: "custody-signature", backend: "in-process" });
+  });
+
+  it("signs a did:peer key with its binding although the method ID is relative", async () => {
+    const peer = "did:peer:2.Vz6MkexampleKey";
+    const suite = getSuite("Ed25519");
+    const { publicKey, privateKey } = suite.generateKeyPair();
+    await keystore.importKey("peer-key", privateKey, "Ed25519");
+    const method = buildVerificationMethod(suite, "#key-1", peer, publicKey);
+    query.mockImplementation(async (sql, params) => ({
+      rows:
+        sql.includes("key_id = $2") && params[1] === `${peer}#key-1`
+          ? [{ key_id: `${peer}#key-1`, did: peer, backend: "file", key_ref: "peer-key", created_at: new Date() }]
+          : []
+    }));
+
+    const result = await registry.sign(peer, method, "payload");
+
+    expect(result.backend).toBe("file");
+    expect(suite.verify("payload", result.signature, publicKey)).toBe(true);
+    expect(custodySign).not.toHaveBeenCalled();
+  });
+
+  it("fails closed when a binding names the key in a form it cannot match", async () => {
+    const peer = "did:peer:2.Vz6MkexampleKey";
+    const suite = getSuite("Ed25519");
+    const method = buildVerificationMethod(suite, "#key-1", peer, suite.generateKeyPair().publicKey);
+    query.mockImplementation(async (sql) => ({
+      rows: sql.includes("key_id = $2")
+        ? []
+        : [{ key_id: "did:peer:4zQmAlias#key-1", did: peer, backend: "pkcs11", key_ref: "hsm", created_at: new Date() }]
+    }));
+
+    await expect(registry.sign(peer, method, "payload")).rejects.toMatchObject({ code: "SIGNER_BINDING_MISMATCH" });
+    expect(custodySign).not.toHaveBeenCalled();
+  });
+
+  it("explains how to upgrade an agent whose key was never taken into custody", async () => {
+    const { publicKey } = getSuite("secp256k1").generateKeyPair();
+    const method = buildVerificationMethod(getSuite("secp256k1"), `${DID}#keys-1`, DID, publicKey);
+    query.mockResolvedValue({ rows: [] });
+    custodySign.mockRejectedValue(new DIDError(`No keys in custody for ${DID}`, "KEY_NOT_IN_CUSTODY"));
+
+    await expect(registry.sign(DID, method, "payload")).rejects.toMatchObject({
+      code: "KEY_NOT_IN_CUSTODY",
+      statusCode: 400,
+      message: expect.stringContaining("PUT /api/v1/agents/:id/custody")
+    });
+  });
+
+  it("takes custody of an agent's own key once it signs for the verification method", async () => {
+    const suite = getSuite("secp256k1");
+    const { publicKey, privateKey } = suite.generateKeyPair();
+    jest
+      .spyOn(didService, "getVerificationMethodAt")
+      .mockResolvedValue(buildVerificationMethod(suite, `${DID}#keys-1`, DID, publicKey));
+    const replaceKey = jest.spyOn(keyCustodyService, "replaceKey").mockResolvedValue(undefined);
+
+    await expect(
+      registry.importCustodyKey(DID, `${DID}#keys-1`, suite.generateKeyPair().privateKey)
+    ).rejects.toMatchObject({ code: "SIGNER_KEY_MISMATCH" });
+    expect(replaceKey).not.toHaveBeenCalled();
+
+    await registry.importCustodyKey(DID, `${DID}#keys-1`, `0x${privateKey}`);
+
+    expect(replaceKey).toHaveBeenCalledWith(DID, `${DID}#keys-1`, {
+      id: `${DID}#keys-1`,
+      type: "secp256k1",
+      publicKey,
+      privateKey
+    });
+  });
+
+  it("binds a keystore key only when it matches the verification method", async () => {
+    const suite = getSuite("secp256k1");
+    const held = suite.generateKeyPair();
+    const listed = suite.generateKeyPair();
+    await keystore.importKey("issuer-key", held.privateKey);
+    jest
+      .spyOn(didService, "getVerificationMethodAt")
+      .mockResolvedValue(buildVerificationMethod(suite, `${DID}#keys-1`, DID, listed.publicKey));
+
+    await expect(registry.bindKey(DID, `${DID}#keys-1`, "file", "issuer-key")).rejects.toMatchObject({
+      code: "SIGNER_KEY_MISMATCH"
+    });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("stores a matching binding under the DID and key ID", async () => {
+    const suite = getSuite("Ed25519");
+    const { publicKey, privateKey } = suite.generateKeyPair();
+    await keystore.importKey("issuer-key", privateKey, "Ed25519");
+    jest
+      .spyOn(didService, "getVerificationMethodAt")
+      .mockResolvedValue(buildVerificationMethod(suite, `${DID}#keys-1`, DID, publicKey));
+    query.mockResolvedValueOnce({
+      rows: [{ key_id: `${DID}#keys-1`, did: DID, backend: "file", key_ref: "issuer-key", created_at: new Date() }]
+    });
+
+    const binding = await registry.bindKey(DID, `${DID}#keys-1`, "file", "issuer-key");
+
+    expect(query).toHaveBeenCalledWith(expect.stringContaining("ON CONFLICT (did, key_id)"), [
+      `${DID}#keys-1`,
+      DID,
+      "file",
+      "issuer-key"
+    ]);
+    expect(binding).toMatchObject({ did: DID, backend: "file", keyRef: "issuer-key" });
+  });
+});
@@ -0,0 +1,49 @@
+const { gunzipSync } = require("zlib");
+const { STATUS_LIST_SIZE, encodeStatusList, toByteaBitIndex } = require("../src/utils/status-list");
+
+// Sets bits the way Postgres set_bit does: bit n is bit (n % 8) of byte n / 8, LSB first
+function setByteaBit(bits, byteaIndex) {
+  bits[byteaIndex >> 3] |= 1 << (byteaIndex & 7);
+}
+
+describe("status list", () => {
+  it.each([
+    [0, 7],
+    [7, 0],
+    [8, 15],
+    [13, 10],
+    [131071, 131064]
+  ])("maps list index %i to bytea bit %i", (index, byteaIndex) => {
+    expect(toByteaBitIndex(index)).toBe(byteaIndex);
+  });
+
+  it("keeps every index within its own byte", () => {
+    for (let index = 0; index < 64; index++) {
+      expect(toByteaBitIndex(index) >> 3).toBe(index >> 3);
+      expect(toByteaBitIndex(toByteaBitIndex(index))).toBe(index);
+    }
+  });
+
+  it("puts list index 0 in the most significant bit of the first byte", () => {
+    const bits = Buffer.alloc(STATUS_LIST_SIZE / 8);
+    setByteaBit(bits, toByteaBitIndex(0));
+    setByteaBit(bits, toByteaBitIndex(9));
+
+    expect(bits[0]).toBe(0b10000000);
+    expect(bits[1]).toBe(0b01000000);
+  });
+
+  it("encodes as gzipped multibase base64url", () => {
+    const bits = Buffer.alloc(STATUS_LIST_SIZE / 8);
+    setByteaBit(bits, toByteaBitIndex(42));
+    const encoded = encodeStatusList(bits);
+
+    expect(encoded.startsWith("u")).toBe(true);
+    expect(encoded.slice(1)).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const decoded = gunzipSync(Buffer.from(encoded.slice(1), "base64url"));
+    expect(decoded.length).toBe(STATUS_LIST_SIZE / 8);
+    expect(decoded.equals(bits)).toBe(true);
+    expect((decoded[42 >> 3] >> (7 - (42 % 8))) & 1).toBe(1);
+  });
+});
@@ -0,0 +1,125 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { transaction } = require("../src/utils/db");
+const { didService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { keyCustodyService } = require("../src/services/key-custody-service");
+const { identityManager } = require("../src/services/identity-manager");
+const { statusListService } = require("../src/services/status-list-service");
+const { resolutionCache } = require("../src/services/resolution-cache");
+const { KeyMethodDriver } = require("../src/services/did-methods/key-method-driver");
+
+describe("DID tombstones", () => {
+  let did;
+  let document;
+  let current;
+  let client;
+
+  beforeEach(async () => {
+    resolutionCache.flush();
+    ({ did, document } = await new KeyMethodDriver().create({ keyType: "Ed25519" }));
+    document.service = [{ id: "#inbox", type: "Messaging", serviceEndpoint: "https://inbox.example" }];
+    document.nextKeyCommitment = "commitment";
+    current = { did, versionId: 1, document, createdAt: new Date("2026-01-01T00:00:00Z") };
+
+    // Each deactivation query stores what the document store would have written
+    client = {
+      query: jest.fn(async (sql, params) => {
+        if (sql.includes("SELECT version_id FROM identities")) {
+          return { rows: [{ version_id: current.versionId }] };
+        }
+        if (sql.includes("INSERT INTO did_document_versions")) {
+          current = { did, versionId: params[1], document: JSON.parse(params[2]), createdAt: params[3] };
+        }
+        if (sql.includes("SET deactivated_at")) {
+          current.deactivatedAt = params[0];
+        }
+        if (sql.includes("UPDATE agents")) {
+          return { rows: [{ id: "agent-1" }] };
+        }
+        if (sql.includes("UPDATE capabilities")) {
+          return { rows: [{ status_list_id: "list-1", status_list_index: 7 }], rowCount: 1 };
+        }
+        return { rows: [], rowCount: 0 };
+      })
+    };
+    transaction.mockReset().mockImplementation(async (callback) => callback(client));
+    jest.spyOn(didDocumentStore, "getCurrent").mockImplementation(async () => current);
+    jest.spyOn(didDocumentStore, "getNextVersionId").mockResolvedValue(undefined);
+    jest.spyOn(keyCustodyService, "releaseKeys").mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function statements(fragment) {
+    return client.query.mock.calls.filter(([sql]) => sql.includes(fragment));
+  }
+
+  it("keeps the document with every key revoked at the deactivation time", async () => {
+    const record = await didService.deactivateDID(did, { deactivatedBy: "admin", reason: "compromised" });
+
+    expect(record).toMatchObject({ did, deactivatedBy: "admin", reason: "compromised", versionId: 2 });
+    const tombstone = current.document;
+    const [revoked, ...others] = tombstone.verificationMethod.map((vm) => vm.revoked);
+    expect(others.every((value) => value === revoked)).toBe(true);
+    expect(new Date(revoked).getTime()).toBeLessThanOrEqual(record.deactivatedAt.getTime());
+    expect(tombstone.service).toBeUndefined();
+    expect(tombstone.nextKeyCommitment).toBeUndefined();
+    expect(statements("INSERT INTO did_deactivations")[0][1]).toEqual([
+      did,
+      current.deactivatedAt,
+      "admin",
+      "compromised",
+      2
+    ]);
+    expect(keyCustodyService.releaseKeys).toHaveBeenCalledWith(did, client);
+  });
+
+  it("resolves a tombstoned did:key from the hub instead of the identifier", async () => {
+    await didService.deactivateDID(did, { deactivatedBy: "admin" });
+
+    const { didDocument, didDocumentMetadata } = await didService.resolveDID(did);
+
+    expect(didDocumentMetadata).toMatchObject({ deactivated: true, versionId: "2" });
+    expect(didDocument.verificationMethod[0].revoked).toBeDefined();
+  });
+
+  it("keeps keys usable for proofs made before the deactivation", async () => {
+    const keyId = document.verificationMethod[0].id;
+    await didService.deactivateDID(did, { deactivatedBy: "admin" });
+    const deactivatedAt = current.deactivatedAt;
+
+    const before = new Date(deactivatedAt.getTime() - 1000);
+    const after = new Date(deactivatedAt.getTime() + 1000);
+
+    await expect(didService.getVerificationMethodAt(did, keyId, before)).resolves.toMatchObject({ id: keyId });
+    await expect(didService.getVerificationMethodAt(did, keyId, after)).resolves.toBeNull();
+  });
+
+  it("cannot be deactivated twice", async () => {
+    await didService.deactivateDID(did, { deactivatedBy: "admin" });
+
+    await expect(didService.deactivateDID(did, { deactivatedBy: "admin" })).rejects.toMatchObject({
+      code: "DID_DEACTIVATED"
+    });
+    expect(statements("INSERT INTO did_deactivations")).toHaveLength(1);
+  });
+
+  it("revokes the agent, its capabilities and its sessions along with the DID", async () => {
+    jest.spyOn(statusListService, "setStatus").mockResolvedValue(undefined);
+    jest.spyOn(didService, "publishPending").mockResolvedValue(undefined);
+
+    await identityManager.deactivateIdentity(did, { deactivatedBy: "admin", reason: "retired" });
+
+    expect(statements("UPDATE agents SET status")[0][1]).toEqual(["revoked", current.deactivatedAt, did]);
+    expect(statusListService.setStatus).toHaveBeenCalledWith("list-1", 7, true, client);
+    expect(statements("UPDATE attestations SET issuer_deactivated_at")).toHaveLength(1);
+    expect(statements("UPDATE agent_sessions")[0][1]).toEqual([current.deactivatedAt, "agent-1"]);
+  });
+});
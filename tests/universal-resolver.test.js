@@ -0,0 +1,151 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const express = require("express");
+const universalResolverRoutes = require("../src/routes/universal-resolver").default;
+const { didService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { resolutionCache } = require("../src/services/resolution-cache");
+
+const DID = "did:web:hub.example%3A8443:agents:agent-1";
+const RESOLUTION_RESULT_TYPE = 'application/ld+json;profile="https://w3id.org/did-resolution"';
+
+function resolution(documentMetadata = {}, error) {
+  return {
+    didResolutionMetadata: error ? { error } : { contentType: "application/did+json" },
+    didDocument: error ? null : { id: DID, verificationMethod: [] },
+    didDocumentMetadata: documentMetadata
+  };
+}
+
+describe("universal resolver endpoint", () => {
+  let server;
+  let baseUrl;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use("/1.0", universalResolverRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/1.0/identifiers`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function get(path, accept) {
+    return fetch(`${baseUrl}/${path}`, { headers: accept ? { accept } : {}, redirect: "manual" });
+  }
+
+  it("returns a resolution result by default, keeping did:web port encoding intact", async () => {
+    jest.spyOn(didService, "resolveDID").mockResolvedValue(resolution({ versionId: "1" }));
+
+    const response = await get(DID);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("profile=");
+    const body = await response.json();
+    expect(body.didDocument.id).toBe(DID);
+    expect(body.didResolutionMetadata.contentType).toBe("application/did+ld+json");
+    expect(didService.resolveDID.mock.calls[0][0]).toBe(DID);
+  });
+
+  it("answers 410 Gone with the tombstone for a deactivated DID", async () => {
+    jest.spyOn(didService, "resolveDID").mockResolvedValue(resolution({ deactivated: true }));
+
+    const response = await get(DID, RESOLUTION_RESULT_TYPE);
+
+    expect(response.status).toBe(410);
+    const body = await response.json();
+    expect(body.didDocumentMetadata.deactivated).toBe(true);
+    expect(body.didDocument.id).toBe(DID);
+  });
+
+  it("answers 410 for a DID the hub holds a tombstone for", async () => {
+    resolutionCache.flush();
+    const deactivatedAt = new Date("2026-03-01T00:00:00Z");
+    jest.spyOn(didDocumentStore, "getCurrent").mockResolvedValue({
+      did: DID,
+      versionId: 3,
+      document: { id: DID, verificationMethod: [] },
+      createdAt: deactivatedAt,
+      deactivatedAt
+    });
+    jest.spyOn(didDocumentStore, "getNextVersionId").mockResolvedValue(undefined);
+
+    const response = await get(DID);
+
+    expect(response.status).toBe(410);
+    expect((await response.json()).didDocumentMetadata).toMatchObject({
+      deactivated: true,
+      deactivatedAt: deactivatedAt.toISOString(),
+      versionId: "3"
+    });
+  });
+
+  it("keeps 410 when only the bare document is asked for", async () => {
+    jest.spyOn(didService, "resolveDID").mockResolvedValue(resolution({ deactivated: true }));
+
+    const response = await get(DID, "application/did+json");
+
+    expect(response.status).toBe(410);
+    expect(response.headers.get("content-type")).toContain("application/did+json");
+    expect(await response.json()).toEqual({ id: DID, verificationMethod: [] });
+  });
+
+  it("maps resolution errors to HTTP statuses", async () => {
+    const spy = jest.spyOn(didService, "resolveDID");
+
+    spy.mockResolvedValueOnce(resolution({}, "notFound"));
+    expect((await get(DID)).status).toBe(404);
+    spy.mockResolvedValueOnce(resolution({}, "invalidDid"));
+    expect((await get("did:nope")).status).toBe(400);
+    spy.mockResolvedValueOnce(resolution({}, "methodNotSupported"));
+    expect((await get("did:example:123")).status).toBe(501);
+  });
+
+  it("refuses representations it cannot produce", async () => {
+    const spy = jest.spyOn(didService, "resolveDID");
+
+    const response = await get(DID, "text/html");
+
+    expect(response.status).toBe(406);
+    expect((await response.json()).didResolutionMetadata.error).toBe("representationNotSupported");
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("dereferences DID URLs and redirects to service endpoints", async () => {
+    jest.spyOn(didService, "dereference").mockResolvedValue({
+      dereferencingMetadata: { contentType: "text/uri-list" },
+      contentStream: "https://messaging.example/inbox\nhttps://backup.example/inbox",
+      contentMetadata: {}
+    });
+
+    const response = await get(`${DID}?service=messaging`);
+
+    expect(response.status).toBe(303);
+    expect(response.headers.get("location")).toBe("https://messaging.example/inbox");
+    expect(didService.dereference).toHaveBeenCalledWith(`${DID}?service=messaging`);
+  });
+
+  it("treats an encoded fragment as a DID URL", async () => {
+    jest.spyOn(didService, "dereference").mockResolvedValue({
+      dereferencingMetadata: { contentType: "application/did+json" },
+      contentStream: { id: `${DID}#keys-1` },
+      contentMetadata: {}
+    });
+
+    const response = await get(`${DID}%23keys-1`);
+
+    expect(response.status).toBe(200);
+    expect(didService.dereference).toHaveBeenCalledWith(`${DID}#keys-1`);
+  });
+});
@@ -0,0 +1,148 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { attestationService } = require("../src/services/attestation-service");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createDIDKey } = require("../src/utils/did-key");
+const { compactJws, jwsSigningInput } = require("../src/utils/jose");
+
+const suite = getSuite("Ed25519");
+
+function didKeyFor(keyPair) {
+  const did = createDIDKey(keyPair.publicKey, "Ed25519");
+  return { did, kid: `${did}#${did.split(":")[2]}`, ...keyPair };
+}
+
+function signJwt(signer, payload, header = {}) {
+  const input = jwsSigningInput({ alg: suite.algorithm, typ: "vc+jwt", kid: signer.kid, ...header }, payload);
+  return compactJws(input, suite.sign(input, signer.privateKey));
+}
+
+function credentialClaims(issuer, subject, overrides = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    id: "urn:attest:jwt-test",
+    type: ["VerifiableCredential", "MembershipCredential"],
+    issuer,
+    validFrom: new Date((now - 60) * 1000).toISOString(),
+    credentialSubject: { id: subject, membership: "gold" },
+    iss: issuer,
+    sub: subject,
+    jti: "urn:attest:jwt-test",
+    iat: now - 60,
+    exp: now + 3600,
+    ...overrides
+  };
+}
+
+describe("VC-JWT verification", () => {
+  const issuer = didKeyFor(suite.generateKeyPair());
+  const subject = didKeyFor(suite.generateKeyPair());
+
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue({ rows: [] });
+  });
+
+  it("accepts a token signed by the issuer's did:key", async () => {
+    const result = await attestationService.verifyJwt(signJwt(issuer, credentialClaims(issuer.did, subject.did)));
+
+    expect(result.errors).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(result.attestation).toMatchObject({ id: "urn:attest:jwt-test", issuer: issuer.did, subject: subject.did });
+  });
+
+  it("rejects a token whose iss differs from the credential issuer", async () => {
+    const other = didKeyFor(suite.generateKeyPair());
+    const token = signJwt(other, credentialClaims(issuer.did, subject.did, { iss: other.did }));
+
+    await expect(attestationService.verifyJwt(token)).resolves.toEqual({
+      valid: false,
+      errors: ["JWT iss does not match the credential issuer"]
+    });
+  });
+
+  it("rejects a token whose sub differs from the credential subject", async () => {
+    const token = signJwt(issuer, credentialClaims(issuer.did, subject.did, { sub: "did:example:someone-else" }));
+
+    await expect(attestationService.verifyJwt(token)).resolves.toEqual({
+      valid: false,
+      errors: ["JWT sub does not match the credential subject"]
+    });
+  });
+
+  it("rejects a key that does not belong to the issuer", async () => {
+    const other = didKeyFor(suite.generateKeyPair());
+    const result = await attestationService.verifyJwt(signJwt(other, credentialClaims(issuer.did, subject.did)));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([`JWT signing key does not belong to ${issuer.did}`]);
+  });
+
+  it("rejects a tampered payload", async () => {
+    const [header, , signature] = signJwt(issuer, credentialClaims(issuer.did, subject.did)).split(".");
+    const tampered = credentialClaims(issuer.did, subject.did, {
+      credentialSubject: { id: subject.did, membership: "platinum" }
+    });
+    const payload = Buffer.from(JSON.stringify(tampered)).toString("base64url");
+
+    const result = await attestationService.verifyJwt(`${header}.${payload}.${signature}`);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["JWT signature is invalid"]);
+  });
+
+  it("rejects an alg that does not match the key", async () => {
+    const result = await attestationService.verifyJwt(
+      signJwt(issuer, credentialClaims(issuer.did, subject.did), { alg: "ES256K" })
+    );
+
+    expect(result.errors).toEqual(["Algorithm ES256K does not match the signing key"]);
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await attestationService.verifyJwt(
+      signJwt(issuer, credentialClaims(issuer.did, subject.did, { iat: now - 7200, exp: now - 3600 }))
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["Attestation has expired"]);
+  });
+
+  it("reports revocation recorded by the hub", async () => {
+    query.mockImplementation(async (sql) =>
+      sql.includes("FROM attestations")
+        ? {
+            rows: [
+              {
+                id: "urn:attest:jwt-test",
+                type: "membership",
+                issuer: issuer.did,
+                subject: subject.did,
+                claims: [],
+                issued_at: new Date(),
+                revocation: { revokedAt: new Date().toISOString(), revokedBy: issuer.did, reason: "Key compromised" }
+              }
+            ]
+          }
+        : { rows: [] }
+    );
+
+    const result = await attestationService.verifyJwt(signJwt(issuer, credentialClaims(issuer.did, subject.did)));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain("Attestation has been revoked");
+  });
+
+  it("rejects anything that is not a compact JWS", async () => {
+    await expect(attestationService.verifyJwt("not.a-jwt")).resolves.toEqual({
+      valid: false,
+      errors: ["Not a compact JWS"]
+    });
+  });
+});
@@ -0,0 +1,142 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { query } = require("../src/utils/db");
+const { attestationService } = require("../src/services/attestation-service");
+const { signerRegistry } = require("../src/services/signer-registry");
+const { resolutionCache } = require("../src/services/resolution-cache");
+const { getSuite } = require("../src/utils/crypto-suites");
+const { createDIDKey } = require("../src/utils/did-key");
+
+const suite = getSuite("Ed25519");
+const issuerKeys = suite.generateKeyPair();
+const ISSUER = createDIDKey(issuerKeys.publicKey, "Ed25519");
+const SUBJECT = "did:example:subject";
+
+function attestationRow(overrides = {}) {
+  return {
+    id: "urn:attest:vc-test",
+    type: "capability_authorization",
+    issuer: ISSUER,
+    subject: SUBJECT,
+    claims: [
+      { type: "scope", value: "read" },
+      { type: "scope", value: "write" },
+      { type: "clearance", value: 3 }
+    ],
+    issued_at: new Date("2026-01-01T00:00:00Z"),
+    expires_at: new Date("2099-01-01T00:00:00Z"),
+    proof: {},
+    metadata: {},
+    ...overrides
+  };
+}
+
+describe("verifiable credential export and import", () => {
+  let rows;
+  let inserted;
+
+  beforeEach(() => {
+    resolutionCache.flush();
+    rows = [attestationRow()];
+    inserted = [];
+    query.mockReset().mockImplementation(async (sql, params) => {
+      if (sql.includes("INSERT INTO attestations")) {
+        inserted.push(params);
+        return { rows: [] };
+      }
+      if (sql.includes("FROM attestations")) {
+        return { rows: rows.filter((row) => row.id === params[0]) };
+      }
+      return { rows: [] };
+    });
+    // The issuer's key signs through the registry, as the custodied key would
+    jest.spyOn(signerRegistry, "sign").mockImplementation(async (did, method, data) => ({
+      signature: suite.sign(data, issuerKeys.privateKey),
+      keyId: method.id
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("exports a hub attestation as a VC 2.0 credential with a Data Integrity proof", async () => {
+    const credential = await attestationService.exportCredential("urn:attest:vc-test");
+
+    expect(credential).toMatchObject({
+      "@context": ["https://www.w3.org/ns/credentials/v2"],
+      id: "urn:attest:vc-test",
+      type: ["VerifiableCredential", "CapabilityAuthorizationCredential"],
+      issuer: ISSUER,
+      validFrom: "2026-01-01T00:00:00.000Z",
+      validUntil: "2099-01-01T00:00:00.000Z",
+      credentialSubject: { id: SUBJECT, scope: ["read", "write"], clearance: 3 }
+    });
+    expect(credential.proof).toMatchObject({
+      type: "DataIntegrityProof",
+      cryptosuite: "eddsa-jcs-2022",
+      proofPurpose: "assertionMethod",
+      verificationMethod: expect.stringMatching(new RegExp(`^${ISSUER}#`))
+    });
+    expect(credential.proof.proofValue).toMatch(/^z/);
+  });
+
+  it("imports a credential whose proof verifies against the issuer's keys", async () => {
+    const credential = await attestationService.exportCredential("urn:attest:vc-test");
+    rows = [];
+
+    const attestation = await attestationService.importCredential(credential, "agent-1");
+
+    expect(attestation).toMatchObject({
+      id: "urn:attest:vc-test",
+      type: "capability_authorization",
+      issuer: ISSUER,
+      subject: SUBJECT,
+      metadata: { importedBy: "agent-1" }
+    });
+    expect(attestation.claims).toContainEqual({ type: "clearance", value: 3, issuer: ISSUER });
+    expect(JSON.parse(inserted[0][14])).toEqual(credential);
+  });
+
+  it("exports an imported credential exactly as it was received", async () => {
+    const credential = await attestationService.exportCredential("urn:attest:vc-test");
+    rows = [attestationRow({ imported_credential: credential })];
+    signerRegistry.sign.mockClear();
+
+    await expect(attestationService.exportCredential("urn:attest:vc-test")).resolves.toEqual(credential);
+    expect(signerRegistry.sign).not.toHaveBeenCalled();
+  });
+
+  it("rejects credentials changed after signing", async () => {
+    const credential = await attestationService.exportCredential("urn:attest:vc-test");
+    rows = [];
+    const tampered = { ...credential, credentialSubject: { ...credential.credentialSubject, clearance: 5 } };
+
+    await expect(attestationService.importCredential(tampered, "agent-1")).rejects.toMatchObject({
+      code: "INVALID_PROOF"
+    });
+    expect(inserted).toEqual([]);
+  });
+
+  it("rejects expired, unproven and already imported credentials", async () => {
+    rows = [attestationRow({ expires_at: new Date(Date.now() - 1000) })];
+    const expired = await attestationService.exportCredential("urn:attest:vc-test");
+    rows = [attestationRow()];
+    const duplicate = await attestationService.exportCredential("urn:attest:vc-test");
+    const { proof: _proof, ...unproven } = duplicate;
+
+    await expect(attestationService.importCredential(expired, "agent-1")).rejects.toMatchObject({
+      code: "CREDENTIAL_EXPIRED"
+    });
+    await expect(attestationService.importCredential(unproven, "agent-1")).rejects.toMatchObject({
+      code: "INVALID_PROOF"
+    });
+    await expect(attestationService.importCredential(duplicate, "agent-1")).rejects.toMatchObject({
+      statusCode: 409
+    });
+  });
+});
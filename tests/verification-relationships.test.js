@@ -0,0 +1,112 @@
+jest.mock("../src/utils/db", () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+  afterCommit: jest.fn()
+}));
+
+const { transaction } = require("../src/utils/db");
+const { didService } = require("../src/services/did-service");
+const { didDocumentStore } = require("../src/services/did-document-store");
+const { WebMethodDriver } = require("../src/services/did-methods/web-method-driver");
+const { buildVerificationMethod, getSuite } = require("../src/utils/crypto-suites");
+
+const suite = getSuite("Ed25519");
+
+describe("verification relationship management", () => {
+  let did;
+  let current;
+
+  beforeEach(async () => {
+    const created = await new WebMethodDriver().create({
+      agentId: "relationships",
+      keyType: "Ed25519",
+      services: [{ id: "#inbox", type: "Messaging", serviceEndpoint: "https://inbox.example" }]
+    });
+    did = created.did;
+    current = created.document;
+    const { publicKey } = suite.generateKeyPair();
+    current.verificationMethod.push(buildVerificationMethod(suite, `${did}#keys-2`, did, publicKey));
+
+    jest.spyOn(didDocumentStore, "getCurrent").mockImplementation(async () => ({
+      did,
+      versionId: 1,
+      document: current,
+      createdAt: new Date()
+    }));
+    jest.spyOn(didDocumentStore, "update").mockImplementation(async (d, next) => {
+      current = next;
+      return { did, versionId: 2, document: next, createdAt: new Date() };
+    });
+    transaction.mockReset().mockImplementation(async (callback) => callback({ query: jest.fn() }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("assigns a key to a relationship and removes it again", async () => {
+    await didService.assignVerificationRelationship(did, "capabilityInvocation", `${did}#keys-2`);
+    expect(current.capabilityInvocation).toEqual([`${did}#keys-2`]);
+
+    await didService.removeVerificationRelationship(did, "capabilityInvocation", `${did}#keys-2`);
+    expect(current.capabilityInvocation || []).toEqual([]);
+    expect(current.verificationMethod).toHaveLength(2);
+  });
+
+  it("refuses unknown, revoked and already assigned keys", async () => {
+    await expect(
+      didService.assignVerificationRelationship(did, "keyAgreement", `${did}#keys-9`)
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await expect(
+      didService.assignVerificationRelationship(did, "authentication", `${did}#keys-1`)
+    ).rejects.toThrow("already in authentication");
+
+    current.verificationMethod[1].revoked = new Date().toISOString();
+    await expect(
+      didService.assignVerificationRelationship(did, "authentication", `${did}#keys-2`)
+    ).rejects.toMatchObject({ code: "KEY_REVOKED" });
+  });
+
+  it("keeps at least one authentication key", async () => {
+    await expect(
+      didService.removeVerificationRelationship(did, "authentication", `${did}#keys-1`)
+    ).rejects.toMatchObject({ code: "NO_AUTHENTICATION_KEY" });
+    await expect(didService.removeVerificationMethod(did, `${did}#keys-1`)).rejects.toMatchObject({
+      code: "NO_AUTHENTICATION_KEY"
+    });
+    expect(didDocumentStore.update).not.toHaveBeenCalled();
+  });
+
+  it("removes a verification method together with every reference to it", async () => {
+    await didService.assignVerificationRelationship(did, "authentication", `${did}#keys-2`);
+    await didService.assignVerificationRelationship(did, "assertionMethod", `${did}#keys-2`);
+
+    await didService.removeVerificationMethod(did, `${did}#keys-1`);
+
+    expect(current.verificationMethod.map((vm) => vm.id)).toEqual([`${did}#keys-2`]);
+    expect(current.authentication).toEqual([`${did}#keys-2`]);
+    expect(current.assertionMethod).toEqual([`${did}#keys-2`]);
+  });
+
+  it("rejects documents that reference keys they do not contain", async () => {
+    await expect(didService.updateDID(did, { keyAgreement: [`${did}#keys-9`] })).rejects.toMatchObject({
+      code: "UNKNOWN_VERIFICATION_METHOD"
+    });
+    await expect(
+      didService.addVerificationMethod(did, { ...current.verificationMethod[1], id: `${did}#keys-1` })
+    ).rejects.toMatchObject({ code: "DUPLICATE_VERIFICATION_METHOD" });
+  });
+
+  it("updates and removes service endpoints by relative or absolute ID", async () => {
+    await didService.updateServiceEndpoint(did, `${did}#inbox`, {
+      id: "#renamed",
+      serviceEndpoint: "https://new.example"
+    });
+    expect(current.service).toEqual([{ id: "#inbox", type: "Messaging", serviceEndpoint: "https://new.example" }]);
+
+    await didService.removeServiceEndpoint(did, "#inbox");
+    expect(current.service).toBeUndefined();
+
+    await expect(didService.removeServiceEndpoint(did, "#inbox")).rejects.toMatchObject({ statusCode: 404 });
+  });
+});